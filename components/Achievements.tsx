@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import { Session } from '../types';
+import { formatDate } from '../utils/helpers';
+import { getAchievements, formatPersonalBest, EarnedAchievement } from '../utils/achievements';
+
+interface AchievementsCardProps {
+  sessions: Session[]; // Every session the player has logged, not just this season's
+}
+
+const StreakStat: React.FC<{ label: string; current: number; longest: number; unit: string }> = ({ label, current, longest, unit }) => (
+    <div className="bg-muted/50 p-3 rounded-lg text-center">
+        <p className="text-xs font-medium text-muted-foreground">{label}</p>
+        <p className="text-3xl font-bold text-secondary">{current}</p>
+        <p className="text-xs text-muted-foreground">Longest: {longest} {unit}{longest === 1 ? '' : 's'}</p>
+    </div>
+);
+
+export const AchievementsCard: React.FC<AchievementsCardProps> = ({ sessions }) => {
+    const { streaks, milestones, personalBests } = useMemo(() => getAchievements(sessions), [sessions]);
+
+    return (
+        <div className="bg-card border border-border p-4 rounded-lg shadow-sm space-y-5">
+            <div className="grid grid-cols-2 gap-3">
+                <StreakStat label="Day Streak" current={streaks.currentDays} longest={streaks.longestDays} unit="day" />
+                <StreakStat label="Week Streak" current={streaks.currentWeeks} longest={streaks.longestWeeks} unit="week" />
+            </div>
+
+            <div>
+                <h3 className="text-sm font-semibold text-muted-foreground mb-2">Badges</h3>
+                <ul className="space-y-3">
+                    {milestones.map(m => (
+                        <li key={m.id} className={m.earnedAt ? '' : 'opacity-70'}>
+                            <div className="flex justify-between items-baseline gap-2">
+                                <span className="font-semibold text-sm text-card-foreground">{m.title}</span>
+                                {m.earnedAt
+                                    ? <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-success/20 text-success shrink-0">Earned {formatDate(m.earnedAt, { month: 'short', day: 'numeric' })}</span>
+                                    : <span className="text-xs text-muted-foreground shrink-0">{m.progressLabel}</span>}
+                            </div>
+                            <p className="text-xs text-muted-foreground">{m.description}</p>
+                            {!m.earnedAt && (
+                                <div className="w-full bg-muted rounded-full h-1.5 mt-1">
+                                    <div className="bg-secondary h-1.5 rounded-full" style={{ width: `${Math.round(m.progress * 100)}%` }}></div>
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+
+            <div>
+                <h3 className="text-sm font-semibold text-muted-foreground mb-2">Personal Bests</h3>
+                {personalBests.length > 0 ? (
+                    <ul className="divide-y divide-border">
+                        {personalBests.map(best => (
+                            <li key={best.id} className="py-2 flex justify-between items-baseline text-sm">
+                                <span className="text-card-foreground">{best.label}</span>
+                                <span>
+                                    <span className="font-bold text-primary">{formatPersonalBest(best)}</span>
+                                    <span className="text-xs text-muted-foreground"> &middot; {formatDate(best.date, { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-muted-foreground">Log a session to start setting personal bests.</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const KIND_STYLES: Record<EarnedAchievement['kind'], string> = {
+    'milestone': 'bg-success/20 text-success',
+    'personal-best': 'bg-primary/20 text-primary',
+    'streak': 'bg-secondary/20 text-secondary',
+};
+
+const KIND_LABELS: Record<EarnedAchievement['kind'], string> = {
+    'milestone': 'Badge',
+    'personal-best': 'PB',
+    'streak': 'Streak',
+};
+
+// Newly earned achievements, as announced when a session is saved.
+export const EarnedAchievementList: React.FC<{ achievements: EarnedAchievement[] }> = ({ achievements }) => (
+    <ul className="space-y-2 text-left">
+        {achievements.map(a => (
+            <li key={a.title} className="flex items-center gap-3 bg-muted/50 rounded-lg p-2">
+                <span className={`px-2 py-0.5 text-xs font-semibold rounded-full shrink-0 ${KIND_STYLES[a.kind]}`}>{KIND_LABELS[a.kind]}</span>
+                <span className="text-sm">
+                    <span className="font-semibold text-foreground">{a.title}</span>
+                    <span className="text-muted-foreground"> &middot; {a.detail}</span>
+                </span>
+            </li>
+        ))}
+    </ul>
+);
@@ -29,7 +29,7 @@ const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
     return null;
 };
 
-const ChartCard: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+export const ChartCard: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
     <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
         <h3 className="text-lg font-bold text-primary mb-4">{title}</h3>
         <div className="h-80">
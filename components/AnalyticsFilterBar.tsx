@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { Team, Player, PlayerGroup, DrillType, PitchType, CountSituation } from '../types';
+import { DRILL_TYPES, PITCH_TYPES, COUNT_SITUATIONS } from '../constants';
+import { AnalyticsFilters, DateRangePreset, DATE_RANGE_PRESETS, DEFAULT_ANALYTICS_FILTERS, parseAnalyticsFilters, serializeAnalyticsFilters } from '../utils/analyticsFilters';
+import { SeasonFilter } from './SeasonFilter';
+
+// Keeps the filters in the query string. Replacing rather than pushing history keeps Back from stepping through every tweak.
+export const useAnalyticsFilters = (): [AnalyticsFilters, React.Dispatch<React.SetStateAction<AnalyticsFilters>>] => {
+    const [filters, setFilters] = useState<AnalyticsFilters>(() => parseAnalyticsFilters(window.location.search));
+
+    useEffect(() => {
+        const search = serializeAnalyticsFilters(filters, window.location.search);
+        if (search !== window.location.search) {
+            window.history.replaceState(window.history.state, '', `${window.location.pathname}${search}${window.location.hash}`);
+        }
+    }, [filters]);
+
+    useEffect(() => {
+        const handlePopState = () => setFilters(parseAnalyticsFilters(window.location.search));
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
+
+    return [filters, setFilters];
+};
+
+interface AnalyticsFilterBarProps {
+  filters: AnalyticsFilters;
+  onChange: (filters: AnalyticsFilters) => void;
+  team?: Team; // Shows the season picker once the team has closed a season
+  players?: Player[]; // Shows the player and group picker; omitted on a player's own pages
+  groups?: PlayerGroup[];
+}
+
+const SELECT_CLASS = "bg-background border border-input rounded-lg py-2 px-3 text-sm font-semibold text-foreground focus:outline-none focus:ring-primary focus:border-primary";
+
+export const AnalyticsFilterBar: React.FC<AnalyticsFilterBarProps> = ({ filters, onChange, team, players, groups = [] }) => {
+    const update = (changes: Partial<AnalyticsFilters>) => onChange({ ...filters, ...changes });
+    const subjectValue = filters.playerId ? `player:${filters.playerId}` : filters.groupId ? `group:${filters.groupId}` : '';
+    const isFiltered = filters.range !== DEFAULT_ANALYTICS_FILTERS.range || !!(filters.drillType || filters.pitchType || filters.countSituation || filters.playerId || filters.groupId || filters.season !== undefined);
+
+    const handleSubjectChange = (value: string) => {
+        const [kind, id] = value.split(':');
+        update({ playerId: kind === 'player' ? id : undefined, groupId: kind === 'group' ? id : undefined });
+    };
+
+    return (
+        <div className="bg-card border border-border p-3 rounded-lg shadow-sm flex flex-wrap items-center gap-3">
+            {team && team.pastSeasons?.length ? (
+                <SeasonFilter team={team} value={filters.season ?? team.seasonYear} onChange={season => update({ season: season === team.seasonYear ? undefined : season })} />
+            ) : null}
+            <select value={filters.range} onChange={e => update({ range: e.target.value as DateRangePreset })} className={SELECT_CLASS}>
+                {DATE_RANGE_PRESETS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+            </select>
+            {filters.range === 'custom' && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <input type="date" value={filters.from || ''} max={filters.to} onChange={e => update({ from: e.target.value || undefined })} className={SELECT_CLASS} aria-label="From" />
+                    <span>to</span>
+                    <input type="date" value={filters.to || ''} min={filters.from} onChange={e => update({ to: e.target.value || undefined })} className={SELECT_CLASS} aria-label="To" />
+                </div>
+            )}
+            {players && (
+                <select value={subjectValue} onChange={e => handleSubjectChange(e.target.value)} className={SELECT_CLASS}>
+                    <option value="">All Players</option>
+                    {groups.length > 0 && (
+                        <optgroup label="Groups">
+                            {groups.map(g => <option key={g.id} value={`group:${g.id}`}>{g.name}</option>)}
+                        </optgroup>
+                    )}
+                    <optgroup label="Players">
+                        {[...players].sort((a, b) => a.name.localeCompare(b.name)).map(p => <option key={p.id} value={`player:${p.id}`}>{p.name}</option>)}
+                    </optgroup>
+                </select>
+            )}
+            <select value={filters.drillType || ''} onChange={e => update({ drillType: (e.target.value || undefined) as DrillType | undefined })} className={SELECT_CLASS}>
+                <option value="">All Drill Types</option>
+                {DRILL_TYPES.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+            <select value={filters.pitchType || ''} onChange={e => update({ pitchType: (e.target.value || undefined) as PitchType | undefined })} className={SELECT_CLASS}>
+                <option value="">All Pitches</option>
+                {PITCH_TYPES.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+            <select value={filters.countSituation || ''} onChange={e => update({ countSituation: (e.target.value || undefined) as CountSituation | undefined })} className={SELECT_CLASS}>
+                <option value="">All Counts</option>
+                {COUNT_SITUATIONS.map(c => <option key={c} value={c}>{c} in Count</option>)}
+            </select>
+            {isFiltered && (
+                <button onClick={() => onChange(DEFAULT_ANALYTICS_FILTERS)} className="text-sm text-primary hover:underline font-semibold">Reset Filters</button>
+            )}
+        </div>
+    );
+};
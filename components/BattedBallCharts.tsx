@@ -0,0 +1,58 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line } from 'recharts';
+import { ChartCard } from './AnalyticsCharts';
+import { BattedBall, summarizeBattedBalls, getExitVeloTrend, getLaunchAngleDistribution } from '../utils/helpers';
+
+interface BattedBallChartsProps {
+    battedBalls: BattedBall[];
+}
+
+const StatTile: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div className="bg-card border border-border p-4 rounded-lg shadow-sm text-center">
+        <p className="text-sm font-semibold text-muted-foreground">{label}</p>
+        <p className="text-2xl font-bold text-foreground mt-1">{value}</p>
+    </div>
+);
+
+export const BattedBallCharts: React.FC<BattedBallChartsProps> = ({ battedBalls }) => {
+    const summary = useMemo(() => summarizeBattedBalls(battedBalls), [battedBalls]);
+    const exitVeloTrend = useMemo(() => getExitVeloTrend(battedBalls), [battedBalls]);
+    const launchAngles = useMemo(() => getLaunchAngleDistribution(battedBalls), [battedBalls]);
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <StatTile label="Batted Balls" value={summary.count.toString()} />
+                <StatTile label="Avg Exit Velo" value={summary.avgExitVelo !== null ? `${summary.avgExitVelo} mph` : '-'} />
+                <StatTile label="Max Exit Velo" value={summary.maxExitVelo !== null ? `${summary.maxExitVelo} mph` : '-'} />
+                <StatTile label="Avg Launch Angle" value={summary.avgLaunchAngle !== null ? `${summary.avgLaunchAngle}°` : '-'} />
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <ChartCard title="Exit Velocity Over Time">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={exitVeloTrend}>
+                            <CartesianGrid stroke="hsl(var(--border))" strokeDasharray="3 3" />
+                            <XAxis dataKey="name" stroke="hsl(var(--muted-foreground))" fontSize={12} tickLine={false} axisLine={false} />
+                            <YAxis stroke="hsl(var(--muted-foreground))" unit=" mph" fontSize={12} tickLine={false} axisLine={false} domain={['dataMin - 5', 'dataMax + 5']} />
+                            <Tooltip contentStyle={{ backgroundColor: 'hsl(var(--popover))', borderColor: 'hsl(var(--border))' }} />
+                            <Legend wrapperStyle={{ fontSize: '14px' }} />
+                            <Line type="monotone" dataKey="Avg EV" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                            <Line type="monotone" dataKey="Max EV" stroke="hsl(var(--accent))" strokeWidth={2} dot={false} />
+                        </LineChart>
+                    </ResponsiveContainer>
+                </ChartCard>
+                <ChartCard title="Launch Angle Distribution">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={launchAngles}>
+                            <CartesianGrid stroke="hsl(var(--border))" strokeDasharray="3 3" />
+                            <XAxis dataKey="name" stroke="hsl(var(--muted-foreground))" fontSize={12} tickLine={false} axisLine={false} />
+                            <YAxis stroke="hsl(var(--muted-foreground))" allowDecimals={false} fontSize={12} tickLine={false} axisLine={false} />
+                            <Tooltip contentStyle={{ backgroundColor: 'hsl(var(--popover))', borderColor: 'hsl(var(--border))' }} />
+                            <Bar dataKey="count" name="Batted Balls" fill="hsl(var(--secondary))" radius={[4, 4, 0, 0]} />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </ChartCard>
+            </div>
+        </div>
+    );
+};
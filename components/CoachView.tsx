@@ -1,21 +1,44 @@
-import React, { useState, useContext, useMemo, useEffect } from 'react';
+import React, { useState, useContext, useMemo, useEffect, useRef } from 'react';
 import { DataContext } from '../contexts/DataContext';
-import { Dashboard } from './Dashboard';
+import { Dashboard, NavItem } from './Dashboard';
+import { RouteLink } from './RouteLink';
+import { SessionDetail } from './SessionDetail';
+import { RouterContext } from '../contexts/RouterContext';
+import { AppRoute, DEFAULT_VIEW } from '../utils/routes';
 import { HomeIcon } from './icons/HomeIcon';
 import { UsersIcon } from './icons/UsersIcon';
 import { ClipboardListIcon } from './icons/ClipboardListIcon';
 import { ChartBarIcon } from './icons/ChartBarIcon';
-import { Player, Team, Drill, Session, DayOfWeek, TargetZone, PitchType, CountSituation, BaseRunner, GoalType, DrillType, PersonalGoal, SetResult, TeamGoal } from '../types';
+import { CalendarIcon } from './icons/CalendarIcon';
+import { QueueListIcon } from './icons/QueueListIcon';
+import { Player, PlayerGroup, Team, Drill, PracticePlan, PracticePlanItem, Session, DrillAssignment, AssignmentTarget, DayOfWeek, TargetZone, PitchType, CountSituation, BaseRunner, GoalType, GoalMetric, DrillType, PersonalGoal, SetResult, TeamGoal, GoalDetails } from '../types';
 import { AnalyticsCharts } from './AnalyticsCharts';
 import { Modal } from './Modal';
-import { TARGET_ZONES, PITCH_TYPES, COUNT_SITUATIONS, BASE_RUNNERS, OUTS_OPTIONS, GOAL_TYPES, DRILL_TYPES } from '../constants';
-import { formatDate, calculateExecutionPercentage, getSessionGoalProgress, calculateHardHitPercentage, getCurrentMetricValue, formatGoalName, calculateStrikeoutPercentage, getCurrentTeamMetricValue, formatTeamGoalName } from '../utils/helpers';
+import { TARGET_ZONES, PITCH_TYPES, COUNT_SITUATIONS, BASE_RUNNERS, OUTS_OPTIONS, GOAL_TYPES, GOAL_METRICS, GOAL_METRIC_DESCRIPTIONS, DRILL_TYPES } from '../constants';
+import { formatDate, toDateKey, getAssignmentCompletion, isAssignmentInEffect, getAssignedPlayers, formatAssignmentTargets, ALL_PLAYERS, getAssignmentStartDate, formatAssignmentSchedule, getPlanSteps, getPlanTotalReps, splitSetReps, getBattedBalls, BattedBall, getPerformanceOverTime, getDrillSuccessRates, calculateExecutionPercentage, calculateGoalProgress, getSessionGoalProgress, calculateHardHitPercentage, getCurrentMetricValue, formatGoalName, calculateStrikeoutPercentage, getCurrentTeamMetricValue, formatTeamGoalName, formatGoalMetricValue, getPersonalGoalForecast, getSettledGoals, getTeamGoalForecast, ALL_SEASONS, SeasonFilterValue, filterSessionsBySeason, filterGoalsBySeason, getSeasonComparison, getSeasonEndDate } from '../utils/helpers';
 import { Avatar } from './Avatar';
 import { PlayerRadarChart } from './PlayerRadarChart';
 import { TeamTrendChart } from './TeamTrendChart';
 import { StrikeZoneHeatmap } from './StrikeZoneHeatmap';
+import { SprayChart } from './SprayChart';
+import { BattedBallCharts } from './BattedBallCharts';
 import { BreakdownBar } from './BreakdownBar';
 import { Tooltip } from './Tooltip';
+import { SessionEditModal } from './SessionEditModal';
+import { SessionThreadModal } from './SessionThread';
+import { CsvImportModal } from './CsvImportModal';
+import { ExportModal, ExportOption } from './ExportModal';
+import { TeamBackupModal } from './TeamBackupModal';
+import { PlayerReport } from './PlayerReport';
+import { SeasonFilter } from './SeasonFilter';
+import { SeasonRolloverModal } from './SeasonRolloverModal';
+import { SeasonComparisonChart } from './SeasonComparisonChart';
+import { GoalOutcomeBanner, GoalHistory } from './GoalOutcomes';
+import { GoalForecastNote } from './GoalForecastNote';
+import { GoalForm } from './GoalForm';
+import { AnalyticsFilterBar, useAnalyticsFilters } from './AnalyticsFilterBar';
+import { applyAnalyticsFilters, getDateBounds, getDateRangeLabel, getExecutionTrend } from '../utils/analyticsFilters';
+import { TeamExportData, toCsv, getExportFileName, getSessionExportRows, getRepExportRows, getPlayerSummaryRows, getDrillSuccessRows, getGoalProgressRows, buildTeamJsonExport } from '../utils/export';
 
 
 // --- ANALYTICS SUB-COMPONENTS ---
@@ -35,6 +58,7 @@ interface CoachAnalyticsData {
         byCount: { name: string; reps: number; execution: number; topPlayers: TopPlayer[] }[];
         byZone: { zone: TargetZone; execution: number; reps: number; topPlayers: TopPlayer[] }[];
     }
+    battedBalls: BattedBall[];
 }
 
 const PlayerLeaderboard: React.FC<{ players: TopPlayer[], metricSuffix?: string }> = ({ players, metricSuffix = '%' }) => {
@@ -92,8 +116,9 @@ const CoachAnalyticsPage: React.FC<{ analyticsData: CoachAnalyticsData }> = ({ a
                 <h2 className="text-2xl font-bold text-foreground mb-2">Team Performance Breakdowns</h2>
                  <p className="text-sm text-muted-foreground mb-4">Hover over any bar or strike zone area to see top individual performers.</p>
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-4">
-                    <div className="lg:col-span-1">
+                    <div className="lg:col-span-1 flex flex-col gap-6">
                         <StrikeZoneHeatmap data={analyticsData.teamBreakdowns.byZone} />
+                        {analyticsData.battedBalls.length > 0 && <SprayChart battedBalls={analyticsData.battedBalls} />}
                     </div>
                     <div className="lg:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-6 content-start">
                         <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
@@ -129,6 +154,13 @@ const CoachAnalyticsPage: React.FC<{ analyticsData: CoachAnalyticsData }> = ({ a
                     </div>
                 </div>
             </div>
+
+            {analyticsData.battedBalls.length > 0 && (
+                <div>
+                    <h2 className="text-2xl font-bold text-foreground mb-4">Batted Balls</h2>
+                    <BattedBallCharts battedBalls={analyticsData.battedBalls} />
+                </div>
+            )}
         </div>
     );
 };
@@ -136,30 +168,22 @@ const CoachAnalyticsPage: React.FC<{ analyticsData: CoachAnalyticsData }> = ({ a
 
 // --- MAIN VIEW COMPONENTS ---
 
-const TeamGoalProgress: React.FC<{ goal: TeamGoal; sessions: Session[]; drills: Drill[]; onDelete: (goalId: string) => void }> = ({ goal, sessions, drills, onDelete }) => {
-    const currentValue = getCurrentTeamMetricValue(goal, sessions, drills);
+const TeamGoalProgress: React.FC<{ goal: TeamGoal; sessions: Session[]; drills: Drill[]; groups: PlayerGroup[]; onDelete: (goalId: string) => void }> = ({ goal, sessions, drills, groups, onDelete }) => {
+    const currentValue = getCurrentTeamMetricValue(goal, sessions, drills, groups);
+    const forecast = getTeamGoalForecast(goal, sessions, drills, groups);
+    const group = groups.find(g => g.id === goal.groupId);
     
-    let progress = 0;
-    if (goal.targetValue > 0) {
-        if (goal.metric === 'No Strikeouts') {
-            progress = Math.max(0, 100 - (currentValue / goal.targetValue * 100));
-        } else {
-            progress = (currentValue / goal.targetValue) * 100;
-        }
-    } else if (goal.metric === 'No Strikeouts' && goal.targetValue === 0) {
-        progress = currentValue === 0 ? 100 : 0;
-    }
+    const progress = calculateGoalProgress(goal, currentValue);
 
-    const isPercentage = goal.metric.includes('%');
-    const displayValue = isPercentage ? `${Math.round(currentValue)}%` : Math.round(currentValue);
-    const displayTarget = isPercentage ? `${goal.targetValue}%` : goal.targetValue;
+    const displayValue = formatGoalMetricValue(goal.metric, currentValue);
+    const displayTarget = formatGoalMetricValue(goal.metric, goal.targetValue);
 
     return (
         <div className="bg-muted/50 p-3 rounded-lg">
             <div className="flex justify-between items-start">
                 <div>
                     <h4 className="font-semibold text-card-foreground">{goal.description}</h4>
-                    <p className="text-xs text-muted-foreground">{formatTeamGoalName(goal)} | Target: {displayTarget} by {formatDate(goal.targetDate)}</p>
+                    <p className="text-xs text-muted-foreground">{group && `${group.name} | `}{formatTeamGoalName(goal)} | Target: {displayTarget} by {formatDate(goal.targetDate)}</p>
                 </div>
                 <button onClick={() => onDelete(goal.id)} className="text-muted-foreground hover:text-destructive text-lg font-bold">&times;</button>
             </div>
@@ -169,6 +193,7 @@ const TeamGoalProgress: React.FC<{ goal: TeamGoal; sessions: Session[]; drills:
                 </div>
                 <span className="text-sm font-bold text-primary">{displayValue}</span>
             </div>
+            <GoalForecastNote metric={goal.metric} targetDate={goal.targetDate} forecast={forecast} />
         </div>
     );
 };
@@ -176,74 +201,40 @@ const TeamGoalProgress: React.FC<{ goal: TeamGoal; sessions: Session[]; drills:
 const CoachDashboard: React.FC<{ 
     players: Player[], 
     drills: Drill[], 
-    sessions: Session[], 
+    sessions: Session[], // Narrowed by the filter bar
+    seasonSessions: Session[], // The whole season, for goals and inactivity
+    executionTrend: { date: string; 'Execution %': number }[],
+    rangeLabel: string,
     teamGoals: TeamGoal[],
-}> = ({ players, drills, sessions, teamGoals }) => {
+    groups: PlayerGroup[],
+    selectedGroupId: string,
+}> = ({ players, drills, sessions, seasonSessions, executionTrend, rangeLabel, teamGoals, groups, selectedGroupId }) => {
     
     const [isGoalModalOpen, setIsGoalModalOpen] = useState(false);
-    const { createTeamGoal, deleteTeamGoal, activeTeam } = useContext(DataContext)!;
+    const { createTeamGoal, deleteTeamGoal, activeTeam, getUnreadComments } = useContext(DataContext)!;
+    const unreadSessionIds = new Set(getUnreadComments().map(c => c.sessionId));
+    const activeTeamGoals = teamGoals.filter(g => g.status === 'Active');
     
-    const sessionsLast7Days = useMemo(() => {
-        const sevenDaysAgo = new Date(Date.now() - 7 * 86400000);
-        return sessions.filter(s => new Date(s.date) > sevenDaysAgo);
-    }, [sessions]);
-
-    const teamExecutionPctLast7Days = useMemo(() => {
-        const allSets = sessionsLast7Days.flatMap(s => s.sets);
+    const teamExecutionPct = useMemo(() => {
+        const allSets = sessions.flatMap(s => s.sets);
         return calculateExecutionPercentage(allSets);
-    }, [sessionsLast7Days]);
+    }, [sessions]);
 
-    const totalRepsLast7Days = useMemo(() => {
-        return sessionsLast7Days.flatMap(s => s.sets).reduce((sum, set) => sum + set.repsAttempted, 0);
-    }, [sessionsLast7Days]);
+    const totalReps = useMemo(() => {
+        return sessions.flatMap(s => s.sets).reduce((sum, set) => sum + set.repsAttempted, 0);
+    }, [sessions]);
 
-    const activePlayersCountLast7Days = useMemo(() => {
-        const activePlayerIds = new Set(sessionsLast7Days.map(s => s.playerId));
+    const activePlayersCount = useMemo(() => {
+        const activePlayerIds = new Set(sessions.map(s => s.playerId));
         return activePlayerIds.size;
-    }, [sessionsLast7Days]);
+    }, [sessions]);
 
     const recentSessions = useMemo(() => {
-        return sessions
+        return [...sessions]
             .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
             .slice(0, 5);
     }, [sessions]);
 
-    const teamPerformanceTrend = useMemo(() => {
-        const last7Days = new Map<string, { totalExecuted: number, totalAttempted: number }>();
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-
-        for (let i = 0; i < 7; i++) {
-            const date = new Date(today);
-            date.setDate(today.getDate() - i);
-            const dateString = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-            last7Days.set(dateString, { totalExecuted: 0, totalAttempted: 0 });
-        }
-        
-        sessions.forEach(session => {
-            const sessionDate = new Date(session.date);
-            sessionDate.setHours(0, 0, 0, 0);
-
-            if ((today.getTime() - sessionDate.getTime()) / (1000 * 3600 * 24) < 7) {
-                const dateString = sessionDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-                if (last7Days.has(dateString)) {
-                    const dayData = last7Days.get(dateString)!;
-                    session.sets.forEach(set => {
-                        dayData.totalExecuted += set.repsExecuted;
-                        dayData.totalAttempted += set.repsAttempted;
-                    });
-                }
-            }
-        });
-
-        return Array.from(last7Days.entries())
-            .map(([date, data]) => ({
-                date,
-                'Execution %': data.totalAttempted > 0 ? Math.round((data.totalExecuted / data.totalAttempted) * 100) : 0,
-            }))
-            .reverse();
-    }, [sessions]);
-
     const leaderboard = useMemo(() => {
         return players.map(player => {
             const playerSessions = sessions.filter(s => s.playerId === player.id);
@@ -263,9 +254,9 @@ const CoachDashboard: React.FC<{
     
     const inactivePlayers = useMemo(() => {
         const sevenDaysAgo = new Date(Date.now() - 7 * 86400000);
-        const activePlayerIds = new Set(sessions.filter(s => new Date(s.date) > sevenDaysAgo).map(s => s.playerId));
+        const activePlayerIds = new Set(seasonSessions.filter(s => new Date(s.date) > sevenDaysAgo).map(s => s.playerId));
         return players.filter(p => !activePlayerIds.has(p.id));
-    }, [players, sessions]);
+    }, [players, seasonSessions]);
     
     const handleCreateTeamGoal = (goalData: Omit<TeamGoal, 'id' | 'teamId' | 'status' | 'startDate'>) => {
         if (!activeTeam) return;
@@ -287,15 +278,16 @@ const CoachDashboard: React.FC<{
 
     return (
         <div className="space-y-8">
+            <GoalOutcomeBanner />
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <StatCard title="Active Players (7d)" value={activePlayersCountLast7Days.toString()} subValue={players.length.toString()} />
-                <StatCard title="Total Reps (7d)" value={totalRepsLast7Days.toLocaleString()} />
-                <StatCard title="Execution % (7d)" value={`${teamExecutionPctLast7Days}%`} />
+                <StatCard title={`Active Players (${rangeLabel})`} value={activePlayersCount.toString()} subValue={players.length.toString()} />
+                <StatCard title={`Total Reps (${rangeLabel})`} value={totalReps.toLocaleString()} />
+                <StatCard title={`Execution % (${rangeLabel})`} value={`${teamExecutionPct}%`} />
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                 <div className="lg:col-span-2 space-y-8">
-                    <TeamTrendChart data={teamPerformanceTrend} />
+                    <TeamTrendChart data={executionTrend} rangeLabel={rangeLabel} />
                     
                     <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
                         <h3 className="text-lg font-bold text-primary mb-2">Recent Activity</h3>
@@ -305,15 +297,18 @@ const CoachDashboard: React.FC<{
                                 const drill = drills.find(d => d.id === session.drillId);
                                 if (!player) return null;
                                 
-                                const progress = drill ? getSessionGoalProgress(session, drill) : { value: calculateExecutionPercentage(session.sets), isSuccess: calculateExecutionPercentage(session.sets) > 70 };
-                                const goalType = drill ? drill.goalType : 'Execution %';
+                                const progress = drill ? getSessionGoalProgress(session, drill) : { value: calculateExecutionPercentage(session.sets), isSuccess: calculateExecutionPercentage(session.sets) > 70, goalType: 'Execution %' as const };
+                                const goalType = drill ? progress.goalType : 'Execution %';
                                 
                                 return (
                                     <li key={session.id} className="py-3 flex items-center">
                                         <Avatar name={player.name} className="w-10 h-10 mr-4" />
                                         <div className="flex-1">
-                                            <p className="font-semibold text-card-foreground">{player.name} completed <span className="text-primary font-bold">{session.name}</span></p>
-                                            <p className="text-sm text-muted-foreground">{formatDate(session.date)}</p>
+                                            <p className="font-semibold text-card-foreground">{player.name} completed <RouteLink to={{ view: 'sessions', teamId: activeTeam?.id, id: session.id }} className="text-primary font-bold hover:underline">{session.name}</RouteLink></p>
+                                            <p className="text-sm text-muted-foreground">
+                                                {formatDate(session.date)}
+                                                {unreadSessionIds.has(session.id) && <RouteLink to={{ view: 'sessions', teamId: activeTeam?.id, id: session.id }} className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-secondary/20 text-secondary hover:underline">New reply</RouteLink>}
+                                            </p>
                                         </div>
                                         <div className={`px-3 py-1 text-sm font-semibold rounded-full ${progress.isSuccess ? 'bg-success/20 text-success' : 'bg-destructive/20 text-destructive'}`}>
                                             {goalType}: {progress.value}%
@@ -351,11 +346,16 @@ const CoachDashboard: React.FC<{
                             <button onClick={() => setIsGoalModalOpen(true)} className="bg-accent hover:bg-accent/90 text-accent-foreground font-bold py-1 px-3 text-sm rounded-lg">+ Set Goal</button>
                         </div>
                         <div className="space-y-4">
-                             {teamGoals.length > 0 ? teamGoals.map(goal => (
-                                <TeamGoalProgress key={goal.id} goal={goal} sessions={sessions} drills={drills} onDelete={deleteTeamGoal} />
-                             )) : <p className="text-muted-foreground text-center py-4">No team goals set yet.</p>}
+                             {activeTeamGoals.length > 0 ? activeTeamGoals.map(goal => (
+                                <TeamGoalProgress key={goal.id} goal={goal} sessions={seasonSessions} drills={drills} groups={groups} onDelete={deleteTeamGoal} />
+                             )) : <p className="text-muted-foreground text-center py-4">No active team goals.</p>}
                         </div>
                     </div>
+
+                    <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
+                        <h3 className="text-lg font-bold text-primary mb-2">Goal History</h3>
+                        <GoalHistory goals={teamGoals} emptyText="Team goals that are met or missed will show up here." />
+                    </div>
                     
                     <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
                         <h3 className="text-lg font-bold text-accent mb-4">Players to Watch</h3>
@@ -375,7 +375,7 @@ const CoachDashboard: React.FC<{
                 </div>
             </div>
             <Modal isOpen={isGoalModalOpen} onClose={() => setIsGoalModalOpen(false)} title="Set a New Team Goal">
-                <TeamGoalForm onSave={handleCreateTeamGoal} />
+                <TeamGoalForm onSave={handleCreateTeamGoal} groups={groups} defaultGroupId={selectedGroupId} />
             </Modal>
         </div>
     );
@@ -464,42 +464,72 @@ const PlayerList: React.FC<{
     )
 };
 
-const GoalProgress: React.FC<{ goal: PersonalGoal; sessions: Session[]; drills: Drill[] }> = ({ goal, sessions, drills }) => {
+const GoalProgress: React.FC<{ goal: PersonalGoal; sessions: Session[]; drills: Drill[]; onEdit: () => void; onArchive: () => void }> = ({ goal, sessions, drills, onEdit, onArchive }) => {
     const currentValue = getCurrentMetricValue(goal, sessions, drills);
+    const forecast = getPersonalGoalForecast(goal, sessions, drills);
     
-    let progress = 0;
-    if (goal.targetValue > 0) {
-        if (goal.metric === 'No Strikeouts') {
-            progress = Math.max(0, 100 - (currentValue / goal.targetValue * 100));
-        } else {
-            progress = (currentValue / goal.targetValue) * 100;
-        }
-    } else if (goal.metric === 'No Strikeouts' && goal.targetValue === 0) {
-        progress = currentValue === 0 ? 100 : 0;
-    }
-
-    const isPercentage = goal.metric.includes('%');
+    const progress = calculateGoalProgress(goal, currentValue);
 
     return (
         <div className="space-y-2">
             <div className="flex justify-between items-baseline">
                 <h4 className="font-semibold text-sm text-card-foreground">{formatGoalName(goal)}</h4>
-                <p className="text-sm font-bold text-primary">{currentValue}{isPercentage ? '%' : ''} / <span className="text-muted-foreground">{goal.targetValue}{isPercentage ? '%' : ''}</span></p>
+                <p className="text-sm font-bold text-primary">{formatGoalMetricValue(goal.metric, currentValue)} / <span className="text-muted-foreground">{formatGoalMetricValue(goal.metric, goal.targetValue)}</span></p>
             </div>
             <div className="w-full bg-muted rounded-full h-2.5">
                 <div className="bg-secondary h-2.5 rounded-full" style={{ width: `${Math.min(progress, 100)}%` }}></div>
             </div>
-            <p className="text-xs text-right text-muted-foreground">Target Date: {formatDate(goal.targetDate)}</p>
+            <div className="flex justify-between items-center text-xs text-muted-foreground">
+                <span>
+                    {goal.assignedById ? (goal.acknowledgedAt ? `Set by ${goal.assignedByName || 'coach'} · Acknowledged` : `Set by ${goal.assignedByName || 'coach'} · Not yet acknowledged`) : 'Set by player'}
+                </span>
+                <span>Target Date: {formatDate(goal.targetDate)}</span>
+            </div>
+            <div className="flex justify-end gap-3">
+                <button onClick={onEdit} className="text-xs text-primary hover:underline font-semibold">Edit</button>
+                <button onClick={onArchive} className="text-xs text-muted-foreground hover:text-destructive font-semibold">Archive</button>
+            </div>
+            <GoalForecastNote metric={goal.metric} targetDate={goal.targetDate} forecast={forecast} />
         </div>
     );
 };
 
-const PlayerDetail: React.FC<{ player: Player; sessions: Session[]; drills: Drill[]; goals: PersonalGoal[]; onBack: () => void; }> = ({ player, sessions, drills, goals, onBack }) => {
+const PlayerDetail: React.FC<{ player: Player; teamId: string; sessions: Session[]; drills: Drill[]; goals: PersonalGoal[]; onBack: () => void; }> = ({ player, teamId, sessions, drills, goals, onBack }) => {
+    const { currentUser, canEditSession, getSessionAuditForPlayer, getSessionComments, activeTeam, assignGoalToPlayer, updateGoalDetails, archiveGoal } = useContext(DataContext)!;
+    const [editingSession, setEditingSession] = useState<Session | null>(null);
+    const [threadSession, setThreadSession] = useState<Session | null>(null);
+    const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    // Null when closed; an empty object for a new goal.
+    const [goalFormState, setGoalFormState] = useState<{ goal?: PersonalGoal } | null>(null);
+    const auditLog = getSessionAuditForPlayer(player.id);
+    const activeGoals = goals.filter(g => g.status === 'Active');
+    const hasGoalHistory = getSettledGoals(goals).length > 0;
+
+    const handleSaveGoal = async (goalData: GoalDetails) => {
+        if (goalFormState?.goal) {
+            await updateGoalDetails(goalFormState.goal, goalData);
+        } else {
+            await assignGoalToPlayer(player.id, goalData);
+        }
+        setGoalFormState(null);
+    };
+
     return (
         <div>
-            <button onClick={onBack} className="mb-6 text-sm text-primary hover:underline font-semibold">
-                &larr; Back to Player List
-            </button>
+            <SessionEditModal session={editingSession} onClose={() => setEditingSession(null)} />
+            <SessionThreadModal session={threadSession} onClose={() => setThreadSession(null)} />
+            <Modal isOpen={!!goalFormState} onClose={() => setGoalFormState(null)} title={goalFormState?.goal ? 'Edit Goal' : `Set a Goal for ${player.name}`}>
+                {goalFormState && <GoalForm key={goalFormState.goal?.id || 'new'} initialGoal={goalFormState.goal} onSave={handleSaveGoal} />}
+            </Modal>
+            <CsvImportModal isOpen={isImportModalOpen} player={player} teamId={teamId} existingSessions={sessions} onClose={() => setIsImportModalOpen(false)} />
+            {isReportOpen && <PlayerReport player={player} teamName={activeTeam?.name} sessions={sessions} drills={drills} goals={goals} onClose={() => setIsReportOpen(false)} />}
+            <div className="mb-6 flex justify-between items-center">
+                <button onClick={onBack} className="text-sm text-primary hover:underline font-semibold">
+                    &larr; Back to Player List
+                </button>
+                <button onClick={() => setIsReportOpen(true)} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg text-sm">Print Report</button>
+            </div>
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 <div className="lg:col-span-1 space-y-6">
                     <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
@@ -517,33 +547,73 @@ const PlayerDetail: React.FC<{ player: Player; sessions: Session[]; drills: Dril
                         </div>
                     </div>
                     <PlayerRadarChart sessions={sessions} playerName={player.name} />
-                     {goals.length > 0 && (
-                        <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
-                            <h3 className="text-lg font-bold text-primary mb-4">Player Goals</h3>
-                            <div className="space-y-4">
-                                {goals.map(goal => <GoalProgress key={goal.id} goal={goal} sessions={sessions} drills={drills} />)}
+                    <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-lg font-bold text-primary">Player Goals</h3>
+                            <button onClick={() => setGoalFormState({})} className="bg-accent hover:bg-accent/90 text-accent-foreground font-bold py-1 px-3 text-sm rounded-lg">+ Set Goal</button>
+                        </div>
+                        <div className="space-y-4">
+                            {activeGoals.length > 0 ? activeGoals.map(goal => (
+                                <GoalProgress key={goal.id} goal={goal} sessions={sessions} drills={drills} onEdit={() => setGoalFormState({ goal })} onArchive={() => archiveGoal(goal.id)} />
+                            )) : <p className="text-muted-foreground text-center py-4 text-sm">No active goals.</p>}
+                        </div>
+                        {hasGoalHistory && (
+                            <div className="mt-4 pt-4 border-t border-border">
+                                <h4 className="text-sm font-semibold text-muted-foreground">Goal History</h4>
+                                <GoalHistory goals={goals} emptyText="" />
                             </div>
+                        )}
+                    </div>
+                    {auditLog.length > 0 && (
+                        <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
+                            <h3 className="text-lg font-bold text-primary mb-4">Session Changes</h3>
+                            <ul className="space-y-2 max-h-64 overflow-y-auto">
+                                {auditLog.map(entry => (
+                                    <li key={entry.id} className="text-sm">
+                                        <p className="text-foreground"><span className="font-semibold">{entry.changedByName}</span> {entry.action} {entry.before.name} ({formatDate(entry.before.date, { month: 'short', day: 'numeric' })})</p>
+                                        <p className="text-xs text-muted-foreground">{formatDate(entry.changedAt, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}</p>
+                                    </li>
+                                ))}
+                            </ul>
                         </div>
                     )}
                 </div>
 
                 <div className="lg:col-span-2">
-                    <h2 className="text-xl font-bold text-foreground mb-4">Session History</h2>
+                    <div className="flex justify-between items-center mb-4">
+                        <h2 className="text-xl font-bold text-foreground">Session History</h2>
+                        <button onClick={() => setIsImportModalOpen(true)} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg text-sm">Import CSV</button>
+                    </div>
                     <div className="bg-card border border-border rounded-lg shadow-sm overflow-hidden max-h-[600px] overflow-y-auto">
                         <ul className="divide-y divide-border">
                             {sessions.length > 0 ? sessions.slice().reverse().map(session => {
                                 const drill = drills.find(d => d.id === session.drillId);
-                                const progress = drill ? getSessionGoalProgress(session, drill) : { value: calculateExecutionPercentage(session.sets), isSuccess: true };
-                                const goalType = drill ? drill.goalType : "Exec %";
+                                const progress = drill ? getSessionGoalProgress(session, drill) : { value: calculateExecutionPercentage(session.sets), isSuccess: true, goalType: 'Execution %' as const };
+                                const goalType = drill ? progress.goalType : "Exec %";
+                                const comments = getSessionComments(session.id);
+                                const messageCount = comments.length + (session.feedback ? 1 : 0);
+                                const hasUnread = comments.some(c => !c.readBy.includes(currentUser!.id));
 
                                 return (
                                     <li key={session.id} className="p-4 flex justify-between items-center">
                                         <div>
-                                            <p className="font-semibold text-primary">{session.name}</p>
-                                            <p className="text-sm text-muted-foreground">{formatDate(session.date)}</p>
+                                            <RouteLink to={{ view: 'sessions', teamId, id: session.id }} className="font-semibold text-primary hover:underline">{session.name}</RouteLink>
+                                            <p className="text-sm text-muted-foreground">
+                                                {formatDate(session.date)}
+                                                {session.updatedAt && <span className="italic"> &middot; Edited</span>}
+                                            </p>
                                         </div>
-                                        <div className={`px-3 py-1 text-sm font-semibold rounded-full ${progress.isSuccess ? 'bg-success/20 text-success' : 'bg-destructive/20 text-destructive'}`}>
-                                            {goalType}: {progress.value}{drill?.goalType.includes('%') ? '%' : ''}
+                                        <div className="flex items-center gap-3">
+                                            <button onClick={() => setThreadSession(session)} className="relative text-xs text-primary hover:underline font-semibold">
+                                                Feedback{messageCount > 0 && ` (${messageCount})`}
+                                                {hasUnread && <span className="absolute -top-1 -right-2 w-2 h-2 rounded-full bg-destructive" title="Unread reply" />}
+                                            </button>
+                                            {canEditSession(session) && (
+                                                <button onClick={() => setEditingSession(session)} className="text-xs text-primary hover:underline font-semibold">Edit</button>
+                                            )}
+                                            <div className={`px-3 py-1 text-sm font-semibold rounded-full ${progress.isSuccess ? 'bg-success/20 text-success' : 'bg-destructive/20 text-destructive'}`}>
+                                                {goalType}: {progress.value}{drill && goalType.includes('%') ? '%' : ''}
+                                            </div>
                                         </div>
                                     </li>
                                 );
@@ -558,14 +628,16 @@ const PlayerDetail: React.FC<{ player: Player; sessions: Session[]; drills: Dril
     );
 };
 
-const TeamGoalForm: React.FC<{ onSave: (data: Omit<TeamGoal, 'id' | 'teamId' | 'status' | 'startDate'>) => void; }> = ({ onSave }) => {
+const TeamGoalForm: React.FC<{ onSave: (data: Omit<TeamGoal, 'id' | 'teamId' | 'status' | 'startDate'>) => void; groups: PlayerGroup[]; defaultGroupId?: string; }> = ({ onSave, groups, defaultGroupId }) => {
     const [description, setDescription] = useState('');
-    const [metric, setMetric] = useState<GoalType>('Execution %');
+    const [metric, setMetric] = useState<GoalMetric>('Execution %');
     const [targetValue, setTargetValue] = useState(75);
     const [targetDate, setTargetDate] = useState(new Date(Date.now() + 30 * 86400000).toISOString().split('T')[0]); // 30 days from now
     const [drillType, setDrillType] = useState<DrillType | undefined>(undefined);
     const [targetZones, setTargetZones] = useState<TargetZone[]>([]);
     const [pitchTypes, setPitchTypes] = useState<PitchType[]>([]);
+    const [groupId, setGroupId] = useState(defaultGroupId || '');
+    const [minReps, setMinReps] = useState<number | undefined>(undefined);
 
     const handleMultiSelect = (setter: React.Dispatch<React.SetStateAction<any[]>>, value: any) => {
         setter(prev => prev.includes(value) ? prev.filter(v => v !== value) : [...prev, value]);
@@ -579,6 +651,8 @@ const TeamGoalForm: React.FC<{ onSave: (data: Omit<TeamGoal, 'id' | 'teamId' | '
         if (drillType) goalData.drillType = drillType;
         if (targetZones.length > 0) goalData.targetZones = targetZones;
         if (pitchTypes.length > 0) goalData.pitchTypes = pitchTypes;
+        if (groupId) goalData.groupId = groupId;
+        if (minReps) goalData.minReps = minReps;
         onSave(goalData);
     };
 
@@ -591,13 +665,14 @@ const TeamGoalForm: React.FC<{ onSave: (data: Omit<TeamGoal, 'id' | 'teamId' | '
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                  <div>
                     <label className="block text-sm font-medium text-muted-foreground">Metric</label>
-                    <select value={metric} onChange={e => setMetric(e.target.value as GoalType)} className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm">
-                        {GOAL_TYPES.map(g => <option key={g} value={g}>{g}</option>)}
+                    <select value={metric} onChange={e => setMetric(e.target.value as GoalMetric)} className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm">
+                        {GOAL_METRICS.map(g => <option key={g} value={g}>{g}</option>)}
                     </select>
+                    <p className="text-xs text-muted-foreground mt-1">{GOAL_METRIC_DESCRIPTIONS[metric]}</p>
                 </div>
                 <div>
                     <label className="block text-sm font-medium text-muted-foreground">Target Value</label>
-                    <input type="number" value={targetValue} onChange={e => setTargetValue(parseInt(e.target.value))} required className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+                    <input type="number" min={0} step="any" value={targetValue} onChange={e => setTargetValue(parseFloat(e.target.value))} required className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
                 </div>
             </div>
              <div>
@@ -615,6 +690,19 @@ const TeamGoalForm: React.FC<{ onSave: (data: Omit<TeamGoal, 'id' | 'teamId' | '
                             {DRILL_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
                         </select>
                     </div>
+                    <div>
+                        <label className="block text-sm font-medium text-muted-foreground">Minimum Reps per Session</label>
+                        <input type="number" min={1} value={minReps ?? ''} onChange={e => setMinReps(e.target.value ? parseInt(e.target.value) : undefined)} placeholder="Any session counts" className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+                    </div>
+                    {groups.length > 0 && (
+                        <div>
+                            <label className="block text-sm font-medium text-muted-foreground">Player Group</label>
+                            <select value={groupId} onChange={e => setGroupId(e.target.value)} className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm">
+                                <option value="">Whole Team</option>
+                                {groups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                            </select>
+                        </div>
+                    )}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                         <div>
                             <label className="block text-sm font-medium text-muted-foreground mb-2">Target Zones</label>
@@ -645,8 +733,9 @@ const TeamGoalForm: React.FC<{ onSave: (data: Omit<TeamGoal, 'id' | 'teamId' | '
 const DrillForm: React.FC<{
     onSave: (drill: Omit<Drill, 'id' | 'teamId'>) => void;
     onClose: () => void;
-}> = ({ onSave, onClose }) => {
-    const [drill, setDrill] = useState<Omit<Drill, 'id' | 'teamId'>>({
+    initialDrill?: Drill;
+}> = ({ onSave, onClose, initialDrill }) => {
+    const [drill, setDrill] = useState<Omit<Drill, 'id' | 'teamId'>>(initialDrill || {
         name: '', description: '', targetZones: [], pitchTypes: [], drillType: 'Tee Work',
         countSituation: 'Even', baseRunners: [], outs: 0,
         goalType: 'Execution %', goalTargetValue: 80, repsPerSet: 10, sets: 3
@@ -759,6 +848,12 @@ const DrillForm: React.FC<{
                 </div>
             </div>
 
+            {initialDrill && (
+                <p className="text-xs text-muted-foreground">
+                    Changing the goal or volume saves this as version {(initialDrill.version || 1) + 1}. Sessions already logged keep being scored against the version they were logged with.
+                </p>
+            )}
+
             <div className="flex justify-end space-x-3 pt-4 border-t border-border">
                 <button type="button" onClick={onClose} className="py-2 px-4 bg-muted hover:bg-muted/80 rounded-md">Cancel</button>
                 <button type="submit" className="py-2 px-4 bg-primary text-primary-foreground hover:bg-primary/90 rounded-md">Save Drill</button>
@@ -767,27 +862,43 @@ const DrillForm: React.FC<{
     );
 };
 
+type AssignmentSchedule = Pick<DrillAssignment, 'playerIds' | 'targets' | 'isRecurring' | 'recurringDays' | 'dueDate' | 'startDate' | 'endDate'>;
+
 const AssignDrillModal: React.FC<{
     isOpen: boolean;
     onClose: () => void;
-    drill: Drill;
+    itemName: string;
+    isPlan?: boolean;
     players: Player[];
-    onAssign: (assignment: { playerIds: string[], isRecurring: boolean, recurringDays: DayOfWeek[] }) => void;
-}> = ({ isOpen, onClose, drill, players, onAssign }) => {
-    const [selectedPlayerIds, setSelectedPlayerIds] = useState<string[]>([]);
-    const [recurringDays, setRecurringDays] = useState<DayOfWeek[]>([]);
+    groups: PlayerGroup[];
+    onAssign: (schedule: AssignmentSchedule) => void;
+    initialAssignment?: DrillAssignment;
+}> = ({ isOpen, onClose, itemName, isPlan, players, groups, onAssign, initialAssignment }) => {
+    const [selectedPlayerIds, setSelectedPlayerIds] = useState<string[]>(initialAssignment?.playerIds.filter(id => id !== ALL_PLAYERS) || []);
+    // Older assignments mark the whole team with the 'all' sentinel; treat it as a team target.
+    const [targets, setTargets] = useState<AssignmentTarget[]>(
+        initialAssignment?.playerIds.includes(ALL_PLAYERS) ? [{ type: 'team' }, ...(initialAssignment.targets || [])] : initialAssignment?.targets || []
+    );
+    const [isRecurring, setIsRecurring] = useState(initialAssignment?.isRecurring ?? true);
+    const [recurringDays, setRecurringDays] = useState<DayOfWeek[]>(initialAssignment?.recurringDays || []);
+    const [startDate, setStartDate] = useState(initialAssignment?.startDate || '');
+    const [endDate, setEndDate] = useState(initialAssignment?.endDate || '');
+    const [dueDate, setDueDate] = useState(initialAssignment?.dueDate || '');
     const days: DayOfWeek[] = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
     const handlePlayerSelect = (playerId: string) => {
         setSelectedPlayerIds(prev => prev.includes(playerId) ? prev.filter(id => id !== playerId) : [...prev, playerId]);
     };
     
-    const handleSelectAll = () => {
-        if (selectedPlayerIds.length === players.length) {
-            setSelectedPlayerIds([]);
-        } else {
-            setSelectedPlayerIds(players.map(p => p.id));
-        }
+    const isWholeTeam = targets.some(t => t.type === 'team');
+    const gradYears = Array.from(new Set<number>(players.map(p => p.profile?.gradYear).filter((y): y is number => !!y))).sort();
+    const positions = Array.from(new Set<string>(players.map(p => p.profile?.position).filter((pos): pos is string => !!pos))).sort();
+    const matchedPlayers = getAssignedPlayers({ playerIds: selectedPlayerIds, targets }, players, groups);
+
+    const hasTarget = (target: AssignmentTarget) => targets.some(t => JSON.stringify(t) === JSON.stringify(target));
+
+    const toggleTarget = (target: AssignmentTarget) => {
+        setTargets(prev => hasTarget(target) ? prev.filter(t => JSON.stringify(t) !== JSON.stringify(target)) : [...prev, target]);
     };
 
     const toggleDay = (day: DayOfWeek) => {
@@ -795,51 +906,130 @@ const AssignDrillModal: React.FC<{
     };
 
     const handleSubmit = () => {
-        if (selectedPlayerIds.length === 0 || recurringDays.length === 0) {
-            alert("Please select at least one player and one day.");
+        if (selectedPlayerIds.length === 0 && targets.length === 0) {
+            alert("Please choose who this is assigned to.");
+            return;
+        }
+        if (isRecurring && recurringDays.length === 0) {
+            alert("Please select at least one day.");
+            return;
+        }
+        if (!isRecurring && !dueDate) {
+            alert("Please choose a due date.");
+            return;
+        }
+        const lastDate = isRecurring ? endDate : dueDate;
+        if (startDate && lastDate && lastDate < startDate) {
+            alert(`The ${isRecurring ? 'end' : 'due'} date can't be before the start date.`);
             return;
         }
         onAssign({
-            playerIds: selectedPlayerIds,
-            isRecurring: true,
-            recurringDays: recurringDays,
+            // The whole team already covers everyone, so individual picks would only go stale.
+            playerIds: isWholeTeam ? [] : selectedPlayerIds,
+            targets: isWholeTeam ? [{ type: 'team' }] : targets,
+            isRecurring,
+            recurringDays: isRecurring ? recurringDays : undefined,
+            startDate: startDate || undefined,
+            endDate: isRecurring && endDate ? endDate : undefined,
+            dueDate: isRecurring ? undefined : dueDate,
         });
         onClose();
     };
 
     return (
-        <Modal isOpen={isOpen} onClose={onClose} title={`Assign Drill: ${drill.name}`}>
+        <Modal isOpen={isOpen} onClose={onClose} title={`${initialAssignment ? 'Edit Assignment' : isPlan ? 'Assign Plan' : 'Assign Drill'}: ${itemName}`}>
             <div className="space-y-6">
                 <div>
-                    <h3 className="font-bold text-foreground mb-2">Assign to Players</h3>
-                    <div className="flex items-center mb-2">
-                        <input type="checkbox" id="select-all" checked={selectedPlayerIds.length === players.length} onChange={handleSelectAll} className="h-4 w-4 rounded border-border text-primary focus:ring-primary" />
-                        <label htmlFor="select-all" className="ml-2 block text-sm text-muted-foreground">Select All Players</label>
+                    <h3 className="font-bold text-foreground mb-2">Assign To</h3>
+                    <div className="flex items-center mb-3">
+                        <input type="checkbox" id="whole-team" checked={isWholeTeam} onChange={() => toggleTarget({ type: 'team' })} className="h-4 w-4 rounded border-border text-primary focus:ring-primary" />
+                        <label htmlFor="whole-team" className="ml-2 block text-sm text-muted-foreground">Whole team (includes players who join later)</label>
                     </div>
-                    <div className="max-h-40 overflow-y-auto space-y-2 rounded-md border border-border p-2">
-                        {players.map(p => (
-                            <div key={p.id} className="flex items-center">
-                                <input type="checkbox" id={`p-${p.id}`} checked={selectedPlayerIds.includes(p.id)} onChange={() => handlePlayerSelect(p.id)} className="h-4 w-4 rounded border-border text-primary focus:ring-primary"/>
-                                <label htmlFor={`p-${p.id}`} className="ml-2 block text-sm text-muted-foreground">{p.name}</label>
+                    {!isWholeTeam && (
+                        <div className="space-y-3">
+                            {groups.length > 0 && (
+                                <div>
+                                    <p className="text-xs font-medium text-muted-foreground mb-1">Groups</p>
+                                    <div className="flex flex-wrap gap-2">
+                                        {groups.map(group => (
+                                            <button type="button" key={group.id} onClick={() => toggleTarget({ type: 'group', groupId: group.id })} className={`px-3 py-1 text-xs rounded-full ${hasTarget({ type: 'group', groupId: group.id }) ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80'}`}>{group.name}</button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            {gradYears.length > 0 && (
+                                <div>
+                                    <p className="text-xs font-medium text-muted-foreground mb-1">Grad Year</p>
+                                    <div className="flex flex-wrap gap-2">
+                                        {gradYears.map(gradYear => (
+                                            <button type="button" key={gradYear} onClick={() => toggleTarget({ type: 'gradYear', gradYear })} className={`px-3 py-1 text-xs rounded-full ${hasTarget({ type: 'gradYear', gradYear }) ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80'}`}>{gradYear}</button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            {positions.length > 0 && (
+                                <div>
+                                    <p className="text-xs font-medium text-muted-foreground mb-1">Position</p>
+                                    <div className="flex flex-wrap gap-2">
+                                        {positions.map(position => (
+                                            <button type="button" key={position} onClick={() => toggleTarget({ type: 'position', position })} className={`px-3 py-1 text-xs rounded-full ${hasTarget({ type: 'position', position }) ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80'}`}>{position}</button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            <div>
+                                <p className="text-xs font-medium text-muted-foreground mb-1">Individual Players</p>
+                                <div className="max-h-40 overflow-y-auto space-y-2 rounded-md border border-border p-2">
+                                    {players.map(p => (
+                                        <div key={p.id} className="flex items-center">
+                                            <input type="checkbox" id={`p-${p.id}`} checked={selectedPlayerIds.includes(p.id)} onChange={() => handlePlayerSelect(p.id)} className="h-4 w-4 rounded border-border text-primary focus:ring-primary"/>
+                                            <label htmlFor={`p-${p.id}`} className="ml-2 block text-sm text-muted-foreground">{p.name}</label>
+                                        </div>
+                                    ))}
+                                </div>
                             </div>
-                        ))}
-                    </div>
+                        </div>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-2">{matchedPlayers.length} of {players.length} players currently assigned.</p>
                 </div>
 
                 <div>
-                    <h3 className="font-bold text-foreground mb-2">Set Recurring Schedule</h3>
-                    <div className="flex justify-center gap-1 sm:gap-2">
-                        {days.map(day => (
-                            <button key={day} onClick={() => toggleDay(day)} className={`w-10 h-10 rounded-full font-semibold text-sm transition-colors ${recurringDays.includes(day) ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80'}`}>
-                                {day.charAt(0)}
-                            </button>
-                        ))}
+                    <h3 className="font-bold text-foreground mb-2">Schedule</h3>
+                    <div className="flex gap-2 mb-4">
+                        <button type="button" onClick={() => setIsRecurring(true)} className={`flex-1 py-2 rounded-md text-sm font-semibold ${isRecurring ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80'}`}>Recurring</button>
+                        <button type="button" onClick={() => setIsRecurring(false)} className={`flex-1 py-2 rounded-md text-sm font-semibold ${!isRecurring ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80'}`}>One-Time</button>
+                    </div>
+                    {isRecurring && (
+                        <div className="flex justify-center gap-1 sm:gap-2 mb-4">
+                            {days.map(day => (
+                                <button key={day} onClick={() => toggleDay(day)} className={`w-10 h-10 rounded-full font-semibold text-sm transition-colors ${recurringDays.includes(day) ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80'}`}>
+                                    {day.charAt(0)}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-muted-foreground">Start Date (Optional)</label>
+                            <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="mt-1 w-full bg-background border-input rounded-md py-2 px-3 text-sm" />
+                        </div>
+                        {isRecurring ? (
+                            <div>
+                                <label className="block text-sm font-medium text-muted-foreground">End Date (Optional)</label>
+                                <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="mt-1 w-full bg-background border-input rounded-md py-2 px-3 text-sm" />
+                            </div>
+                        ) : (
+                            <div>
+                                <label className="block text-sm font-medium text-muted-foreground">Due Date</label>
+                                <input type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} className="mt-1 w-full bg-background border-input rounded-md py-2 px-3 text-sm" />
+                            </div>
+                        )}
                     </div>
                 </div>
 
                 <div className="flex justify-end space-x-3 pt-4">
                     <button type="button" onClick={onClose} className="py-2 px-4 bg-muted hover:bg-muted/80 rounded-md">Cancel</button>
-                    <button type="button" onClick={handleSubmit} className="py-2 px-4 bg-primary text-primary-foreground hover:bg-primary/90 rounded-md">Assign Drill</button>
+                    <button type="button" onClick={handleSubmit} className="py-2 px-4 bg-primary text-primary-foreground hover:bg-primary/90 rounded-md">{initialAssignment ? 'Save Assignment' : isPlan ? 'Assign Plan' : 'Assign Drill'}</button>
                 </div>
             </div>
         </Modal>
@@ -849,46 +1039,113 @@ const AssignDrillModal: React.FC<{
 const DrillList: React.FC<{ 
     drills: Drill[], 
     players: Player[],
+    groups: PlayerGroup[],
+    focusedDrillId?: string,
     createDrill: (drill: Omit<Drill, 'id' | 'teamId'>) => void,
-    assignDrill: (assignment: { drillId: string, playerIds: string[], isRecurring: boolean, recurringDays: DayOfWeek[] }) => void
-}> = ({ drills, players, createDrill, assignDrill }) => {
+    assignDrill: (assignment: AssignmentSchedule & { drillId: string }) => void
+}> = ({ drills, players, groups, focusedDrillId, createDrill, assignDrill }) => {
+    const { updateDrill, duplicateDrill, setDrillArchived, getDrillDeleteBlocker, deleteDrill, activeTeam } = useContext(DataContext)!;
     const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
     const [drillToAssign, setDrillToAssign] = useState<Drill | null>(null);
+    const [drillToEdit, setDrillToEdit] = useState<Drill | null>(null);
+    const [showArchived, setShowArchived] = useState(false);
+    const [error, setError] = useState('');
+    const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+    const focusedDrillRef = useRef<HTMLDivElement>(null);
+    const focusedDrill = drills.find(d => d.id === focusedDrillId);
+
+    // A link to an archived drill opens the archive so the drill is on screen.
+    useEffect(() => {
+        if (focusedDrill) setShowArchived(!!focusedDrill.archived);
+    }, [focusedDrill?.id]);
+
+    useEffect(() => {
+        focusedDrillRef.current?.scrollIntoView({ block: 'center' });
+    }, [focusedDrill?.id, showArchived]);
+
+    const visibleDrills = drills.filter(d => !!d.archived === showArchived);
+    const archivedCount = drills.filter(d => d.archived).length;
 
-    const handleAssign = (assignment: { playerIds: string[], isRecurring: boolean, recurringDays: DayOfWeek[] }) => {
+    const handleAssign = (schedule: AssignmentSchedule) => {
         if (!drillToAssign) return;
-        assignDrill({ drillId: drillToAssign.id, ...assignment });
+        assignDrill({ drillId: drillToAssign.id, ...schedule });
+    };
+
+    const handleEdit = (drillData: Omit<Drill, 'id' | 'teamId'>) => {
+        if (!drillToEdit) return;
+        updateDrill({ ...drillToEdit, ...drillData });
+    };
+
+    // The first click checks the drill can go and asks for confirmation; the second deletes it.
+    const handleDelete = async (drill: Drill) => {
+        const blocker = getDrillDeleteBlocker(drill.id);
+        setError(blocker || '');
+        if (blocker) {
+            setConfirmingDeleteId(null);
+            return;
+        }
+        if (confirmingDeleteId !== drill.id) {
+            setConfirmingDeleteId(drill.id);
+            return;
+        }
+        setConfirmingDeleteId(null);
+        await deleteDrill(drill.id);
     };
 
     return (
         <div>
+            <div className="flex justify-between items-center mb-4">
+                {error ? <p className="text-sm text-destructive">{error}</p> : <span />}
+                {(archivedCount > 0 || showArchived) && (
+                    <button onClick={() => setShowArchived(prev => !prev)} className="text-sm text-primary hover:underline font-semibold">
+                        {showArchived ? 'Show Active Drills' : `Show Archived (${archivedCount})`}
+                    </button>
+                )}
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {drills.map(drill => (
-                    <div key={drill.id} className="bg-card border border-border p-4 rounded-lg shadow-sm flex flex-col">
+                {visibleDrills.map(drill => (
+                    <div key={drill.id} ref={drill.id === focusedDrillId ? focusedDrillRef : undefined} className={`bg-card border p-4 rounded-lg shadow-sm flex flex-col ${drill.id === focusedDrillId ? 'border-primary ring-2 ring-primary' : 'border-border'} ${drill.archived ? 'opacity-75' : ''}`}>
                         <div className="flex-grow space-y-2">
-                            <h3 className="text-lg font-bold text-primary">{drill.name}</h3>
+                            <div className="flex justify-between items-start">
+                                <h3 className="text-lg font-bold text-primary">
+                                    <RouteLink to={{ view: 'drills', teamId: activeTeam?.id, id: drill.id }} className="hover:underline" title="Link to this drill. Players who open it go straight to logging it.">{drill.name}</RouteLink>
+                                </h3>
+                                {(drill.version || 1) > 1 && <span className="text-xs font-semibold text-muted-foreground bg-muted px-2 py-0.5 rounded-full">v{drill.version}</span>}
+                            </div>
                             <p className="text-sm text-muted-foreground flex-grow">{drill.description}</p>
                         </div>
                         <div className="text-xs text-card-foreground pt-2 mt-2 border-t border-border">
-                            <p><strong>Goal:</strong> {drill.goalType} >= {drill.goalTargetValue}{drill.goalType.includes('%') ? '%' : ''}</p>
+                            <p><strong>Goal:</strong> {drill.goalType} &gt;= {drill.goalTargetValue}{drill.goalType.includes('%') ? '%' : ''}</p>
                             <p><strong>Volume:</strong> {drill.sets} sets of {drill.repsPerSet} reps</p>
                         </div>
-                        <button onClick={() => setDrillToAssign(drill)} className="w-full mt-4 bg-secondary/20 hover:bg-secondary/30 text-secondary font-bold py-2 px-4 rounded-lg text-sm">
-                            Assign Drill
-                        </button>
+                        {!drill.archived && (
+                            <button onClick={() => setDrillToAssign(drill)} className="w-full mt-4 bg-secondary/20 hover:bg-secondary/30 text-secondary font-bold py-2 px-4 rounded-lg text-sm">
+                                Assign Drill
+                            </button>
+                        )}
+                        <div className="flex justify-between mt-3 text-xs font-semibold">
+                            {!drill.archived && <button onClick={() => setDrillToEdit(drill)} className="text-primary hover:underline">Edit</button>}
+                            <button onClick={() => duplicateDrill(drill.id)} className="text-primary hover:underline">Duplicate</button>
+                            <button onClick={() => setDrillArchived(drill.id, !drill.archived)} className="text-muted-foreground hover:text-foreground">{drill.archived ? 'Restore' : 'Archive'}</button>
+                            <button onClick={() => handleDelete(drill)} className={confirmingDeleteId === drill.id ? 'text-destructive' : 'text-muted-foreground hover:text-destructive'}>{confirmingDeleteId === drill.id ? 'Confirm Delete' : 'Delete'}</button>
+                        </div>
                     </div>
                 ))}
-                 {drills.length === 0 && <p className="text-muted-foreground md:col-span-3 text-center py-4">No drills created yet.</p>}
+                 {visibleDrills.length === 0 && <p className="text-muted-foreground md:col-span-3 text-center py-4">{showArchived ? 'No archived drills.' : 'No drills created yet.'}</p>}
             </div>
             <Modal isOpen={isCreateModalOpen} onClose={() => setIsCreateModalOpen(false)} title="Create New Drill">
                 <DrillForm onSave={createDrill} onClose={() => setIsCreateModalOpen(false)} />
             </Modal>
+            <Modal isOpen={!!drillToEdit} onClose={() => setDrillToEdit(null)} title="Edit Drill">
+                {drillToEdit && <DrillForm key={drillToEdit.id} initialDrill={drillToEdit} onSave={handleEdit} onClose={() => setDrillToEdit(null)} />}
+            </Modal>
             {drillToAssign && (
                  <AssignDrillModal 
                     isOpen={!!drillToAssign}
                     onClose={() => setDrillToAssign(null)}
-                    drill={drillToAssign}
+                    itemName={drillToAssign.name}
                     players={players}
+                    groups={groups}
                     onAssign={handleAssign}
                  />
             )}
@@ -896,6 +1153,144 @@ const DrillList: React.FC<{
     );
 }
 
+const AssignmentList: React.FC<{ assignments: DrillAssignment[]; drills: Drill[]; plans: PracticePlan[]; players: Player[]; groups: PlayerGroup[]; sessions: Session[]; }> = ({ assignments, drills, plans, players, groups, sessions }) => {
+    const { updateAssignment, cancelAssignment } = useContext(DataContext)!;
+    const [showInactive, setShowInactive] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [assignmentToEdit, setAssignmentToEdit] = useState<DrillAssignment | null>(null);
+    const [confirmCancelId, setConfirmCancelId] = useState<string | null>(null);
+
+    const todayKey = toDateKey(new Date());
+
+    const rows = useMemo(() => assignments
+        .map(assignment => {
+            const completion = getAssignmentCompletion(assignment, players, sessions, groups);
+            const allDone = completion.every(c => c.completed >= c.expected);
+            // Ended: cancelled, archived with its season, past its end date, or a one-time assignment everyone has finished.
+            const isActive = isAssignmentInEffect(assignment, todayKey) && (assignment.isRecurring || !allDone);
+            const name = assignment.planId
+                ? plans.find(p => p.id === assignment.planId)?.name
+                : drills.find(d => d.id === assignment.drillId)?.name;
+            return { assignment, completion, isActive, name };
+        })
+        .sort((a, b) => new Date(b.assignment.assignedDate).getTime() - new Date(a.assignment.assignedDate).getTime()),
+    [assignments, players, groups, sessions, drills, plans, todayKey]);
+
+    const visibleRows = rows.filter(r => r.isActive !== showInactive);
+    const inactiveCount = rows.filter(r => !r.isActive).length;
+
+    const handleCancel = (assignmentId: string) => {
+        if (confirmCancelId !== assignmentId) {
+            setConfirmCancelId(assignmentId);
+            return;
+        }
+        cancelAssignment(assignmentId);
+        setConfirmCancelId(null);
+    };
+
+    const handleEdit = (schedule: AssignmentSchedule) => {
+        if (!assignmentToEdit) return;
+        updateAssignment({ ...assignmentToEdit, ...schedule });
+    };
+
+    const editName = assignmentToEdit ? rows.find(r => r.assignment.id === assignmentToEdit.id)?.name : undefined;
+
+    return (
+        <div>
+            <div className="flex justify-end mb-4">
+                {(inactiveCount > 0 || showInactive) && (
+                    <button onClick={() => setShowInactive(prev => !prev)} className="text-sm text-primary hover:underline font-semibold">
+                        {showInactive ? 'Show Active Assignments' : `Show Ended & Cancelled (${inactiveCount})`}
+                    </button>
+                )}
+            </div>
+            <div className="space-y-4">
+                {visibleRows.map(({ assignment, completion, name }) => {
+                    const completed = completion.reduce((sum, c) => sum + c.completed, 0);
+                    const expected = completion.reduce((sum, c) => sum + c.expected, 0);
+                    const overdueCount = completion.filter(c => c.isOverdue).length;
+                    const isExpanded = expandedId === assignment.id;
+
+                    return (
+                        <div key={assignment.id} className="bg-card border border-border rounded-lg shadow-sm">
+                            <div className="p-4 flex flex-wrap items-center gap-4">
+                                <div className="flex-1 min-w-[200px]">
+                                    <h3 className="font-bold text-primary">
+                                        {name || (assignment.planId ? 'Deleted Plan' : 'Deleted Drill')}
+                                        {assignment.planId && <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-secondary/20 text-secondary align-middle">Plan</span>}
+                                    </h3>
+                                    <p className="text-sm text-muted-foreground">
+                                        {formatAssignmentSchedule(assignment)} &middot; from {formatDate(getAssignmentStartDate(assignment) + 'T00:00:00', { month: 'short', day: 'numeric' })} &middot; {formatAssignmentTargets(assignment, groups)} ({completion.length} player{completion.length === 1 ? '' : 's'})
+                                    </p>
+                                </div>
+                                <div className="text-center">
+                                    <p className="text-xs text-muted-foreground">Completed</p>
+                                    <p className="font-bold text-foreground">{completed}/{expected}</p>
+                                </div>
+                                {assignment.cancelledAt && <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-muted text-muted-foreground">Cancelled</span>}
+                                {assignment.archivedAt && !assignment.cancelledAt && <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-muted text-muted-foreground">Archived</span>}
+                                {overdueCount > 0 && (
+                                    <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-destructive/20 text-destructive">{overdueCount} Overdue</span>
+                                )}
+                                <div className="flex gap-3 text-xs font-semibold">
+                                    <button onClick={() => setExpandedId(isExpanded ? null : assignment.id)} className="text-primary hover:underline">{isExpanded ? 'Hide' : 'Details'}</button>
+                                    {!assignment.cancelledAt && !assignment.archivedAt && name && <button onClick={() => setAssignmentToEdit(assignment)} className="text-primary hover:underline">Edit</button>}
+                                    {!assignment.cancelledAt && !assignment.archivedAt && (
+                                        <button onClick={() => handleCancel(assignment.id)} className="text-muted-foreground hover:text-destructive">
+                                            {confirmCancelId === assignment.id ? 'Confirm Cancel' : 'Cancel'}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                            {isExpanded && (
+                                <ul className="divide-y divide-border border-t border-border">
+                                    {completion.map(c => {
+                                        const player = players.find(p => p.id === c.playerId);
+                                        const isDone = c.expected > 0 && c.completed >= c.expected;
+                                        return (
+                                            <li key={c.playerId} className="px-4 py-2 flex items-center justify-between text-sm">
+                                                <span className="text-foreground">{player?.name || 'Former player'}</span>
+                                                <div className="flex items-center gap-3">
+                                                    <span className="text-muted-foreground">{c.completed}/{c.expected}</span>
+                                                    {c.isOverdue ? (
+                                                        <Tooltip content={`Missed: ${c.missedDates.map(d => formatDate(d + 'T00:00:00', { month: 'short', day: 'numeric' })).join(', ')}`}>
+                                                            <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-destructive/20 text-destructive">Overdue</span>
+                                                        </Tooltip>
+                                                    ) : (
+                                                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${isDone ? 'bg-success/20 text-success' : 'bg-muted text-muted-foreground'}`}>{isDone ? 'Done' : 'On Track'}</span>
+                                                    )}
+                                                </div>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            )}
+                        </div>
+                    );
+                })}
+                {visibleRows.length === 0 && (
+                    <p className="text-muted-foreground text-center py-4">
+                        {showInactive ? 'No ended or cancelled assignments.' : 'No active assignments. Assign drills from the Drill Library or plans from Practice Plans.'}
+                    </p>
+                )}
+            </div>
+            {assignmentToEdit && editName && (
+                <AssignDrillModal
+                    key={assignmentToEdit.id}
+                    isOpen={!!assignmentToEdit}
+                    onClose={() => setAssignmentToEdit(null)}
+                    itemName={editName}
+                    isPlan={!!assignmentToEdit.planId}
+                    players={players}
+                    groups={groups}
+                    onAssign={handleEdit}
+                    initialAssignment={assignmentToEdit}
+                />
+            )}
+        </div>
+    );
+};
+
 const CreateTeamForm: React.FC<{ onSave: (teamName: string, seasonYear: number) => void }> = ({ onSave }) => {
     const [teamName, setTeamName] = useState('');
     const [seasonYear, setSeasonYear] = useState(new Date().getFullYear());
@@ -922,6 +1317,321 @@ const CreateTeamForm: React.FC<{ onSave: (teamName: string, seasonYear: number)
     )
 }
 
+const PracticePlanForm: React.FC<{ drills: Drill[]; initialPlan?: PracticePlan; onSave: (planData: Omit<PracticePlan, 'id' | 'teamId'>) => void; onClose: () => void; }> = ({ drills, initialPlan, onSave, onClose }) => {
+    const [name, setName] = useState(initialPlan?.name || '');
+    const [description, setDescription] = useState(initialPlan?.description || '');
+    const [items, setItems] = useState<PracticePlanItem[]>(initialPlan?.items || []);
+    const [drillToAdd, setDrillToAdd] = useState('');
+    const [error, setError] = useState('');
+
+    const activeDrills = drills.filter(d => !d.archived);
+    const totalReps = getPlanTotalReps({ id: '', teamId: '', name, items }, drills);
+
+    const updateItem = (index: number, changes: Partial<PracticePlanItem>) => {
+        setItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+    };
+
+    // Blank inputs fall back to the drill's own value.
+    const parseOverride = (value: string): number | undefined => value === '' ? undefined : Math.max(0, parseInt(value) || 0);
+
+    const moveItem = (index: number, offset: number) => {
+        setItems(prev => {
+            const target = index + offset;
+            if (target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const handleAddDrill = () => {
+        if (!drillToAdd) return;
+        setItems(prev => [...prev, { drillId: drillToAdd }]);
+        setDrillToAdd('');
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (items.length === 0) {
+            setError('Add at least one drill to the plan.');
+            return;
+        }
+        if (items.some(item => item.sets === 0 || item.repsPerSet === 0)) {
+            setError('Sets and reps must be at least 1.');
+            return;
+        }
+        onSave({ name: name.trim(), description: description.trim() || undefined, items, ...(initialPlan?.archived && { archived: true }) });
+        onClose();
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+                <label className="block text-sm font-medium text-muted-foreground">Plan Name</label>
+                <input type="text" value={name} onChange={e => setName(e.target.value)} required placeholder="e.g., Tuesday Hitting Circuit" className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-muted-foreground">Description (Optional)</label>
+                <textarea value={description} onChange={e => setDescription(e.target.value)} rows={2} className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+            </div>
+
+            <div>
+                <h4 className="text-md font-semibold text-muted-foreground border-b border-border pb-2 mb-3">Drills ({items.length}) &middot; {totalReps} total reps</h4>
+                <div className="space-y-3">
+                    {items.map((item, index) => {
+                        const drill = drills.find(d => d.id === item.drillId);
+                        return (
+                            <div key={`${item.drillId}-${index}`} className="bg-muted/50 p-3 rounded-lg space-y-2">
+                                <div className="flex justify-between items-center">
+                                    <span className="font-semibold text-sm text-foreground">{index + 1}. {drill?.name || 'Deleted Drill'}</span>
+                                    <div className="flex gap-2 text-sm">
+                                        <button type="button" onClick={() => moveItem(index, -1)} disabled={index === 0} className="px-2 text-muted-foreground hover:text-foreground disabled:opacity-30" title="Move up">&uarr;</button>
+                                        <button type="button" onClick={() => moveItem(index, 1)} disabled={index === items.length - 1} className="px-2 text-muted-foreground hover:text-foreground disabled:opacity-30" title="Move down">&darr;</button>
+                                        <button type="button" onClick={() => setItems(prev => prev.filter((_, i) => i !== index))} className="px-2 text-muted-foreground hover:text-destructive text-lg font-bold leading-none" title="Remove drill">&times;</button>
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <div>
+                                        <label className="block text-xs font-medium text-muted-foreground">Sets</label>
+                                        <input type="number" min={1} value={item.sets ?? ''} placeholder={String(drill?.sets ?? '')} onChange={e => updateItem(index, { sets: parseOverride(e.target.value) })} className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-muted-foreground">Reps / Set</label>
+                                        <input type="number" min={1} value={item.repsPerSet ?? ''} placeholder={String(drill?.repsPerSet ?? '')} onChange={e => updateItem(index, { repsPerSet: parseOverride(e.target.value) })} className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-muted-foreground">Rest After (sec)</label>
+                                        <input type="number" min={0} value={item.restSeconds ?? ''} placeholder="0" onChange={e => updateItem(index, { restSeconds: parseOverride(e.target.value) })} className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+                                    </div>
+                                </div>
+                                <input type="text" value={item.notes || ''} onChange={e => updateItem(index, { notes: e.target.value || undefined })} placeholder="Coaching notes for this step" className="block w-full bg-background border-input rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+                            </div>
+                        );
+                    })}
+                    {items.length === 0 && <p className="text-sm text-muted-foreground text-center py-2">No drills added yet.</p>}
+                </div>
+                <div className="flex gap-2 mt-3">
+                    <select value={drillToAdd} onChange={e => setDrillToAdd(e.target.value)} className="flex-1 bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm">
+                        <option value="">Choose a drill...</option>
+                        {activeDrills.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                    </select>
+                    <button type="button" onClick={handleAddDrill} disabled={!drillToAdd} className="py-2 px-4 bg-primary/20 hover:bg-primary/30 text-primary font-bold rounded-md text-sm disabled:opacity-50">+ Add</button>
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="flex justify-end space-x-3 pt-4">
+                <button type="button" onClick={onClose} className="py-2 px-4 bg-muted hover:bg-muted/80 rounded-md">Cancel</button>
+                <button type="submit" className="py-2 px-4 bg-primary text-primary-foreground hover:bg-primary/90 rounded-md">Save Plan</button>
+            </div>
+        </form>
+    );
+};
+
+const PracticePlanList: React.FC<{
+    plans: PracticePlan[];
+    drills: Drill[];
+    players: Player[];
+    groups: PlayerGroup[];
+    assignPlan: (assignment: AssignmentSchedule & { planId: string }) => void;
+}> = ({ plans, drills, players, groups, assignPlan }) => {
+    const { updatePlan, deletePlan } = useContext(DataContext)!;
+    const [planToAssign, setPlanToAssign] = useState<PracticePlan | null>(null);
+    const [planToEdit, setPlanToEdit] = useState<PracticePlan | null>(null);
+    const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+    const [showArchived, setShowArchived] = useState(false);
+
+    const visiblePlans = plans.filter(p => !!p.archived === showArchived);
+    const archivedCount = plans.filter(p => p.archived).length;
+
+    const handleAssign = (schedule: AssignmentSchedule) => {
+        if (!planToAssign) return;
+        assignPlan({ planId: planToAssign.id, ...schedule });
+    };
+
+    const handleEdit = (planData: Omit<PracticePlan, 'id' | 'teamId'>) => {
+        if (!planToEdit) return;
+        updatePlan({ id: planToEdit.id, teamId: planToEdit.teamId, ...planData });
+    };
+
+    const handleDelete = (planId: string) => {
+        if (confirmDeleteId !== planId) {
+            setConfirmDeleteId(planId);
+            return;
+        }
+        deletePlan(planId);
+        setConfirmDeleteId(null);
+    };
+
+    return (
+        <div>
+            <div className="flex justify-end mb-4">
+                {(archivedCount > 0 || showArchived) && (
+                    <button onClick={() => setShowArchived(prev => !prev)} className="text-sm text-primary hover:underline font-semibold">
+                        {showArchived ? 'Show Active Plans' : `Show Archived (${archivedCount})`}
+                    </button>
+                )}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {visiblePlans.map(plan => {
+                    const steps = getPlanSteps(plan, drills);
+                    return (
+                        <div key={plan.id} className={`bg-card border border-border p-4 rounded-lg shadow-sm flex flex-col ${plan.archived ? 'opacity-75' : ''}`}>
+                            <div className="flex-grow space-y-2">
+                                <h3 className="text-lg font-bold text-primary">{plan.name}</h3>
+                                {plan.description && <p className="text-sm text-muted-foreground">{plan.description}</p>}
+                                <ol className="text-sm text-card-foreground space-y-1 list-decimal list-inside">
+                                    {steps.map(({ item, drill }, index) => (
+                                        <li key={`${drill.id}-${index}`}>
+                                            {drill.name} <span className="text-muted-foreground">&middot; {drill.sets}x{drill.repsPerSet}{item.restSeconds ? `, rest ${item.restSeconds}s` : ''}</span>
+                                        </li>
+                                    ))}
+                                </ol>
+                            </div>
+                            <p className="text-xs text-card-foreground pt-2 mt-2 border-t border-border"><strong>Volume:</strong> {steps.length} drills, {getPlanTotalReps(plan, drills)} reps</p>
+                            {!plan.archived && (
+                                <button onClick={() => setPlanToAssign(plan)} disabled={steps.length === 0} className="w-full mt-4 bg-secondary/20 hover:bg-secondary/30 text-secondary font-bold py-2 px-4 rounded-lg text-sm disabled:opacity-50">
+                                    Assign Plan
+                                </button>
+                            )}
+                            <div className="flex justify-between mt-3 text-xs font-semibold">
+                                {!plan.archived && <button onClick={() => setPlanToEdit(plan)} className="text-primary hover:underline">Edit</button>}
+                                <button onClick={() => updatePlan({ ...plan, archived: !plan.archived })} className="text-muted-foreground hover:text-foreground">{plan.archived ? 'Restore' : 'Archive'}</button>
+                                <button onClick={() => handleDelete(plan.id)} className="text-muted-foreground hover:text-destructive">{confirmDeleteId === plan.id ? 'Confirm Delete' : 'Delete'}</button>
+                            </div>
+                        </div>
+                    );
+                })}
+                {visiblePlans.length === 0 && <p className="text-muted-foreground md:col-span-2 text-center py-4">{showArchived ? 'No archived plans.' : 'No practice plans yet. Combine drills from your library into a full workout.'}</p>}
+            </div>
+            <Modal isOpen={!!planToEdit} onClose={() => setPlanToEdit(null)} title="Edit Practice Plan">
+                {planToEdit && <PracticePlanForm key={planToEdit.id} drills={drills} initialPlan={planToEdit} onSave={handleEdit} onClose={() => setPlanToEdit(null)} />}
+            </Modal>
+            {planToAssign && (
+                <AssignDrillModal
+                    isOpen={!!planToAssign}
+                    onClose={() => setPlanToAssign(null)}
+                    itemName={planToAssign.name}
+                    isPlan
+                    players={players}
+                    groups={groups}
+                    onAssign={handleAssign}
+                />
+            )}
+        </div>
+    );
+};
+
+const GroupFilter: React.FC<{ groups: PlayerGroup[]; value: string; onChange: (groupId: string) => void; }> = ({ groups, value, onChange }) => (
+    <select value={value} onChange={e => onChange(e.target.value)} className="bg-background border border-input rounded-lg py-2 px-3 text-sm font-semibold text-foreground focus:outline-none focus:ring-primary focus:border-primary">
+        <option value="">All Players</option>
+        {groups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+    </select>
+);
+
+const GroupForm: React.FC<{ players: Player[]; initialGroup?: PlayerGroup; onSave: (data: Pick<PlayerGroup, 'name' | 'playerIds'>) => void; onCancel: () => void; }> = ({ players, initialGroup, onSave, onCancel }) => {
+    const [name, setName] = useState(initialGroup?.name || '');
+    const [playerIds, setPlayerIds] = useState<string[]>(initialGroup?.playerIds || []);
+
+    const togglePlayer = (playerId: string) => {
+        setPlayerIds(prev => prev.includes(playerId) ? prev.filter(id => id !== playerId) : [...prev, playerId]);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave({ name: name.trim(), playerIds });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+                <label className="block text-sm font-medium text-muted-foreground">Group Name</label>
+                <input type="text" value={name} onChange={e => setName(e.target.value)} required placeholder="e.g., Infield" className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+            </div>
+            <div>
+                <p className="text-sm font-medium text-muted-foreground mb-1">Members ({playerIds.length})</p>
+                <div className="max-h-48 overflow-y-auto space-y-2 rounded-md border border-border p-2">
+                    {players.map(p => (
+                        <div key={p.id} className="flex items-center">
+                            <input type="checkbox" id={`group-${p.id}`} checked={playerIds.includes(p.id)} onChange={() => togglePlayer(p.id)} className="h-4 w-4 rounded border-border text-primary focus:ring-primary" />
+                            <label htmlFor={`group-${p.id}`} className="ml-2 block text-sm text-muted-foreground">
+                                {p.name}{p.profile?.position ? ` (${p.profile.position})` : ''}
+                            </label>
+                        </div>
+                    ))}
+                </div>
+            </div>
+            <div className="flex justify-end space-x-3">
+                <button type="button" onClick={onCancel} className="py-2 px-4 bg-muted hover:bg-muted/80 rounded-md">Cancel</button>
+                <button type="submit" className="py-2 px-4 bg-primary text-primary-foreground hover:bg-primary/90 rounded-md">Save Group</button>
+            </div>
+        </form>
+    );
+};
+
+const GroupManagerModal: React.FC<{ isOpen: boolean; onClose: () => void; teamId: string; groups: PlayerGroup[]; players: Player[]; }> = ({ isOpen, onClose, teamId, groups, players }) => {
+    const { createGroup, updateGroup, deleteGroup } = useContext(DataContext)!;
+    // null: list view, 'new': creating, otherwise the group being edited.
+    const [editing, setEditing] = useState<PlayerGroup | 'new' | null>(null);
+    const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+    const handleSave = (data: Pick<PlayerGroup, 'name' | 'playerIds'>) => {
+        if (editing === 'new') {
+            createGroup({ teamId, ...data });
+        } else if (editing) {
+            updateGroup({ ...editing, ...data });
+        }
+        setEditing(null);
+    };
+
+    const handleDelete = (groupId: string) => {
+        if (confirmDeleteId !== groupId) {
+            setConfirmDeleteId(groupId);
+            return;
+        }
+        deleteGroup(groupId);
+        setConfirmDeleteId(null);
+    };
+
+    const handleClose = () => {
+        setEditing(null);
+        setConfirmDeleteId(null);
+        onClose();
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={handleClose} title={editing === 'new' ? 'New Group' : editing ? `Edit Group: ${editing.name}` : 'Player Groups'}>
+            {editing ? (
+                <GroupForm key={editing === 'new' ? 'new' : editing.id} players={players} initialGroup={editing === 'new' ? undefined : editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+            ) : (
+                <div className="space-y-4">
+                    <ul className="divide-y divide-border border border-border rounded-lg">
+                        {groups.map(group => (
+                            <li key={group.id} className="p-3 flex items-center justify-between">
+                                <div>
+                                    <p className="font-semibold text-foreground">{group.name}</p>
+                                    <p className="text-xs text-muted-foreground">{group.playerIds.filter(id => players.some(p => p.id === id)).length} players</p>
+                                </div>
+                                <div className="flex gap-3 text-xs font-semibold">
+                                    <button onClick={() => setEditing(group)} className="text-primary hover:underline">Edit</button>
+                                    <Tooltip content="Assignments and goals targeting this group will no longer match anyone.">
+                                        <button onClick={() => handleDelete(group.id)} className="text-muted-foreground hover:text-destructive">
+                                            {confirmDeleteId === group.id ? 'Confirm Delete' : 'Delete'}
+                                        </button>
+                                    </Tooltip>
+                                </div>
+                            </li>
+                        ))}
+                        {groups.length === 0 && <p className="text-muted-foreground text-center p-4">No groups yet. Create groups like Infield, Catchers or JV.</p>}
+                    </ul>
+                    <button onClick={() => setEditing('new')} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-4 rounded-lg text-sm">+ New Group</button>
+                </div>
+            )}
+        </Modal>
+    );
+};
+
 const InvitePlayersModal: React.FC<{ isOpen: boolean; onClose: () => void; teamCode: string | null; }> = ({ isOpen, onClose, teamCode }) => {
     const [copied, setCopied] = useState(false);
 
@@ -951,37 +1661,95 @@ const InvitePlayersModal: React.FC<{ isOpen: boolean; onClose: () => void; teamC
 
 
 export const CoachView: React.FC = () => {
-    const [currentView, setCurrentView] = useState('dashboard');
-    const { currentUser, getTeamsForCoach, getPlayersInTeam, getDrillsForTeam, getSessionsForTeam, createDrill, createAssignment, getGoalsForPlayer, createTeam, getJoinCodeForTeam, getTeamGoals, activeTeam, setActiveTeamId } = useContext(DataContext)!;
-    const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
+    const { route, navigate } = useContext(RouterContext)!;
+    const { currentUser, getTeamsForCoach, getPlayersInTeam, getDrillsForTeam, getSessionsForTeam, createDrill, createAssignment, getGoalsForPlayer, createTeam, getJoinCodeForTeam, getTeamGoals, getAssignmentsForTeam, getGroupsForTeam, getPlansForTeam, createPlan, activeTeam, setActiveTeamId } = useContext(DataContext)!;
     const [selectedGradYear, setSelectedGradYear] = useState<number | null>(null);
     const [isCreateTeamModalOpen, setIsCreateTeamModalOpen] = useState(false);
     const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
     const [isCreateDrillModalOpen, setIsCreateDrillModalOpen] = useState(false);
+    const [isCreatePlanModalOpen, setIsCreatePlanModalOpen] = useState(false);
+    const [isGroupManagerOpen, setIsGroupManagerOpen] = useState(false);
+    const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+    const [isBackupModalOpen, setIsBackupModalOpen] = useState(false);
+    const [isRolloverModalOpen, setIsRolloverModalOpen] = useState(false);
+    const [filters, setFilters] = useAnalyticsFilters();
     const [activeTeamCode, setActiveTeamCode] = useState<string | null>(null);
     
     const coachTeams = useMemo(() => getTeamsForCoach(currentUser!.id), [currentUser, getTeamsForCoach]);
     
     useEffect(() => {
         if (!activeTeam && coachTeams.length > 0) {
-            setActiveTeamId(coachTeams[0].id);
+            setActiveTeamId(coachTeams.find(t => t.id === route.teamId)?.id ?? coachTeams[0].id);
         }
     }, [coachTeams, activeTeam, setActiveTeamId]);
 
+    // The URL picks the team. Anything else that switches teams, like restoring a backup, is written back into the URL.
+    const routeTeamId = useRef<string | undefined>(undefined);
+    useEffect(() => {
+        if (!activeTeam) return;
+        const routeChanged = route.teamId !== routeTeamId.current;
+        const isKnownTeam = coachTeams.some(t => t.id === route.teamId);
+        routeTeamId.current = route.teamId;
+        if (routeChanged && isKnownTeam && route.teamId !== activeTeam.id) {
+            setActiveTeamId(route.teamId!);
+        } else if (route.teamId !== activeTeam.id) {
+            navigate(isKnownTeam ? { view: DEFAULT_VIEW, teamId: activeTeam.id } : { ...route, teamId: activeTeam.id }, { replace: !isKnownTeam });
+        }
+    }, [route, activeTeam?.id, coachTeams]);
+
     const players = useMemo(() => activeTeam ? getPlayersInTeam(activeTeam.id) : [], [activeTeam, getPlayersInTeam]);
     const drills = useMemo(() => activeTeam ? getDrillsForTeam(activeTeam.id) : [], [activeTeam, getDrillsForTeam]);
     const sessions = useMemo(() => activeTeam ? getSessionsForTeam(activeTeam.id) : [], [activeTeam, getSessionsForTeam]);
     const teamGoals = useMemo(() => activeTeam ? getTeamGoals(activeTeam.id) : [], [activeTeam, getTeamGoals]);
+    const assignments = useMemo(() => activeTeam ? getAssignmentsForTeam(activeTeam.id) : [], [activeTeam, getAssignmentsForTeam]);
+    const groups = useMemo(() => activeTeam ? getGroupsForTeam(activeTeam.id) : [], [activeTeam, getGroupsForTeam]);
+    const plans = useMemo(() => activeTeam ? getPlansForTeam(activeTeam.id) : [], [activeTeam, getPlansForTeam]);
+
+    // Groups, players and seasons belong to one team, so switching teams clears them. Filters from the URL apply on first load.
+    // This follows the team in the URL rather than the active team, which briefly starts out as the default team on a deep link.
+    const previousTeamId = useRef(route.teamId);
+    useEffect(() => {
+        if (previousTeamId.current && route.teamId && previousTeamId.current !== route.teamId) {
+            setFilters(prev => ({ ...prev, groupId: undefined, playerId: undefined, season: undefined }));
+        }
+        previousTeamId.current = route.teamId ?? previousTeamId.current;
+    }, [route.teamId]);
+
+    // No season in the filters means the season in progress, including right after a rollover.
+    const seasonFilter: SeasonFilterValue = filters.season ?? activeTeam?.seasonYear ?? ALL_SEASONS;
+    const groupFilterId = filters.groupId || '';
+    const setSeasonFilter = (season: SeasonFilterValue) => setFilters(prev => ({ ...prev, season: season === activeTeam?.seasonYear ? undefined : season }));
+    const setGroupFilterId = (groupId: string) => setFilters(prev => ({ ...prev, groupId: groupId || undefined, playerId: undefined }));
+
+    // The roster and goals narrow to one season and one group; the dashboard charts and analytics also follow the rest of the filter bar.
+    const seasonSessions = useMemo(() => activeTeam ? filterSessionsBySeason(sessions, [activeTeam], seasonFilter) : [], [sessions, activeTeam, seasonFilter]);
+    const seasonTeamGoals = useMemo(() => filterGoalsBySeason(teamGoals, activeTeam, seasonFilter), [teamGoals, activeTeam, seasonFilter]);
+    const selectedGroup = groups.find(g => g.id === groupFilterId);
+    const groupPlayers = useMemo(() => selectedGroup ? players.filter(p => selectedGroup.playerIds.includes(p.id)) : players, [players, selectedGroup]);
+    const groupSessions = useMemo(() => selectedGroup ? seasonSessions.filter(s => selectedGroup.playerIds.includes(s.playerId)) : seasonSessions, [seasonSessions, selectedGroup]);
+    const groupTeamGoals = useMemo(() => selectedGroup ? seasonTeamGoals.filter(g => !g.groupId || g.groupId === selectedGroup.id) : seasonTeamGoals, [seasonTeamGoals, selectedGroup]);
+
+    // Presets count back from the end of a closed season rather than from today.
+    const rangeEnd = useMemo(() => (activeTeam && getSeasonEndDate(activeTeam, seasonFilter)) || new Date(), [activeTeam, seasonFilter]);
+    const analyticsSessions = useMemo(() => applyAnalyticsFilters(seasonSessions, filters, drills, groups, rangeEnd), [seasonSessions, filters, drills, groups, rangeEnd]);
+    const rangeLabel = getDateRangeLabel(filters);
+    const executionTrend = useMemo(() => getExecutionTrend(analyticsSessions, getDateBounds(filters, analyticsSessions, rangeEnd)), [analyticsSessions, filters, rangeEnd]);
+
+    // Compares every season, so it ignores the season and date range but follows the other filters.
+    const seasonComparison = useMemo(() => {
+        if (!activeTeam) return [];
+        return getSeasonComparison(applyAnalyticsFilters(sessions, { ...filters, range: 'all' }, drills, groups), [activeTeam]);
+    }, [sessions, activeTeam, filters, drills, groups]);
 
     const sessionsByPlayer = useMemo(() => {
-        return sessions.reduce((acc, session) => {
+        return seasonSessions.reduce((acc, session) => {
             if (!acc[session.playerId]) {
                 acc[session.playerId] = [];
             }
             acc[session.playerId].push(session);
             return acc;
         }, {} as Record<string, Session[]>);
-    }, [sessions]);
+    }, [seasonSessions]);
 
 
     const handleCreateDrill = (drillData: Omit<Drill, 'id' | 'teamId'>) => {
@@ -990,25 +1758,37 @@ export const CoachView: React.FC = () => {
         setIsCreateDrillModalOpen(false);
     };
 
-    const handleAssignDrill = (assignment: { drillId: string, playerIds: string[], isRecurring: boolean, recurringDays: DayOfWeek[] }) => {
+    const handleAssignDrill = (assignment: AssignmentSchedule & { drillId: string }) => {
+        if (!activeTeam) return;
+        createAssignment({ teamId: activeTeam.id, ...assignment });
+    };
+
+    const handleAssignPlan = (assignment: AssignmentSchedule & { planId: string }) => {
         if (!activeTeam) return;
         createAssignment({ teamId: activeTeam.id, ...assignment });
     };
 
+    const handleCreatePlan = (planData: Omit<PracticePlan, 'id' | 'teamId'>) => {
+        if (!activeTeam) return;
+        createPlan({ teamId: activeTeam.id, ...planData });
+    };
+
     const handleCreateTeam = async (teamName: string, seasonYear: number) => {
         const newTeamId = await createTeam({ name: teamName, seasonYear }, currentUser!.id);
         if (newTeamId) {
-            setActiveTeamId(newTeamId);
+            navigate({ view: DEFAULT_VIEW, teamId: newTeamId });
         }
         setIsCreateTeamModalOpen(false);
     }
 
+    const teamRoute = (view: string, id?: string): AppRoute => ({ view, teamId: activeTeam?.id, id });
+
     const handlePlayerClick = (player: Player) => {
-        setSelectedPlayer(player);
+        navigate(teamRoute('players', player.id));
     };
     
     const handleBackToPlayerList = () => {
-        setSelectedPlayer(null);
+        navigate(teamRoute('players'));
     }
 
     const handleInviteClick = async () => {
@@ -1018,55 +1798,41 @@ export const CoachView: React.FC = () => {
         setIsInviteModalOpen(true);
     };
 
-    const navItems = [
-        { name: 'Dashboard', icon: <HomeIcon />, view: 'dashboard' },
-        { name: 'Players', icon: <UsersIcon />, view: 'players' },
-        { name: 'Drills', icon: <ClipboardListIcon />, view: 'drills' },
-        { name: 'Analytics', icon: <ChartBarIcon />, view: 'analytics' },
+    const navItems: NavItem[] = [
+        { name: 'Dashboard', icon: <HomeIcon />, route: teamRoute('dashboard') },
+        { name: 'Players', icon: <UsersIcon />, route: teamRoute('players') },
+        { name: 'Drills', icon: <ClipboardListIcon />, route: teamRoute('drills') },
+        { name: 'Practice Plans', icon: <QueueListIcon />, route: teamRoute('plans') },
+        { name: 'Assignments', icon: <CalendarIcon />, route: teamRoute('assignments') },
+        { name: 'Analytics', icon: <ChartBarIcon />, route: teamRoute('analytics') },
     ];
+
+    // Sessions sit under Players in the sidebar; unknown paths fall back to the dashboard.
+    const currentView = route.view === 'sessions' ? 'players' : navItems.some(item => item.route.view === route.view) ? route.view : DEFAULT_VIEW;
+    const selectedSession = route.view === 'sessions' ? sessions.find(s => s.id === route.id) : undefined;
+    const selectedPlayer = route.view === 'players' ? players.find(p => p.id === route.id) : undefined;
+    const sessionPlayer = selectedSession && players.find(p => p.id === selectedSession.playerId);
+    const focusedDrillId = route.view === 'drills' ? route.id : undefined;
+
+    const handleTeamSwitch = (teamId: string) => {
+        navigate({ view: currentView, teamId });
+    };
     
     const pageTitles: { [key: string]: string } = {
         dashboard: `Team Overview: ${activeTeam?.name || ''}`,
         players: 'Players',
         drills: 'Drill Library',
+        plans: 'Practice Plans',
+        assignments: 'Assignments',
         analytics: 'Team Analytics'
     };
 
-    React.useEffect(() => {
-        if(currentView !== 'players') {
-            setSelectedPlayer(null);
-        }
-    }, [currentView]);
-
-    const performanceOverTimeData = useMemo(() => {
-      const chronoSessions = [...sessions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-       return chronoSessions.map(s => ({
-            name: formatDate(s.date, { month: 'short', day: 'numeric' }),
-            'Execution %': calculateExecutionPercentage(s.sets),
-            'Hard Hit %': calculateHardHitPercentage(s.sets),
-        }));
-    }, [sessions]);
+    const performanceOverTimeData = useMemo(() => getPerformanceOverTime(analyticsSessions), [analyticsSessions]);
     
-    const drillSuccessData = useMemo(() => {
-       const drillSuccessMap = new Map<string, { success: number, total: number }>();
-        sessions.forEach(session => {
-            const drill = drills.find(d => d.id === session.drillId);
-            if (drill) {
-                const { isSuccess } = getSessionGoalProgress(session, drill);
-                const entry = drillSuccessMap.get(drill.name) || { success: 0, total: 0 };
-                entry.total++;
-                if (isSuccess) entry.success++;
-                drillSuccessMap.set(drill.name, entry);
-            }
-        });
-        return Array.from(drillSuccessMap.entries()).map(([name, data]) => ({
-            name,
-            'Success Rate': data.total > 0 ? Math.round((data.success / data.total) * 100) : 0,
-        }));
-    }, [sessions, drills]);
+    const drillSuccessData = useMemo(() => getDrillSuccessRates(analyticsSessions, drills), [analyticsSessions, drills]);
 
     const teamAnalyticsData = useMemo((): CoachAnalyticsData | null => {
-        if (sessions.length === 0 || players.length === 0) return null;
+        if (analyticsSessions.length === 0 || groupPlayers.length === 0) return null;
 
         const getTopPlayersForFilter = (
             filter: (set: SetResult, session: Session, drill?: Drill) => boolean,
@@ -1074,7 +1840,7 @@ export const CoachView: React.FC = () => {
         ): TopPlayer[] => {
             const playerStats: { [playerId: string]: { repsExecuted: number; repsAttempted: number; hardHits: number; strikeouts: number } } = {};
 
-            sessions.forEach(session => {
+            analyticsSessions.forEach(session => {
                 const drill = session.drillId ? drills.find(d => d.id === session.drillId) : undefined;
                 session.sets.forEach(set => {
                     if (filter(set, session, drill)) {
@@ -1092,7 +1858,7 @@ export const CoachView: React.FC = () => {
             
             return Object.entries(playerStats)
                 .map(([playerId, stats]) => {
-                    const player = players.find(p => p.id === playerId);
+                    const player = groupPlayers.find(p => p.id === playerId);
                     if (!player || stats.repsAttempted < 10) return null;
 
                     let value = 0;
@@ -1110,7 +1876,7 @@ export const CoachView: React.FC = () => {
         };
         
         const drillStats: { [drillId: string]: { name: string; sets: SetResult[] } } = {};
-        sessions.forEach(session => {
+        analyticsSessions.forEach(session => {
             if (session.drillId) {
                 const drill = drills.find(d => d.id === session.drillId);
                 if (drill) {
@@ -1138,8 +1904,8 @@ export const CoachView: React.FC = () => {
         const byCount: { [key in CountSituation]: { executed: number, attempted: number } } = { 'Ahead': { executed: 0, attempted: 0 }, 'Even': { executed: 0, attempted: 0 }, 'Behind': { executed: 0, attempted: 0 } };
         const byZone: { [key in TargetZone]?: { executed: number, attempted: number } } = {};
 
-        sessions.forEach(session => {
-            const player = players.find(p => p.id === session.playerId);
+        analyticsSessions.forEach(session => {
+            const player = groupPlayers.find(p => p.id === session.playerId);
             const isLefty = player?.profile.bats === 'L';
 
             let drillType: DrillType | undefined;
@@ -1159,25 +1925,21 @@ export const CoachView: React.FC = () => {
                 byCount[situation].executed += set.repsExecuted;
                 byCount[situation].attempted += set.repsAttempted;
 
-                if (set.pitchTypes && set.pitchTypes.length > 0) {
-                    set.pitchTypes.forEach(pitch => {
-                        if (!byPitchType[pitch]) byPitchType[pitch] = { executed: 0, attempted: 0 };
-                        byPitchType[pitch]!.executed += set.repsExecuted / set.pitchTypes!.length;
-                        byPitchType[pitch]!.attempted += set.repsAttempted / set.pitchTypes!.length;
-                    });
-                }
-                if (set.targetZones && set.targetZones.length > 0) {
-                     set.targetZones.forEach(originalZone => {
-                        let normalizedZone = originalZone;
-                        if (isLefty) {
-                            if (originalZone.startsWith('Inside')) normalizedZone = originalZone.replace('Inside', 'Outside') as TargetZone;
-                            else if (originalZone.startsWith('Outside')) normalizedZone = originalZone.replace('Outside', 'Inside') as TargetZone;
-                        }
-                        if (!byZone[normalizedZone]) byZone[normalizedZone] = { executed: 0, attempted: 0 };
-                        byZone[normalizedZone]!.executed += set.repsExecuted / set.targetZones!.length;
-                        byZone[normalizedZone]!.attempted += set.repsAttempted / set.targetZones!.length;
-                    });
-                }
+                splitSetReps(set, 'pitchTypes').forEach(({ value: pitch, attempted, executed }) => {
+                    if (!byPitchType[pitch]) byPitchType[pitch] = { executed: 0, attempted: 0 };
+                    byPitchType[pitch]!.executed += executed;
+                    byPitchType[pitch]!.attempted += attempted;
+                });
+                splitSetReps(set, 'targetZones').forEach(({ value: originalZone, attempted, executed }) => {
+                    let normalizedZone = originalZone;
+                    if (isLefty) {
+                        if (originalZone.startsWith('Inside')) normalizedZone = originalZone.replace('Inside', 'Outside') as TargetZone;
+                        else if (originalZone.startsWith('Outside')) normalizedZone = originalZone.replace('Outside', 'Inside') as TargetZone;
+                    }
+                    if (!byZone[normalizedZone]) byZone[normalizedZone] = { executed: 0, attempted: 0 };
+                    byZone[normalizedZone]!.executed += executed;
+                    byZone[normalizedZone]!.attempted += attempted;
+                });
             });
         });
         
@@ -1200,80 +1962,169 @@ export const CoachView: React.FC = () => {
             byZone: calculateBreakdownData(byZone, (s) => s.targetZones?.includes((s as any).name) ?? false).map(d => ({...d, zone: d.name as TargetZone})),
         };
         
-        return { performanceOverTimeData, drillSuccessData, drillEffectiveness, teamBreakdowns };
-    }, [sessions, drills, players, performanceOverTimeData, drillSuccessData]);
+        const battedBalls = getBattedBalls(analyticsSessions);
+        
+        return { performanceOverTimeData, drillSuccessData, drillEffectiveness, teamBreakdowns, battedBalls };
+    }, [analyticsSessions, drills, groupPlayers, performanceOverTimeData, drillSuccessData]);
     
+    // Exports and backups always cover the whole active team, whatever group filter is showing.
+    const getTeamExportData = (team: Team): TeamExportData => ({
+        team,
+        players,
+        groups,
+        drills,
+        plans,
+        assignments,
+        sessions,
+        personalGoals: players.flatMap(p => getGoalsForPlayer(p.id)),
+        teamGoals,
+    });
+
+    // Rendered first in both layouts so a restore report survives the switch from the welcome screen to the new team.
+    const backupModal = <TeamBackupModal isOpen={isBackupModalOpen} onClose={() => setIsBackupModalOpen(false)} coachId={currentUser!.id} teamData={activeTeam && getTeamExportData(activeTeam)} />;
+
     if (coachTeams.length === 0 || !activeTeam) {
         return (
-            <div className="min-h-screen flex flex-col items-center justify-center text-center p-4">
-                <h1 className="text-3xl font-bold text-foreground mb-2">Welcome, Coach!</h1>
-                <p className="text-muted-foreground mb-6">Let's get your first team set up.</p>
-                <button onClick={() => setIsCreateTeamModalOpen(true)} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-3 px-6 rounded-lg text-lg">
-                    + Create Your First Team
-                </button>
-                <Modal isOpen={isCreateTeamModalOpen} onClose={() => setIsCreateTeamModalOpen(false)} title="Create New Team">
-                    <CreateTeamForm onSave={handleCreateTeam} />
-                </Modal>
-            </div>
+            <>
+                {backupModal}
+                <div className="min-h-screen flex flex-col items-center justify-center text-center p-4">
+                    <h1 className="text-3xl font-bold text-foreground mb-2">Welcome, Coach!</h1>
+                    <p className="text-muted-foreground mb-6">Let's get your first team set up.</p>
+                    <button onClick={() => setIsCreateTeamModalOpen(true)} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-3 px-6 rounded-lg text-lg">
+                        + Create Your First Team
+                    </button>
+                    <button onClick={() => setIsBackupModalOpen(true)} className="mt-4 text-sm text-primary hover:underline font-semibold">
+                        Restore a team from a backup
+                    </button>
+                    <Modal isOpen={isCreateTeamModalOpen} onClose={() => setIsCreateTeamModalOpen(false)} title="Create New Team">
+                        <CreateTeamForm onSave={handleCreateTeam} />
+                    </Modal>
+                </div>
+            </>
         );
     }
 
+    const groupFilter = groups.length > 0 ? <GroupFilter groups={groups} value={groupFilterId} onChange={setGroupFilterId} /> : null;
+    const seasonFilterSelect = activeTeam.pastSeasons?.length ? <SeasonFilter team={activeTeam} value={seasonFilter} onChange={setSeasonFilter} /> : null;
+    const filterBar = <AnalyticsFilterBar filters={filters} onChange={setFilters} team={activeTeam} players={players} groups={groups} />;
+    const filteredPlayer = filters.playerId ? players.find(p => p.id === filters.playerId) : undefined;
+    const exportButton = <button onClick={() => setIsExportModalOpen(true)} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg text-sm">Export Data</button>;
+    const exportOptions: ExportOption[] = [
+        { label: 'Sessions', description: 'Every logged set with its counts and situation.', format: 'CSV', fileName: getExportFileName(activeTeam.name, 'sessions', 'csv'), build: () => toCsv(getSessionExportRows(sessions, players, drills)) },
+        { label: 'Rep Detail', description: 'Every rep logged pitch by pitch, with outcome, pitch, zone and batted-ball readings.', format: 'CSV', fileName: getExportFileName(activeTeam.name, 'reps', 'csv'), build: () => toCsv(getRepExportRows(sessions, players)) },
+        { label: 'Player Summary', description: 'Sessions, reps, execution, hard hit and contact rates per player.', format: 'CSV', fileName: getExportFileName(activeTeam.name, 'players', 'csv'), build: () => toCsv(getPlayerSummaryRows(players, sessions)) },
+        { label: 'Drill Success', description: 'How often each drill\'s goal was met.', format: 'CSV', fileName: getExportFileName(activeTeam.name, 'drill-success', 'csv'), build: () => toCsv(getDrillSuccessRows(sessions, drills)) },
+        { label: 'Goal Progress', description: 'Team and personal goals with current values.', format: 'CSV', fileName: getExportFileName(activeTeam.name, 'goals', 'csv'), build: () => toCsv(getGoalProgressRows(getTeamExportData(activeTeam))) },
+        { label: 'Full Team Data', description: 'All team records plus the summaries above, as structured JSON.', format: 'JSON', fileName: getExportFileName(activeTeam.name, 'data', 'json'), build: () => JSON.stringify(buildTeamJsonExport(getTeamExportData(activeTeam)), null, 2) },
+    ];
+
     const headerContent = {
-        dashboard: <button onClick={handleInviteClick} className="bg-secondary hover:bg-secondary/90 text-secondary-foreground font-bold py-2 px-4 rounded-lg text-sm">Invite Players</button>,
-        drills: <button onClick={() => setIsCreateDrillModalOpen(true)} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-4 rounded-lg text-sm">+ Create Drill</button>
+        dashboard: (
+            <div className="flex items-center gap-3">
+                {exportButton}
+                <button onClick={() => setIsBackupModalOpen(true)} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg text-sm">Backup & Restore</button>
+                <button onClick={() => setIsRolloverModalOpen(true)} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg text-sm">New Season</button>
+                <button onClick={handleInviteClick} className="bg-secondary hover:bg-secondary/90 text-secondary-foreground font-bold py-2 px-4 rounded-lg text-sm">Invite Players</button>
+            </div>
+        ),
+        players: (
+            <div className="flex items-center gap-3">
+                {seasonFilterSelect}
+                {groupFilter}
+                <button onClick={() => setIsGroupManagerOpen(true)} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg text-sm">Manage Groups</button>
+            </div>
+        ),
+        analytics: exportButton,
+        drills: <button onClick={() => setIsCreateDrillModalOpen(true)} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-4 rounded-lg text-sm">+ Create Drill</button>,
+        plans: <button onClick={() => setIsCreatePlanModalOpen(true)} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-4 rounded-lg text-sm">+ Create Plan</button>
     }[currentView];
 
     return (
-        <Dashboard 
-            navItems={navItems} 
-            currentView={currentView} 
-            setCurrentView={setCurrentView}
-            pageTitle={pageTitles[currentView]}
-            headerContent={headerContent}
-            teams={coachTeams}
-            activeTeamId={activeTeam.id}
-            setActiveTeamId={setActiveTeamId}
-        >
-            {currentView === 'dashboard' && <CoachDashboard players={players} drills={drills} sessions={sessions} teamGoals={teamGoals} />}
-            {currentView === 'players' && (
-                 selectedPlayer ? (
-                    <PlayerDetail 
-                        player={selectedPlayer} 
-                        sessions={sessionsByPlayer[selectedPlayer.id] || []}
+        <>
+            {backupModal}
+            <Dashboard 
+                navItems={navItems} 
+                currentView={currentView} 
+                pageTitle={route.view === 'sessions' ? 'Session Details' : pageTitles[currentView]}
+                headerContent={route.view === 'sessions' ? undefined : headerContent}
+                teams={coachTeams}
+                activeTeamId={activeTeam.id}
+                setActiveTeamId={handleTeamSwitch}
+            >
+                {currentView === 'dashboard' && (
+                    <div className="space-y-6">
+                        {filterBar}
+                        <CoachDashboard players={groupPlayers} drills={drills} sessions={analyticsSessions} seasonSessions={groupSessions} executionTrend={executionTrend} rangeLabel={rangeLabel} teamGoals={groupTeamGoals} groups={groups} selectedGroupId={groupFilterId} />
+                    </div>
+                )}
+                {route.view === 'sessions' && (
+                    <SessionDetail
+                        session={selectedSession}
+                        playerSessions={sessions}
                         drills={drills}
-                        goals={getGoalsForPlayer(selectedPlayer.id)}
-                        onBack={handleBackToPlayerList}
+                        player={sessionPlayer}
+                        backRoute={sessionPlayer ? teamRoute('players', sessionPlayer.id) : teamRoute('players')}
+                        backLabel={sessionPlayer ? `Back to ${sessionPlayer.name}` : 'Back to Player List'}
                     />
-                ) : (
-                    <PlayerList 
-                        players={players} 
-                        sessionsByPlayer={sessionsByPlayer} 
-                        onPlayerClick={handlePlayerClick}
-                        selectedGradYear={selectedGradYear}
-                        setSelectedGradYear={setSelectedGradYear}
-                    />
-                )
-            )}
-            {currentView === 'drills' && <DrillList drills={drills} players={players} createDrill={handleCreateDrill} assignDrill={handleAssignDrill} />}
-            {currentView === 'analytics' && (
-                teamAnalyticsData ? (
-                    <CoachAnalyticsPage analyticsData={teamAnalyticsData} />
-                ) : (
-                    <div>
-                         <div className="bg-card border border-border p-6 rounded-lg shadow-sm text-center text-muted-foreground">
-                             <p>Log more team sessions to unlock detailed analytics and insights.</p>
-                         </div>
+                )}
+                {currentView === 'players' && route.view !== 'sessions' && (
+                     selectedPlayer ? (
+                        <PlayerDetail 
+                            player={selectedPlayer} 
+                            teamId={activeTeam.id}
+                            sessions={sessionsByPlayer[selectedPlayer.id] || []}
+                            drills={drills}
+                            goals={filterGoalsBySeason(getGoalsForPlayer(selectedPlayer.id), activeTeam, seasonFilter)}
+                            onBack={handleBackToPlayerList}
+                        />
+                    ) : (
+                        <PlayerList 
+                            players={groupPlayers} 
+                            sessionsByPlayer={sessionsByPlayer} 
+                            onPlayerClick={handlePlayerClick}
+                            selectedGradYear={selectedGradYear}
+                            setSelectedGradYear={setSelectedGradYear}
+                        />
+                    )
+                )}
+                {currentView === 'drills' && <DrillList drills={drills} players={players} groups={groups} focusedDrillId={focusedDrillId} createDrill={handleCreateDrill} assignDrill={handleAssignDrill} />}
+                {currentView === 'plans' && <PracticePlanList plans={plans} drills={drills} players={players} groups={groups} assignPlan={handleAssignPlan} />}
+                {currentView === 'assignments' && <AssignmentList assignments={assignments} drills={drills} plans={plans} players={players} groups={groups} sessions={sessions} />}
+                {currentView === 'analytics' && (
+                    <div className="space-y-8">
+                        {filterBar}
+                        {seasonComparison.length > 1 && <SeasonComparisonChart data={seasonComparison} />}
+                        {filteredPlayer && <PlayerRadarChart sessions={analyticsSessions} playerName={filteredPlayer.name} />}
+                        {teamAnalyticsData ? (
+                            <CoachAnalyticsPage analyticsData={teamAnalyticsData} />
+                        ) : (
+                            <div className="bg-card border border-border p-6 rounded-lg shadow-sm text-center text-muted-foreground">
+                                <p>Log more team sessions to unlock detailed analytics and insights.</p>
+                            </div>
+                        )}
                     </div>
-                )
-            )}
-            <InvitePlayersModal 
-                isOpen={isInviteModalOpen} 
-                onClose={() => setIsInviteModalOpen(false)} 
-                teamCode={activeTeamCode} 
-            />
-            <Modal isOpen={isCreateDrillModalOpen} onClose={() => setIsCreateDrillModalOpen(false)} title="Create New Drill">
-                <DrillForm onSave={handleCreateDrill} onClose={() => setIsCreateDrillModalOpen(false)} />
-            </Modal>
-        </Dashboard>
+                )}
+                <InvitePlayersModal 
+                    isOpen={isInviteModalOpen} 
+                    onClose={() => setIsInviteModalOpen(false)} 
+                    teamCode={activeTeamCode} 
+                />
+                <GroupManagerModal
+                    isOpen={isGroupManagerOpen}
+                    onClose={() => setIsGroupManagerOpen(false)}
+                    teamId={activeTeam.id}
+                    groups={groups}
+                    players={players}
+                />
+                <SeasonRolloverModal isOpen={isRolloverModalOpen} onClose={() => setIsRolloverModalOpen(false)} team={activeTeam} />
+                <ExportModal isOpen={isExportModalOpen} onClose={() => setIsExportModalOpen(false)} title={`Export ${activeTeam.name} Data`} options={exportOptions} />
+                <Modal isOpen={isCreateDrillModalOpen} onClose={() => setIsCreateDrillModalOpen(false)} title="Create New Drill">
+                    <DrillForm onSave={handleCreateDrill} onClose={() => setIsCreateDrillModalOpen(false)} />
+                </Modal>
+                <Modal isOpen={isCreatePlanModalOpen} onClose={() => setIsCreatePlanModalOpen(false)} title="Create Practice Plan">
+                    <PracticePlanForm drills={drills} onSave={handleCreatePlan} onClose={() => setIsCreatePlanModalOpen(false)} />
+                </Modal>
+            </Dashboard>
+        </>
     );
 };
\ No newline at end of file
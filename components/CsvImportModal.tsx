@@ -0,0 +1,197 @@
+import React, { useState, useContext, useMemo } from 'react';
+import { DataContext } from '../contexts/DataContext';
+import { Player, Session } from '../types';
+import { Modal } from './Modal';
+import { DRILL_TYPES } from '../constants';
+import { formatDate } from '../utils/helpers';
+import { CSV_IMPORT_FIELDS, CsvColumnMapping, CsvImportField, parseCsv, guessColumnMapping, getMappingError, isSwingMapping, buildImportPreview } from '../utils/csvImport';
+
+interface CsvImportModalProps {
+  isOpen: boolean;
+  player: Player;
+  teamId: string;
+  existingSessions: Session[];
+  onClose: () => void;
+}
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+
+const ImportWizard: React.FC<Omit<CsvImportModalProps, 'isOpen'>> = ({ player, teamId, existingSessions, onClose }) => {
+    const { logSession } = useContext(DataContext)!;
+    const [step, setStep] = useState<ImportStep>('upload');
+    const [fileName, setFileName] = useState('');
+    const [csv, setCsv] = useState<{ headers: string[]; rows: string[][] }>({ headers: [], rows: [] });
+    const [mapping, setMapping] = useState<CsvColumnMapping>({});
+    const [defaultSessionName, setDefaultSessionName] = useState<string>('Machine');
+    const [includeDuplicates, setIncludeDuplicates] = useState(false);
+    const [error, setError] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [result, setResult] = useState({ saved: 0, failed: 0 });
+
+    const preview = useMemo(
+        () => step === 'preview' ? buildImportPreview(csv.headers, csv.rows, mapping, defaultSessionName, existingSessions) : null,
+        [step, csv, mapping, defaultSessionName, existingSessions]
+    );
+    const sessionsToSave = preview ? preview.sessions.filter(s => includeDuplicates || !s.duplicateOf) : [];
+    const duplicateCount = preview ? preview.sessions.filter(s => s.duplicateOf).length : 0;
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setError('');
+        const parsed = parseCsv(await file.text());
+        if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+            setError('That file has no data rows. Export a CSV with a header row and at least one row of data.');
+            return;
+        }
+        setFileName(file.name);
+        setCsv(parsed);
+        setMapping(guessColumnMapping(parsed.headers));
+        setStep('map');
+    };
+
+    const handleMappingChange = (field: CsvImportField, header: string) => {
+        setMapping(prev => {
+            const next = { ...prev };
+            if (header) next[field] = header; else delete next[field];
+            return next;
+        });
+    };
+
+    const handleShowPreview = () => {
+        const mappingError = getMappingError(mapping);
+        if (mappingError) {
+            setError(mappingError);
+            return;
+        }
+        setError('');
+        setStep('preview');
+    };
+
+    const handleImport = async () => {
+        setSaving(true);
+        let saved = 0;
+        // One at a time so offline imports queue in order.
+        for (const session of sessionsToSave) {
+            const newSession = await logSession({ playerId: player.id, teamId, name: session.name, date: session.date, sets: session.sets });
+            if (newSession) saved++;
+        }
+        setResult({ saved, failed: sessionsToSave.length - saved });
+        setSaving(false);
+        setStep('done');
+    };
+
+    if (step === 'upload') {
+        return (
+            <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                    Import sessions for <span className="font-semibold text-foreground">{player.name}</span> from a bat sensor, radar or pitching machine export.
+                    Each row can be a whole set (with a reps column) or a single swing.
+                </p>
+                <input type="file" accept=".csv,text/csv" onChange={e => handleFile(e.target.files?.[0])} className="block w-full text-sm text-muted-foreground file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:font-semibold file:bg-primary/20 file:text-primary hover:file:bg-primary/30" />
+                {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+        );
+    }
+
+    if (step === 'map') {
+        return (
+            <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                    Match the columns in <span className="font-semibold text-foreground">{fileName}</span> ({csv.rows.length} rows) to session fields. Leave a field unmapped to skip it.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {CSV_IMPORT_FIELDS.map(field => (
+                        <div key={field.key}>
+                            <label className="block text-sm font-medium text-muted-foreground">{field.label}{field.key === 'date' && ' *'}</label>
+                            <select value={mapping[field.key] || ''} onChange={e => handleMappingChange(field.key, e.target.value)} className="mt-1 block w-full bg-background border-input rounded-md py-2 px-3 text-sm">
+                                <option value="">Not mapped</option>
+                                {csv.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+                {!mapping.sessionName && (
+                    <div>
+                        <label className="block text-sm font-medium text-muted-foreground">Session Type</label>
+                        <select value={defaultSessionName} onChange={e => setDefaultSessionName(e.target.value)} className="mt-1 block w-full bg-background border-input rounded-md py-2 px-3 text-sm">
+                            {DRILL_TYPES.map(d => <option key={d}>{d}</option>)}
+                        </select>
+                    </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                    {isSwingMapping(mapping)
+                        ? 'No reps column is mapped, so each row is read as one swing. Swings without a result count as hard hits at 95+ mph exit velo.'
+                        : 'Each row is read as one set.'}
+                </p>
+                {error && <p className="text-sm text-destructive">{error}</p>}
+                <div className="flex justify-between">
+                    <button onClick={() => setStep('upload')} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg">Back</button>
+                    <button onClick={handleShowPreview} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-4 rounded-lg">Preview</button>
+                </div>
+            </div>
+        );
+    }
+
+    if (step === 'preview' && preview) {
+        return (
+            <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                    {preview.sessions.length} session{preview.sessions.length === 1 ? '' : 's'} found.
+                    {preview.errors.length > 0 && ` ${preview.errors.length} row${preview.errors.length === 1 ? '' : 's'} will be skipped.`}
+                </p>
+                {preview.errors.length > 0 && (
+                    <div className="bg-destructive/10 border border-destructive/30 rounded-lg p-3 max-h-40 overflow-y-auto">
+                        <h4 className="text-sm font-bold text-destructive mb-1">Rows with problems</h4>
+                        <ul className="text-xs text-destructive space-y-1">
+                            {preview.errors.map(e => <li key={e.row}>Row {e.row}: {e.message}</li>)}
+                        </ul>
+                    </div>
+                )}
+                <ul className="divide-y divide-border border border-border rounded-lg max-h-72 overflow-y-auto">
+                    {preview.sessions.map(session => {
+                        const reps = session.sets.reduce((sum, set) => sum + set.repsAttempted, 0);
+                        const executed = session.sets.reduce((sum, set) => sum + set.repsExecuted, 0);
+                        const skipped = session.duplicateOf && !includeDuplicates;
+                        return (
+                            <li key={session.key} className={`p-3 text-sm ${skipped ? 'opacity-50' : ''}`}>
+                                <div className="flex justify-between items-center">
+                                    <span className="font-semibold text-foreground">{session.name} &middot; {formatDate(session.date)}</span>
+                                    {session.duplicateOf && <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-accent/20 text-accent">Already logged</span>}
+                                </div>
+                                <p className="text-xs text-muted-foreground mt-1">
+                                    {session.sets.length} set{session.sets.length === 1 ? '' : 's'} &middot; {reps} reps &middot; {executed} executed &middot; from {session.rowCount} row{session.rowCount === 1 ? '' : 's'}
+                                </p>
+                            </li>
+                        );
+                    })}
+                </ul>
+                {duplicateCount > 0 && (
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <input type="checkbox" checked={includeDuplicates} onChange={e => setIncludeDuplicates(e.target.checked)} className="h-4 w-4 rounded border-input text-primary focus:ring-primary" />
+                        Import the {duplicateCount} session{duplicateCount === 1 ? '' : 's'} already logged on the same day anyway
+                    </label>
+                )}
+                <div className="flex justify-between">
+                    <button onClick={() => setStep('map')} disabled={saving} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg disabled:opacity-50">Back</button>
+                    <button onClick={handleImport} disabled={saving || sessionsToSave.length === 0} className="bg-secondary hover:bg-secondary/90 text-secondary-foreground font-bold py-2 px-4 rounded-lg disabled:opacity-50">
+                        {saving ? 'Importing...' : `Import ${sessionsToSave.length} Session${sessionsToSave.length === 1 ? '' : 's'}`}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4 text-center">
+            <p className="text-lg font-bold text-foreground">Imported {result.saved} session{result.saved === 1 ? '' : 's'}.</p>
+            {result.failed > 0 && <p className="text-sm text-destructive">{result.failed} session{result.failed === 1 ? '' : 's'} couldn't be saved. Try importing the file again.</p>}
+            <button onClick={onClose} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-4 rounded-lg">Done</button>
+        </div>
+    );
+};
+
+export const CsvImportModal: React.FC<CsvImportModalProps> = ({ isOpen, onClose, ...props }) => (
+    <Modal isOpen={isOpen} onClose={onClose} title="Import Sessions from CSV">
+        <ImportWizard {...props} onClose={onClose} />
+    </Modal>
+);
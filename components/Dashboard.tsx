@@ -2,33 +2,38 @@ import React, { useContext, useState } from 'react';
 import { DataContext } from '../contexts/DataContext';
 import { LogoutIcon } from './icons/LogoutIcon';
 import { Team } from '../types';
+import { AppRoute } from '../utils/routes';
+import { RouteLink } from './RouteLink';
+
+export interface NavItem {
+  name: string;
+  icon: React.ReactNode;
+  route: AppRoute;
+}
 
 interface SidebarNavProps {
-  navItems: { name: string; icon: React.ReactNode; view: string }[];
+  navItems: NavItem[];
   currentView: string;
-  setCurrentView: (view: string) => void;
+  onNavigate: () => void;
 }
 
-const SidebarNav: React.FC<SidebarNavProps> = ({ navItems, currentView, setCurrentView }) => {
+const SidebarNav: React.FC<SidebarNavProps> = ({ navItems, currentView, onNavigate }) => {
     return (
         <nav className="flex-1 px-2 space-y-1">
             {navItems.map((item) => (
-            <a
+            <RouteLink
                 key={item.name}
-                href="#"
-                onClick={(e) => {
-                e.preventDefault();
-                setCurrentView(item.view);
-                }}
+                to={item.route}
+                onClick={onNavigate}
                 className={`flex items-center px-3 py-2 text-sm font-medium rounded-md transition-colors ${
-                currentView === item.view
+                currentView === item.route.view
                     ? 'bg-primary text-primary-foreground'
                     : 'text-muted-foreground hover:bg-muted hover:text-foreground'
                 }`}
             >
                 {item.icon}
                 <span className="ml-3">{item.name}</span>
-            </a>
+            </RouteLink>
             ))}
         </nav>
     );
@@ -58,9 +63,8 @@ const TeamSwitcher: React.FC<TeamSwitcherProps> = ({ teams, activeTeamId, setAct
 
 interface DashboardProps {
     children: React.ReactNode;
-    navItems: { name: string; icon: React.ReactNode; view: string }[];
+    navItems: NavItem[];
     currentView: string;
-    setCurrentView: (view: string) => void;
     pageTitle: string;
     headerContent?: React.ReactNode;
     teams?: Team[];
@@ -68,7 +72,7 @@ interface DashboardProps {
     setActiveTeamId?: (teamId: string) => void;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ children, navItems, currentView, setCurrentView, pageTitle, headerContent, teams, activeTeamId, setActiveTeamId }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ children, navItems, currentView, pageTitle, headerContent, teams, activeTeamId, setActiveTeamId }) => {
   const { currentUser, logout } = useContext(DataContext)!;
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
@@ -81,7 +85,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ children, navItems, curren
           {teams && activeTeamId && setActiveTeamId && (
               <TeamSwitcher teams={teams} activeTeamId={activeTeamId} setActiveTeamId={setActiveTeamId} />
           )}
-          <SidebarNav navItems={navItems} currentView={currentView} setCurrentView={setCurrentView} />
+          <SidebarNav navItems={navItems} currentView={currentView} onNavigate={() => setSidebarOpen(false)} />
       </div>
       <div className="flex-shrink-0 flex border-t border-border p-4">
         <div className="flex-shrink-0 w-full group block">
@@ -109,7 +113,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ children, navItems, curren
                     <button onClick={() => setSidebarOpen(false)} className="ml-1 flex items-center justify-center h-10 w-10 rounded-full focus:outline-none focus:ring-2 focus:ring-inset focus:ring-white">
                         <span className="sr-only">Close sidebar</span>
                         <span className="text-white text-2xl">&times;</span>
-                    </}
+                    </button>
                 </div>
                 <SideContent />
             </div>
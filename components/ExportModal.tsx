@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Modal } from './Modal';
+import { downloadFile } from '../utils/export';
+
+export interface ExportOption {
+  label: string;
+  description: string;
+  format: 'CSV' | 'JSON';
+  fileName: string;
+  build: () => string; // Called on click so large exports aren't built until needed
+}
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  options: ExportOption[];
+}
+
+const MIME_TYPES: Record<ExportOption['format'], string> = {
+    CSV: 'text/csv;charset=utf-8',
+    JSON: 'application/json',
+};
+
+export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, title, options }) => {
+    const [emptyExport, setEmptyExport] = useState<string | null>(null);
+
+    const handleExport = (option: ExportOption) => {
+        const content = option.build();
+        if (!content) {
+            setEmptyExport(option.label);
+            return;
+        }
+        setEmptyExport(null);
+        downloadFile(option.fileName, content, MIME_TYPES[option.format]);
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={title}>
+            <ul className="divide-y divide-border">
+                {options.map(option => (
+                    <li key={option.label} className="py-3 flex justify-between items-center gap-4">
+                        <div>
+                            <p className="font-semibold text-foreground">{option.label}</p>
+                            <p className="text-sm text-muted-foreground">{option.description}</p>
+                            {emptyExport === option.label && <p className="text-xs text-destructive mt-1">Nothing to export yet.</p>}
+                        </div>
+                        <button onClick={() => handleExport(option)} className="flex-shrink-0 bg-primary/20 hover:bg-primary/30 text-primary font-bold py-2 px-4 rounded-lg text-sm">
+                            {option.format}
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </Modal>
+    );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { GoalMetric } from '../types';
+import { GoalForecast, formatDate, formatGoalMetricValue, isLowerBetterMetric } from '../utils/helpers';
+
+interface GoalForecastNoteProps {
+  metric: GoalMetric;
+  targetDate: string;
+  forecast: GoalForecast | null; // Null once the goal is settled, outside its window, or for habit metrics
+}
+
+const formatPace = (metric: GoalMetric, pace: number): string => {
+    const sign = pace > 0 ? '+' : '';
+    switch (metric) {
+        case 'Total Reps':
+            return `${pace} reps/day`;
+        case 'No Strikeouts':
+            return `${pace} K/day`;
+        default:
+            return `${sign}${pace}${metric.includes('%') ? ' pts' : ''}/day`;
+    }
+};
+
+// Projected finish and pace versus the pace the goal still needs.
+export const GoalForecastNote: React.FC<GoalForecastNoteProps> = ({ metric, targetDate, forecast }) => {
+    if (!forecast) return null;
+    const isLowerBetter = isLowerBetterMetric(metric);
+
+    let needed: string;
+    if (metric === 'No Strikeouts') {
+        needed = `at most ${formatPace(metric, Math.max(0, forecast.requiredPace))} allowed`;
+    } else if (isLowerBetter ? forecast.requiredPace >= 0 : forecast.requiredPace <= 0) {
+        needed = 'target reached, hold steady';
+    } else {
+        needed = `${formatPace(metric, forecast.requiredPace)} needed`;
+    }
+
+    return (
+        <div className="text-xs mt-2 space-y-0.5">
+            <p>
+                <span className={`font-semibold ${forecast.onTrack ? 'text-success' : 'text-destructive'}`}>{forecast.onTrack ? 'On track' : 'Behind pace'}</span>
+                <span className="text-muted-foreground"> &middot; projected {formatGoalMetricValue(metric, forecast.projectedValue)} by {formatDate(targetDate, { month: 'short', day: 'numeric' })}</span>
+            </p>
+            <p className="text-muted-foreground">
+                Pace {formatPace(metric, forecast.pace)} vs. {needed} &middot; {forecast.daysLeft} day{forecast.daysLeft === 1 ? '' : 's'} left
+            </p>
+        </div>
+    );
+};
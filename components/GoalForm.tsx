@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { PersonalGoal, GoalDetails, GoalMetric, DrillType, TargetZone } from '../types';
+import { TARGET_ZONES, DRILL_TYPES, GOAL_METRICS, GOAL_METRIC_DESCRIPTIONS } from '../constants';
+import { toDateKey } from '../utils/helpers';
+
+interface GoalFormProps {
+  onSave: (data: GoalDetails) => void;
+  initialGoal?: PersonalGoal; // Prefills the form when editing
+}
+
+// Older goals stored a full timestamp; the date input wants YYYY-MM-DD.
+const toDateInputValue = (date: string): string => /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : toDateKey(new Date(date));
+
+export const GoalForm: React.FC<GoalFormProps> = ({ onSave, initialGoal }) => {
+    const [metric, setMetric] = useState<GoalMetric>(initialGoal?.metric || 'Execution %');
+    const [targetValue, setTargetValue] = useState(initialGoal?.targetValue ?? 85);
+    const [targetDate, setTargetDate] = useState(initialGoal ? toDateInputValue(initialGoal.targetDate) : toDateKey(new Date(Date.now() + 30 * 86400000))); // 30 days from now
+    const [drillType, setDrillType] = useState<DrillType | undefined>(initialGoal?.drillType);
+    const [targetZones, setTargetZones] = useState<TargetZone[]>(initialGoal?.targetZones || []);
+    const [minReps, setMinReps] = useState<number | undefined>(initialGoal?.minReps);
+
+    const handleTargetZoneSelect = (zone: TargetZone) => {
+        setTargetZones(prev => prev.includes(zone) ? prev.filter(z => z !== zone) : [...prev, zone]);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const goalData: GoalDetails = {
+            metric,
+            targetValue,
+            targetDate,
+        };
+        if(drillType) goalData.drillType = drillType;
+        if(targetZones.length > 0) goalData.targetZones = targetZones;
+        if(minReps) goalData.minReps = minReps;
+        onSave(goalData);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-muted-foreground">Metric</label>
+                    <select value={metric} onChange={e => setMetric(e.target.value as GoalMetric)} className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm">
+                        {GOAL_METRICS.map(g => <option key={g} value={g}>{g}</option>)}
+                    </select>
+                    <p className="text-xs text-muted-foreground mt-1">{GOAL_METRIC_DESCRIPTIONS[metric]}</p>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-muted-foreground">Target Value</label>
+                    <input type="number" min={0} step="any" value={targetValue} onChange={e => setTargetValue(parseFloat(e.target.value))} required className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+                </div>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-muted-foreground">Target Date</label>
+                <input type="date" value={targetDate} onChange={e => setTargetDate(e.target.value)} required className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+            </div>
+            
+            <div>
+                <h4 className="text-md font-semibold text-muted-foreground border-b border-border pb-2 mb-3">Goal Specificity (Optional)</h4>
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-muted-foreground">Drill Type</label>
+                        <select value={drillType || ''} onChange={e => setDrillType(e.target.value as DrillType || undefined)} className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm">
+                            <option value="">Any Drill Type</option>
+                            {DRILL_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-muted-foreground">Minimum Reps per Session</label>
+                        <input type="number" min={1} value={minReps ?? ''} onChange={e => setMinReps(e.target.value ? parseInt(e.target.value) : undefined)} placeholder="Any session counts" className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-muted-foreground mb-2">Target Zones</label>
+                        <div className="grid grid-cols-3 gap-2">
+                            {TARGET_ZONES.map(zone => (
+                                <button type="button" key={zone} onClick={() => handleTargetZoneSelect(zone)} className={`p-2 text-xs rounded-md ${targetZones.includes(zone) ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80'}`}>{zone}</button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex justify-end pt-4">
+                 <button type="submit" className="py-2 px-4 bg-primary hover:bg-primary/90 text-primary-foreground rounded-md">Save Goal</button>
+            </div>
+        </form>
+    );
+};
@@ -0,0 +1,68 @@
+import React, { useContext } from 'react';
+import { DataContext } from '../contexts/DataContext';
+import { PersonalGoal, TeamGoal } from '../types';
+import { formatDate, formatGoalName, formatTeamGoalName, formatGoalMetricValue, getSettledGoals } from '../utils/helpers';
+
+type AnyGoal = PersonalGoal | TeamGoal;
+
+// Personal goals can carry a teamId too, so tell them apart by their owner.
+const isTeamGoal = (goal: AnyGoal): goal is TeamGoal => !('playerId' in goal);
+
+const getGoalTitle = (goal: AnyGoal): string => isTeamGoal(goal) ? goal.description : formatGoalName(goal);
+
+const formatGoalValue = (goal: AnyGoal, value: number): string => formatGoalMetricValue(goal.metric, value);
+
+const OutcomeBadge: React.FC<{ goal: AnyGoal }> = ({ goal }) => (
+    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${goal.completedAt ? 'bg-success/20 text-success' : 'bg-destructive/20 text-destructive'}`}>
+        {goal.completedAt ? 'Met' : 'Missed'}
+    </span>
+);
+
+// Announces goals that were met or missed since the user last looked, until they dismiss it.
+export const GoalOutcomeBanner: React.FC = () => {
+    const { getGoalOutcomeNotices, dismissGoalOutcomeNotices } = useContext(DataContext)!;
+    const { goals, teamGoals } = getGoalOutcomeNotices();
+    const notices = getSettledGoals<AnyGoal>([...goals, ...teamGoals]);
+    if (notices.length === 0) return null;
+
+    return (
+        <div className="bg-card border border-secondary/50 p-4 rounded-lg shadow-sm flex justify-between items-start gap-4">
+            <ul className="space-y-1">
+                {notices.map(goal => (
+                    <li key={goal.id} className="text-sm text-foreground flex items-center gap-2">
+                        <OutcomeBadge goal={goal} />
+                        <span>
+                            {isTeamGoal(goal) ? 'Team goal' : 'Your goal'} <span className="font-semibold">{getGoalTitle(goal)}</span>
+                            {goal.completedAt ? ' was met!' : ` ran out of time at ${formatGoalValue(goal, goal.finalValue ?? 0)} of ${formatGoalValue(goal, goal.targetValue)}.`}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+            <button onClick={() => dismissGoalOutcomeNotices()} className="text-sm text-primary hover:underline font-semibold shrink-0">Dismiss</button>
+        </div>
+    );
+};
+
+// Met and missed goals, most recent first.
+export const GoalHistory: React.FC<{ goals: AnyGoal[]; emptyText: string }> = ({ goals, emptyText }) => {
+    const settled = getSettledGoals<AnyGoal>(goals);
+    if (settled.length === 0) return <p className="text-muted-foreground text-center py-4 text-sm">{emptyText}</p>;
+
+    return (
+        <ul className="divide-y divide-border">
+            {settled.map(goal => (
+                <li key={goal.id} className="py-3 flex justify-between items-center gap-4">
+                    <div>
+                        <p className="font-semibold text-card-foreground">{getGoalTitle(goal)}</p>
+                        <p className="text-xs text-muted-foreground">
+                            {isTeamGoal(goal) && <>{formatTeamGoalName(goal)} | </>}
+                            {goal.finalValue !== undefined && <>{formatGoalValue(goal, goal.finalValue)} of </>}{formatGoalValue(goal, goal.targetValue)}
+                            {' '}&middot; {goal.completedAt ? `Met ${formatDate(goal.completedAt)}` : `Missed ${formatDate(goal.missedAt!)}`}
+                        </p>
+                    </div>
+                    <OutcomeBadge goal={goal} />
+                </li>
+            ))}
+        </ul>
+    );
+};
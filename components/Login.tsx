@@ -145,26 +145,29 @@ export const Login: React.FC = () => {
           </form>
         )}
         
-        <div className="relative">
-          <div className="absolute inset-0 flex items-center">
-            <div className="w-full border-t border-border"></div>
-          </div>
-          <div className="relative flex justify-center text-sm">
-            <span className="px-2 bg-card text-muted-foreground">
-              For Development
-            </span>
-          </div>
-        </div>
-
-        <div className="grid grid-cols-2 gap-3">
-          <button onClick={() => handleDevLogin(UserRole.Coach)} className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-accent-foreground bg-accent hover:bg-accent/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-accent focus:ring-offset-background">
-            Continue as Coach
-          </button>
-           <button onClick={() => handleDevLogin(UserRole.Player)} className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary focus:ring-offset-background">
-            Continue as Player
-          </button>
-        </div>
+        {context?.setDevUser && (
+          <>
+            <div className="relative">
+              <div className="absolute inset-0 flex items-center">
+                <div className="w-full border-t border-border"></div>
+              </div>
+              <div className="relative flex justify-center text-sm">
+                <span className="px-2 bg-card text-muted-foreground">
+                  For Development
+                </span>
+              </div>
+            </div>
 
+            <div className="grid grid-cols-2 gap-3">
+              <button onClick={() => handleDevLogin(UserRole.Coach)} className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-accent-foreground bg-accent hover:bg-accent/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-accent focus:ring-offset-background">
+                Continue as Coach
+              </button>
+               <button onClick={() => handleDevLogin(UserRole.Player)} className="w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-primary-foreground bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary focus:ring-offset-background">
+                Continue as Player
+              </button>
+            </div>
+          </>
+        )}
 
         <div className="text-center">
             <button onClick={toggleAuthMode} className="text-sm text-muted-foreground hover:text-secondary underline">
@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Legend, ResponsiveContainer } from 'recharts';
+import { Player, Session, Drill, PersonalGoal } from '../types';
+import { formatDate, summarizePlayerSessions, getPerformanceOverTime, getDrillSuccessRates, getCurrentMetricValue, calculateGoalProgress, formatGoalName, formatGoalMetricValue, calculateExecutionPercentage, calculateHardHitPercentage } from '../utils/helpers';
+import { PlayerRadarChart } from './PlayerRadarChart';
+
+interface PlayerReportProps {
+  player: Player;
+  teamName?: string;
+  sessions: Session[];
+  drills: Drill[];
+  goals: PersonalGoal[];
+  onClose: () => void;
+}
+
+const RECENT_SESSION_COUNT = 10;
+
+const ReportStat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div className="border border-border rounded-lg p-3 text-center">
+        <p className="text-xs font-semibold text-muted-foreground uppercase">{label}</p>
+        <p className="text-2xl font-bold text-foreground">{value}</p>
+    </div>
+);
+
+// A printable progress report. It renders outside the app root so printing picks up only the report.
+export const PlayerReport: React.FC<PlayerReportProps> = ({ player, teamName, sessions, drills, goals, onClose }) => {
+    useEffect(() => {
+        document.body.classList.add('printing-report');
+        return () => document.body.classList.remove('printing-report');
+    }, []);
+
+    const chronoSessions = useMemo(() => [...sessions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()), [sessions]);
+    const summary = useMemo(() => summarizePlayerSessions(sessions), [sessions]);
+    const performanceOverTime = useMemo(() => getPerformanceOverTime(sessions), [sessions]);
+    const drillSuccess = useMemo(() => getDrillSuccessRates(sessions, drills), [sessions, drills]);
+    const recentSessions = chronoSessions.slice(-RECENT_SESSION_COUNT).reverse();
+
+    return createPortal(
+        <div className="fixed inset-0 z-50 overflow-y-auto bg-background print:static print:overflow-visible">
+            <div className="max-w-4xl mx-auto p-8 space-y-8 print:p-0">
+                <div className="flex justify-end gap-3 print:hidden">
+                    <button onClick={() => window.print()} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-4 rounded-lg text-sm">Print</button>
+                    <button onClick={onClose} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg text-sm">Close</button>
+                </div>
+
+                <header className="border-b border-border pb-4">
+                    <p className="text-sm font-semibold text-muted-foreground uppercase">Player Progress Report</p>
+                    <h1 className="text-3xl font-black text-foreground">{player.name}</h1>
+                    <p className="text-sm text-muted-foreground mt-1">
+                        {teamName && <>{teamName} &middot; </>}
+                        Grad {player.profile.gradYear} &middot; Bats {player.profile.bats} &middot; Throws {player.profile.throws}
+                        {player.profile.position && <> &middot; {player.profile.position}</>}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                        {chronoSessions.length > 0
+                            ? `Sessions from ${formatDate(chronoSessions[0].date)} to ${formatDate(chronoSessions[chronoSessions.length - 1].date)}`
+                            : 'No sessions logged yet'}
+                        {' '}&middot; Generated {formatDate(new Date().toISOString())}
+                    </p>
+                </header>
+
+                <section className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                    <ReportStat label="Sessions" value={summary.sessions.toString()} />
+                    <ReportStat label="Total Reps" value={summary.reps.toString()} />
+                    <ReportStat label="Execution" value={`${summary.execPct}%`} />
+                    <ReportStat label="Hard Hit" value={`${summary.hardHitPct}%`} />
+                    <ReportStat label="Contact" value={`${summary.contactPct}%`} />
+                </section>
+
+                <section className="grid grid-cols-1 md:grid-cols-2 gap-6 break-inside-avoid">
+                    <PlayerRadarChart sessions={sessions} playerName={player.name} />
+                    <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
+                        <h3 className="text-lg font-bold text-primary mb-4 text-center">Performance Over Time</h3>
+                        <div style={{ width: '100%', height: 350 }}>
+                            <ResponsiveContainer>
+                                <LineChart data={performanceOverTime}>
+                                    <CartesianGrid stroke="hsl(var(--border))" strokeDasharray="3 3" />
+                                    <XAxis dataKey="name" stroke="hsl(var(--muted-foreground))" fontSize={12} tickLine={false} axisLine={false} />
+                                    <YAxis stroke="hsl(var(--muted-foreground))" unit="%" domain={[0, 100]} fontSize={12} tickLine={false} axisLine={false} />
+                                    <Legend wrapperStyle={{ fontSize: '14px' }} />
+                                    <Line type="monotone" dataKey="Execution %" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} isAnimationActive={false} />
+                                    <Line type="monotone" dataKey="Hard Hit %" stroke="hsl(var(--accent))" strokeWidth={2} dot={false} isAnimationActive={false} />
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+                    </div>
+                </section>
+
+                <section className="break-inside-avoid">
+                    <h2 className="text-xl font-bold text-foreground mb-3">Goals</h2>
+                    {goals.length > 0 ? (
+                        <table className="w-full text-sm">
+                            <thead className="text-left text-muted-foreground border-b border-border">
+                                <tr><th className="py-2">Goal</th><th>Current</th><th>Target</th><th>Progress</th><th>Due</th></tr>
+                            </thead>
+                            <tbody className="divide-y divide-border">
+                                {goals.map(goal => {
+                                    const currentValue = getCurrentMetricValue(goal, sessions, drills);
+                                    return (
+                                        <tr key={goal.id}>
+                                            <td className="py-2 font-semibold text-foreground">{formatGoalName(goal)}</td>
+                                            <td>{formatGoalMetricValue(goal.metric, currentValue)}</td>
+                                            <td>{formatGoalMetricValue(goal.metric, goal.targetValue)}</td>
+                                            <td>{Math.round(Math.min(calculateGoalProgress(goal, currentValue), 100))}%</td>
+                                            <td>{formatDate(goal.targetDate, { month: 'short', day: 'numeric', year: 'numeric' })}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    ) : <p className="text-sm text-muted-foreground">No goals set.</p>}
+                </section>
+
+                <section className="break-inside-avoid">
+                    <h2 className="text-xl font-bold text-foreground mb-3">Drill Success</h2>
+                    {drillSuccess.length > 0 ? (
+                        <table className="w-full text-sm">
+                            <thead className="text-left text-muted-foreground border-b border-border">
+                                <tr><th className="py-2">Drill</th><th>Sessions</th><th>Goal Met</th><th>Success Rate</th></tr>
+                            </thead>
+                            <tbody className="divide-y divide-border">
+                                {drillSuccess.map(rate => (
+                                    <tr key={rate.name}>
+                                        <td className="py-2 font-semibold text-foreground">{rate.name}</td>
+                                        <td>{rate.sessions}</td>
+                                        <td>{rate.successes}</td>
+                                        <td>{rate['Success Rate']}%</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    ) : <p className="text-sm text-muted-foreground">No assigned drills logged yet.</p>}
+                </section>
+
+                <section className="break-inside-avoid">
+                    <h2 className="text-xl font-bold text-foreground mb-3">Recent Sessions</h2>
+                    {recentSessions.length > 0 ? (
+                        <table className="w-full text-sm">
+                            <thead className="text-left text-muted-foreground border-b border-border">
+                                <tr><th className="py-2">Date</th><th>Session</th><th>Reps</th><th>Execution</th><th>Hard Hit</th></tr>
+                            </thead>
+                            <tbody className="divide-y divide-border">
+                                {recentSessions.map(session => (
+                                    <tr key={session.id}>
+                                        <td className="py-2">{formatDate(session.date, { month: 'short', day: 'numeric', year: 'numeric' })}</td>
+                                        <td className="font-semibold text-foreground">{session.name}</td>
+                                        <td>{session.sets.reduce((sum, set) => sum + set.repsAttempted, 0)}</td>
+                                        <td>{calculateExecutionPercentage(session.sets)}%</td>
+                                        <td>{calculateHardHitPercentage(session.sets)}%</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    ) : <p className="text-sm text-muted-foreground">No sessions logged yet.</p>}
+                </section>
+            </div>
+        </div>,
+        document.body
+    );
+};
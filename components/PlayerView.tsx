@@ -1,37 +1,48 @@
-import React, { useState, useContext, useMemo } from 'react';
+import React, { useState, useContext, useMemo, useEffect } from 'react';
 import { DataContext } from '../contexts/DataContext';
-import { Dashboard } from './Dashboard';
+import { Dashboard, NavItem } from './Dashboard';
+import { RouteLink } from './RouteLink';
+import { SessionDetail } from './SessionDetail';
+import { RouterContext } from '../contexts/RouterContext';
+import { DEFAULT_VIEW } from '../utils/routes';
 import { HomeIcon } from './icons/HomeIcon';
 import { ClipboardListIcon } from './icons/ClipboardListIcon';
 import { ChartBarIcon } from './icons/ChartBarIcon';
 import { PencilIcon } from './icons/PencilIcon';
-import { Drill, Session, SetResult, Player, DrillType, TargetZone, PitchType, CountSituation, BaseRunner, PersonalGoal, GoalType, TeamGoal } from '../types';
-import { formatDate, calculateExecutionPercentage, getSessionGoalProgress, calculateHardHitPercentage, getCurrentMetricValue, formatGoalName, calculateStrikeoutPercentage, getCurrentTeamMetricValue, formatTeamGoalName } from '../utils/helpers';
+import { Team, Drill, Session, SetResult, Player, DrillType, TargetZone, PitchType, CountSituation, BaseRunner, PersonalGoal, GoalDetails, TeamGoal, PlayerGroup, PracticePlan, SessionComment, RepResult, RepOutcome, BattedBallType } from '../types';
+import { formatDate, getPlanSteps, getBattedBalls, classifyLaunchAngle, getPlanTotalReps, splitSetReps, summarizeReps, getPerformanceOverTime, getDrillSuccessRates, calculateExecutionPercentage, calculateGoalProgress, getSessionGoalProgress, calculateHardHitPercentage, getCurrentMetricValue, formatGoalName, calculateStrikeoutPercentage, getCurrentTeamMetricValue, formatTeamGoalName, formatGoalMetricValue, getPersonalGoalForecast, getTeamGoalForecast, ALL_SEASONS, SeasonFilterValue, filterSessionsBySeason, filterGoalsBySeason, getSeasonComparison, getSeasonEndDate } from '../utils/helpers';
+import { applyAnalyticsFilters } from '../utils/analyticsFilters';
 import { AnalyticsCharts } from './AnalyticsCharts';
-import { TARGET_ZONES, PITCH_TYPES, COUNT_SITUATIONS, BASE_RUNNERS, OUTS_OPTIONS, DRILL_TYPES, GOAL_TYPES } from '../constants';
+import { TARGET_ZONES, PITCH_TYPES, COUNT_SITUATIONS, BASE_RUNNERS, OUTS_OPTIONS, DRILL_TYPES, REP_OUTCOMES, BATTED_BALL_TYPES, BATTED_BALL_TYPE_LABELS } from '../constants';
 import { PlayerRadarChart } from './PlayerRadarChart';
 import { Modal } from './Modal';
 import { StrikeZoneHeatmap } from './StrikeZoneHeatmap';
+import { SprayChart } from './SprayChart';
+import { BattedBallCharts } from './BattedBallCharts';
 import { BreakdownBar } from './BreakdownBar';
 import { SessionSaveAnimation } from './SessionSaveAnimation';
+import { AchievementsCard } from './Achievements';
+import { SessionEditModal } from './SessionEditModal';
+import { CsvImportModal } from './CsvImportModal';
+import { ExportModal, ExportOption } from './ExportModal';
+import { PlayerReport } from './PlayerReport';
+import { SeasonFilter } from './SeasonFilter';
+import { AnalyticsFilterBar, useAnalyticsFilters } from './AnalyticsFilterBar';
+import { SeasonComparisonChart } from './SeasonComparisonChart';
+import { GoalOutcomeBanner, GoalHistory } from './GoalOutcomes';
+import { GoalForecastNote } from './GoalForecastNote';
+import { GoalForm } from './GoalForm';
+import { getNewAchievements, EarnedAchievement } from '../utils/achievements';
+import { toCsv, getExportFileName, getSessionExportRows, getRepExportRows, getGoalProgressRows, buildPlayerJsonExport } from '../utils/export';
 
-const GoalProgress: React.FC<{ goal: PersonalGoal; sessions: Session[], drills: Drill[], onDelete: (goalId: string) => void; }> = ({ goal, sessions, drills, onDelete }) => {
+const GoalProgress: React.FC<{ goal: PersonalGoal; sessions: Session[], drills: Drill[], onDelete: (goalId: string) => void; onAcknowledge: (goalId: string) => void; }> = ({ goal, sessions, drills, onDelete, onAcknowledge }) => {
     const currentValue = getCurrentMetricValue(goal, sessions, drills);
+    const forecast = getPersonalGoalForecast(goal, sessions, drills);
     
-    let progress = 0;
-    if (goal.targetValue > 0) {
-        if (goal.metric === 'No Strikeouts') {
-            progress = Math.max(0, 100 - (currentValue / goal.targetValue * 100));
-        } else {
-            progress = (currentValue / goal.targetValue) * 100;
-        }
-    } else if (goal.metric === 'No Strikeouts' && goal.targetValue === 0) {
-        progress = currentValue === 0 ? 100 : 0;
-    }
+    const progress = calculateGoalProgress(goal, currentValue);
 
-    const isPercentage = goal.metric.includes('%');
-    const displayValue = isPercentage ? `${currentValue}%` : currentValue;
-    const displayTarget = isPercentage ? `${goal.targetValue}%` : goal.targetValue;
+    const displayValue = formatGoalMetricValue(goal.metric, currentValue);
+    const displayTarget = formatGoalMetricValue(goal.metric, goal.targetValue);
 
     return (
         <div className="bg-muted/50 p-3 rounded-lg">
@@ -39,8 +50,16 @@ const GoalProgress: React.FC<{ goal: PersonalGoal; sessions: Session[], drills:
                 <div>
                     <h4 className="font-semibold text-card-foreground">{formatGoalName(goal)}</h4>
                     <p className="text-xs text-muted-foreground">Target: {displayTarget} by {formatDate(goal.targetDate)}</p>
+                    {goal.assignedById && <p className="text-xs text-secondary font-semibold">Set by {goal.assignedByName || 'your coach'}</p>}
                 </div>
-                <button onClick={() => onDelete(goal.id)} className="text-muted-foreground hover:text-destructive text-lg font-bold">&times;</button>
+                {/* Coach-assigned goals can only be archived by the coach. */}
+                {goal.assignedById ? (
+                    !goal.acknowledgedAt && (
+                        <button onClick={() => onAcknowledge(goal.id)} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-1 px-3 rounded-lg text-xs shrink-0">Acknowledge</button>
+                    )
+                ) : (
+                    <button onClick={() => onDelete(goal.id)} className="text-muted-foreground hover:text-destructive text-lg font-bold">&times;</button>
+                )}
             </div>
             <div className="flex items-center gap-3 mt-2">
                 <div className="w-full bg-background rounded-full h-2.5">
@@ -48,33 +67,26 @@ const GoalProgress: React.FC<{ goal: PersonalGoal; sessions: Session[], drills:
                 </div>
                 <span className="text-sm font-bold text-primary">{displayValue}</span>
             </div>
+            <GoalForecastNote metric={goal.metric} targetDate={goal.targetDate} forecast={forecast} />
         </div>
     );
 };
 
-const TeamGoalProgress: React.FC<{ goal: TeamGoal; sessions: Session[]; drills: Drill[]; }> = ({ goal, sessions, drills }) => {
-    const currentValue = getCurrentTeamMetricValue(goal, sessions, drills);
+const TeamGoalProgress: React.FC<{ goal: TeamGoal; sessions: Session[]; drills: Drill[]; groups: PlayerGroup[]; }> = ({ goal, sessions, drills, groups }) => {
+    const currentValue = getCurrentTeamMetricValue(goal, sessions, drills, groups);
+    const forecast = getTeamGoalForecast(goal, sessions, drills, groups);
+    const group = groups.find(g => g.id === goal.groupId);
     
-    let progress = 0;
-    if (goal.targetValue > 0) {
-        if (goal.metric === 'No Strikeouts') {
-            progress = Math.max(0, 100 - (currentValue / goal.targetValue * 100));
-        } else {
-            progress = (currentValue / goal.targetValue) * 100;
-        }
-    } else if (goal.metric === 'No Strikeouts' && goal.targetValue === 0) {
-        progress = currentValue === 0 ? 100 : 0;
-    }
+    const progress = calculateGoalProgress(goal, currentValue);
 
-    const isPercentage = goal.metric.includes('%');
-    const displayValue = isPercentage ? `${Math.round(currentValue)}%` : Math.round(currentValue);
-    const displayTarget = isPercentage ? `${goal.targetValue}%` : goal.targetValue;
+    const displayValue = formatGoalMetricValue(goal.metric, currentValue);
+    const displayTarget = formatGoalMetricValue(goal.metric, goal.targetValue);
 
     return (
         <div className="bg-muted/50 p-3 rounded-lg">
             <div>
                 <h4 className="font-semibold text-card-foreground">{goal.description}</h4>
-                <p className="text-xs text-muted-foreground">{formatTeamGoalName(goal)} | Target: {displayTarget} by {formatDate(goal.targetDate)}</p>
+                <p className="text-xs text-muted-foreground">{group && `${group.name} | `}{formatTeamGoalName(goal)} | Target: {displayTarget} by {formatDate(goal.targetDate)}</p>
             </div>
             <div className="flex items-center gap-3 mt-2">
                 <div className="w-full bg-background rounded-full h-2.5">
@@ -82,6 +94,7 @@ const TeamGoalProgress: React.FC<{ goal: TeamGoal; sessions: Session[]; drills:
                 </div>
                 <span className="text-sm font-bold text-primary">{displayValue}</span>
             </div>
+            <GoalForecastNote metric={goal.metric} targetDate={goal.targetDate} forecast={forecast} />
         </div>
     );
 };
@@ -89,16 +102,31 @@ const TeamGoalProgress: React.FC<{ goal: TeamGoal; sessions: Session[]; drills:
 const PlayerDashboard: React.FC<{
     player: Player;
     assignedDrills: Drill[];
+    assignedPlans: PracticePlan[];
     recentSessions: Session[];
+    careerSessions: Session[];
     drills: Drill[];
     goals: PersonalGoal[];
     teamGoals: TeamGoal[];
     teamSessions: Session[];
+    groups: PlayerGroup[];
     onStartAssignedSession: (drill: Drill) => void;
-}> = ({ player, assignedDrills, recentSessions, drills, goals, teamGoals, teamSessions, onStartAssignedSession }) => {
+    onStartPlan: (plan: PracticePlan) => void;
+}> = ({ player, assignedDrills, assignedPlans, recentSessions, careerSessions, drills, goals, teamGoals, teamSessions, groups, onStartAssignedSession, onStartPlan }) => {
     
     const [isGoalModalOpen, setIsGoalModalOpen] = useState(false);
-    const { createGoal, deleteGoal } = useContext(DataContext)!;
+    const { createGoal, deleteGoal, acknowledgeGoal, getUnreadComments } = useContext(DataContext)!;
+
+    // Newest unread message per session, so a long back-and-forth shows up once.
+    const latestUnreadBySession = new Map<string, SessionComment>();
+    getUnreadComments().forEach(c => {
+        const latest = latestUnreadBySession.get(c.sessionId);
+        if (!latest || c.createdAt > latest.createdAt) latestUnreadBySession.set(c.sessionId, c);
+    });
+    const unreadFeedback = [...latestUnreadBySession.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const activeGoals = goals.filter(g => g.status === 'Active');
+    const activeTeamGoals = teamGoals.filter(g => g.status === 'Active');
     
     const overallExecutionPct = useMemo(() => {
         const allSets = recentSessions.flatMap(s => s.sets);
@@ -106,10 +134,11 @@ const PlayerDashboard: React.FC<{
         return calculateExecutionPercentage(allSets);
     }, [recentSessions]);
 
-    const handleCreateGoal = (goalData: Omit<PersonalGoal, 'id' | 'playerId' | 'status' | 'startDate'>) => {
+    const handleCreateGoal = (goalData: GoalDetails) => {
         createGoal({
             ...goalData,
             playerId: player.id,
+            ...(player.teamIds.length > 0 && { teamId: player.teamIds[0] }),
             status: 'Active',
             startDate: new Date().toISOString()
         });
@@ -125,18 +154,60 @@ const PlayerDashboard: React.FC<{
 
     return (
         <div className="space-y-8">
+            <GoalOutcomeBanner />
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-                <StatCard title="Drills for Today" value={assignedDrills.length.toString()} />
+                <StatCard title="Drills for Today" value={(assignedDrills.length + assignedPlans.length).toString()} />
                 <StatCard title="Overall Execution" value={`${overallExecutionPct}%`} />
-                <StatCard title="Active Goals" value={goals.length.toString()} />
+                <StatCard title="Active Goals" value={activeGoals.length.toString()} />
             </div>
+
+            {unreadFeedback.length > 0 && (
+                <div className="bg-card border border-secondary/50 p-4 rounded-lg shadow-sm">
+                    <h2 className="text-lg font-bold text-primary mb-2">Coach Feedback</h2>
+                    <ul className="divide-y divide-border">
+                        {unreadFeedback.map(comment => {
+                            const session = recentSessions.find(s => s.id === comment.sessionId);
+                            return (
+                                <li key={comment.sessionId} className="py-3">
+                                    <div className="flex justify-between items-center gap-2">
+                                        <RouteLink to={{ view: 'sessions', id: comment.sessionId }} className="font-semibold text-primary hover:underline">{session ? session.name : 'View session'}</RouteLink>
+                                        <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-secondary/20 text-secondary">New</span>
+                                    </div>
+                                    <p className="text-sm text-muted-foreground mt-1 truncate">
+                                        <span className="font-semibold text-foreground">{comment.authorName}:</span> {comment.body}
+                                    </p>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            )}
             
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                 <div className="space-y-8">
                     <div>
                         <h2 className="text-xl font-bold text-foreground mb-4">Today's Drills</h2>
-                        {assignedDrills.length > 0 ? (
+                        {assignedDrills.length + assignedPlans.length > 0 ? (
                             <div className="space-y-4">
+                                {assignedPlans.map(plan => {
+                                    const steps = getPlanSteps(plan, drills);
+                                    return (
+                                        <div key={plan.id} className="bg-card border border-secondary/50 p-4 rounded-lg shadow-sm flex flex-col justify-between">
+                                            <div>
+                                                <div className="flex justify-between items-start">
+                                                    <h3 className="font-bold text-primary">{plan.name}</h3>
+                                                    <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-secondary/20 text-secondary">Plan</span>
+                                                </div>
+                                                {plan.description && <p className="text-sm text-muted-foreground mt-1">{plan.description}</p>}
+                                                <p className="text-xs text-card-foreground mt-3"><strong>Drills:</strong> {steps.map(step => step.drill.name).join(' → ')}</p>
+                                                <p className="text-xs text-card-foreground"><strong>Volume:</strong> {getPlanTotalReps(plan, drills)} reps</p>
+                                            </div>
+                                            <button onClick={() => onStartPlan(plan)} disabled={steps.length === 0} className="w-full mt-4 bg-secondary hover:bg-secondary/90 text-secondary-foreground font-bold py-2 px-4 rounded-lg text-sm disabled:opacity-50">
+                                                Start Workout
+                                            </button>
+                                        </div>
+                                    );
+                                })}
                                 {assignedDrills.map(drill => (
                                     <div key={drill.id} className="bg-card border border-border p-4 rounded-lg shadow-sm flex flex-col justify-between">
                                         <div>
@@ -159,9 +230,9 @@ const PlayerDashboard: React.FC<{
                      <div>
                         <h2 className="text-xl font-bold text-foreground mb-4">Active Team Goals</h2>
                         <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
-                            {teamGoals.length > 0 ? (
+                            {activeTeamGoals.length > 0 ? (
                                 <div className="space-y-4">
-                                    {teamGoals.map(g => <TeamGoalProgress key={g.id} goal={g} sessions={teamSessions} drills={drills} />)}
+                                    {activeTeamGoals.map(g => <TeamGoalProgress key={g.id} goal={g} sessions={teamSessions} drills={drills} groups={groups} />)}
                                 </div>
                             ) : (
                                 <div className="text-center text-muted-foreground py-6">
@@ -177,17 +248,23 @@ const PlayerDashboard: React.FC<{
                          <button onClick={() => setIsGoalModalOpen(true)} className="bg-accent hover:bg-accent/90 text-accent-foreground font-bold py-1 px-3 text-sm rounded-lg">+ Set Goal</button>
                     </div>
                      <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
-                        {goals.length > 0 ? (
+                        {activeGoals.length > 0 ? (
                              <div className="space-y-4">
-                                {goals.map(g => <GoalProgress key={g.id} goal={g} sessions={recentSessions} drills={drills} onDelete={deleteGoal} />)}
+                                {activeGoals.map(g => <GoalProgress key={g.id} goal={g} sessions={recentSessions} drills={drills} onDelete={deleteGoal} onAcknowledge={acknowledgeGoal} />)}
                             </div>
                         ) : (
                              <div className="text-center text-muted-foreground py-6">
-                                <p>You haven't set any goals yet.</p>
+                                <p>You don't have any active goals.</p>
                                 <p className="text-sm">Click "+ Set Goal" to get started!</p>
                             </div>
                         )}
                     </div>
+                    <h2 className="text-xl font-bold text-foreground mt-8 mb-4">Goal History</h2>
+                    <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
+                        <GoalHistory goals={[...goals, ...teamGoals]} emptyText="Goals you meet or miss will show up here." />
+                    </div>
+                    <h2 className="text-xl font-bold text-foreground mt-8 mb-4">Achievements</h2>
+                    <AchievementsCard sessions={careerSessions} />
                 </div>
             </div>
 
@@ -198,74 +275,12 @@ const PlayerDashboard: React.FC<{
     );
 };
 
-const GoalForm: React.FC<{ onSave: (data: Omit<PersonalGoal, 'id' | 'playerId' | 'status' | 'startDate'>) => void; }> = ({ onSave }) => {
-    const [metric, setMetric] = useState<GoalType>('Execution %');
-    const [targetValue, setTargetValue] = useState(85);
-    const [targetDate, setTargetDate] = useState(new Date(Date.now() + 30 * 86400000).toISOString().split('T')[0]); // 30 days from now
-    const [drillType, setDrillType] = useState<DrillType | undefined>(undefined);
-    const [targetZones, setTargetZones] = useState<TargetZone[]>([]);
-
-    const handleTargetZoneSelect = (zone: TargetZone) => {
-        setTargetZones(prev => prev.includes(zone) ? prev.filter(z => z !== zone) : [...prev, zone]);
-    };
-
-    const handleSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
-        const goalData: Omit<PersonalGoal, 'id' | 'playerId' | 'status' | 'startDate'> = {
-            metric,
-            targetValue,
-            targetDate,
-        };
-        if(drillType) goalData.drillType = drillType;
-        if(targetZones.length > 0) goalData.targetZones = targetZones;
-        onSave(goalData);
-    };
-
-    return (
-        <form onSubmit={handleSubmit} className="space-y-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                    <label className="block text-sm font-medium text-muted-foreground">Metric</label>
-                    <select value={metric} onChange={e => setMetric(e.target.value as GoalType)} className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm">
-                        {GOAL_TYPES.map(g => <option key={g} value={g}>{g}</option>)}
-                    </select>
-                </div>
-                <div>
-                    <label className="block text-sm font-medium text-muted-foreground">Target Value</label>
-                    <input type="number" value={targetValue} onChange={e => setTargetValue(parseInt(e.target.value))} required className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
-                </div>
-            </div>
-            <div>
-                <label className="block text-sm font-medium text-muted-foreground">Target Date</label>
-                <input type="date" value={targetDate} onChange={e => setTargetDate(e.target.value)} required className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
-            </div>
-            
-            <div>
-                <h4 className="text-md font-semibold text-muted-foreground border-b border-border pb-2 mb-3">Goal Specificity (Optional)</h4>
-                <div className="space-y-4">
-                    <div>
-                        <label className="block text-sm font-medium text-muted-foreground">Drill Type</label>
-                        <select value={drillType || ''} onChange={e => setDrillType(e.target.value as DrillType || undefined)} className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm">
-                            <option value="">Any Drill Type</option>
-                            {DRILL_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
-                        </select>
-                    </div>
-                    <div>
-                        <label className="block text-sm font-medium text-muted-foreground mb-2">Target Zones</label>
-                        <div className="grid grid-cols-3 gap-2">
-                            {TARGET_ZONES.map(zone => (
-                                <button type="button" key={zone} onClick={() => handleTargetZoneSelect(zone)} className={`p-2 text-xs rounded-md ${targetZones.includes(zone) ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80'}`}>{zone}</button>
-                            ))}
-                        </div>
-                    </div>
-                </div>
-            </div>
-
-            <div className="flex justify-end pt-4">
-                 <button type="submit" className="py-2 px-4 bg-primary hover:bg-primary/90 text-primary-foreground rounded-md">Save Goal</button>
-            </div>
-        </form>
-    );
+const REP_OUTCOME_STYLES: Record<RepOutcome, string> = {
+    'Executed': 'bg-primary/20 hover:bg-primary/30 text-primary',
+    'Hard Hit': 'bg-success/20 hover:bg-success/30 text-success',
+    'Whiff': 'bg-destructive/20 hover:bg-destructive/30 text-destructive',
+    'Foul': 'bg-accent/20 hover:bg-accent/30 text-accent',
+    'Take': 'bg-muted hover:bg-muted/80 text-muted-foreground',
 };
 
 const LogSession: React.FC<{
@@ -287,23 +302,73 @@ const LogSession: React.FC<{
     const [currentSet, setCurrentSet] = useState<SetResult>(initialSet);
     const [loggedSets, setLoggedSets] = useState<SetResult[]>([]);
 
+    // Pitch-by-pitch mode records each rep and derives the set's counts from them.
+    const [isPitchMode, setIsPitchMode] = useState(false);
+    const [currentReps, setCurrentReps] = useState<RepResult[]>([]);
+    const [repPitchType, setRepPitchType] = useState<PitchType | undefined>();
+    const [repZone, setRepZone] = useState<TargetZone | undefined>();
+    const [repNotes, setRepNotes] = useState('');
+    const [repExitVelo, setRepExitVelo] = useState('');
+    const [repLaunchAngle, setRepLaunchAngle] = useState('');
+    const [repSprayAngle, setRepSprayAngle] = useState('');
+    const [repBattedBallType, setRepBattedBallType] = useState<BattedBallType | undefined>();
+    // Batted-ball type follows the launch angle unless picked by hand.
+    const effectiveBattedBallType = repBattedBallType || (repLaunchAngle.trim() !== '' && !isNaN(Number(repLaunchAngle)) ? classifyLaunchAngle(Number(repLaunchAngle)) : undefined);
+    // An assigned drill limits the choices to what it calls for.
+    const repPitchOptions = isAssigned && pitchTypes.length > 0 ? pitchTypes : PITCH_TYPES;
+    const repZoneOptions = isAssigned && targetZones.length > 0 ? targetZones : TARGET_ZONES;
+
     const handleMultiSelect = <T extends string>(setter: React.Dispatch<React.SetStateAction<T[]>>, value: T) => {
         if (isAssigned) return;
         setter(prev => prev.includes(value) ? prev.filter(v => v !== value) : [...prev, value]);
     };
     
-    const handleAddSet = () => {
-        const setWithContext: SetResult = {
-            ...currentSet,
-            targetZones, pitchTypes, outs, countSituation: count, baseRunners: runners,
+    const handleLogRep = (outcome: RepOutcome) => {
+        const rep: RepResult = { outcome };
+        if (repPitchType) rep.pitchType = repPitchType;
+        if (repZone) rep.zone = repZone;
+        if (repNotes.trim()) rep.notes = repNotes.trim();
+        // Whiffs and takes never put the ball in play.
+        if (outcome !== 'Whiff' && outcome !== 'Take') {
+            const parseMeasurement = (value: string) => value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+            rep.exitVelo = parseMeasurement(repExitVelo);
+            rep.launchAngle = parseMeasurement(repLaunchAngle);
+            rep.sprayAngle = parseMeasurement(repSprayAngle);
+            rep.battedBallType = effectiveBattedBallType;
+        }
+        setCurrentReps(prev => [...prev, rep]);
+        setRepNotes('');
+        setRepExitVelo('');
+        setRepLaunchAngle('');
+        setRepSprayAngle('');
+        setRepBattedBallType(undefined);
+    };
+
+    const buildCurrentSet = (): SetResult => {
+        const setWithContext: SetResult = { ...currentSet, targetZones, pitchTypes, outs, countSituation: count, baseRunners: runners };
+        if (!isPitchMode) return setWithContext;
+        const summary = summarizeReps(currentReps);
+        return {
+            ...setWithContext,
+            ...summary,
+            // Reps logged without a pitch type or zone fall back to the set's selections.
+            pitchTypes: summary.pitchTypes!.length > 0 ? summary.pitchTypes : pitchTypes,
+            targetZones: summary.targetZones!.length > 0 ? summary.targetZones : targetZones,
+            reps: currentReps,
         };
-        const newLoggedSets = [...loggedSets, setWithContext];
+    };
+
+    const handleAddSet = () => {
+        if (isPitchMode && currentReps.length === 0) return;
+        const newLoggedSets = [...loggedSets, buildCurrentSet()];
         setLoggedSets(newLoggedSets);
         setCurrentSet({ ...initialSet, setNumber: newLoggedSets.length + 1 });
+        setCurrentReps([]);
     };
 
     const handleSaveSession = () => {
-        const finalSets = loggedSets.length > 0 ? loggedSets : [{...currentSet, targetZones, pitchTypes, outs, countSituation: count, baseRunners: runners}];
+        const hasUnsavedReps = isPitchMode && currentReps.length > 0;
+        const finalSets = hasUnsavedReps ? [...loggedSets, buildCurrentSet()] : loggedSets.length > 0 ? loggedSets : [buildCurrentSet()];
         onSave({
             drillId: assignedDrill?.id,
             name: assignedDrill?.name || drillType,
@@ -322,6 +387,7 @@ const LogSession: React.FC<{
         </div>
     );
     
+    const repTally = summarizeReps(currentReps);
     const totalReps = loggedSets.reduce((sum, s) => sum + s.repsAttempted, 0);
     const totalExec = loggedSets.reduce((sum, s) => sum + s.repsExecuted, 0);
 
@@ -334,7 +400,7 @@ const LogSession: React.FC<{
                         {DRILL_TYPES.map(d => <button type="button" key={d} disabled={isAssigned} onClick={() => setDrillType(d)} className={`px-4 py-2 text-sm font-semibold rounded-full transition-colors ${drillType === d ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80 disabled:opacity-70'}`}>{d}</button>)}
                     </div>
                 </div>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {!isPitchMode && <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
                         <h3 className="font-semibold text-muted-foreground mb-2">Target Zone (Optional)</h3>
                         <div className="grid grid-cols-3 gap-2">
@@ -347,7 +413,7 @@ const LogSession: React.FC<{
                            {PITCH_TYPES.map(p => <button type="button" key={p} disabled={isAssigned} onClick={() => handleMultiSelect(setPitchTypes, p)} className={`p-2 text-xs rounded-md ${pitchTypes.includes(p) ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80 disabled:opacity-70'}`}>{p}</button>)}
                         </div>
                     </div>
-                </div>
+                </div>}
             </div>
 
             <div className="bg-card border border-border p-4 rounded-lg shadow-sm space-y-4">
@@ -375,18 +441,82 @@ const LogSession: React.FC<{
             </div>
             
             <div className="bg-card border border-border p-4 rounded-lg shadow-sm space-y-4">
-                 <h3 className="font-semibold text-muted-foreground mb-2">Log Set #{currentSet.setNumber}</h3>
+                 <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                     <h3 className="font-semibold text-muted-foreground">Log Set #{currentSet.setNumber}</h3>
+                     <div className="flex gap-1 bg-muted p-1 rounded-lg">
+                         <button type="button" disabled={currentReps.length > 0} onClick={() => setIsPitchMode(false)} className={`px-3 py-1 text-xs font-semibold rounded-md disabled:opacity-50 ${!isPitchMode ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground'}`}>Totals</button>
+                         <button type="button" onClick={() => setIsPitchMode(true)} className={`px-3 py-1 text-xs font-semibold rounded-md ${isPitchMode ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground'}`}>Pitch by Pitch</button>
+                     </div>
+                 </div>
+                 {isPitchMode ? (
+                     <div className="space-y-4">
+                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                             <div>
+                                 <label className="text-sm font-semibold text-muted-foreground">Pitch</label>
+                                 <div className="grid grid-cols-3 gap-2 mt-2">
+                                     {repPitchOptions.map(p => <button type="button" key={p} onClick={() => setRepPitchType(prev => prev === p ? undefined : p)} className={`p-2 text-xs rounded-md ${repPitchType === p ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80'}`}>{p}</button>)}
+                                 </div>
+                             </div>
+                             <div>
+                                 <label className="text-sm font-semibold text-muted-foreground">Zone</label>
+                                 <div className="grid grid-cols-3 gap-2 mt-2">
+                                     {repZoneOptions.map(z => <button type="button" key={z} onClick={() => setRepZone(prev => prev === z ? undefined : z)} className={`p-2 text-xs rounded-md ${repZone === z ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80'}`}>{z}</button>)}
+                                 </div>
+                             </div>
+                         </div>
+                         <div>
+                             <label className="text-sm font-semibold text-muted-foreground">Batted Ball (Optional)</label>
+                             <div className="grid grid-cols-3 gap-2 mt-2">
+                                 <input type="number" value={repExitVelo} onChange={e => setRepExitVelo(e.target.value)} placeholder="Exit velo (mph)" className="block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+                                 <input type="number" value={repLaunchAngle} onChange={e => setRepLaunchAngle(e.target.value)} placeholder="Launch angle (°)" className="block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+                                 <input type="number" min={-45} max={45} value={repSprayAngle} onChange={e => setRepSprayAngle(e.target.value)} placeholder="Spray (-45 LF to 45 RF)" className="block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+                             </div>
+                             <div className="grid grid-cols-4 gap-2 mt-2">
+                                 {BATTED_BALL_TYPES.map(t => <button type="button" key={t} title={BATTED_BALL_TYPE_LABELS[t]} onClick={() => setRepBattedBallType(prev => prev === t ? undefined : t)} className={`p-2 text-xs rounded-md ${effectiveBattedBallType === t ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80'}`}>{t}</button>)}
+                             </div>
+                         </div>
+                         <input type="text" value={repNotes} onChange={e => setRepNotes(e.target.value)} placeholder="Note for this rep (optional)" className="block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+                         <div>
+                             <label className="text-sm font-semibold text-muted-foreground">Result</label>
+                             <div className="grid grid-cols-3 md:grid-cols-5 gap-2 mt-2">
+                                 {REP_OUTCOMES.map(outcome => (
+                                     <button type="button" key={outcome} onClick={() => handleLogRep(outcome)} className={`py-3 text-sm font-bold rounded-lg ${REP_OUTCOME_STYLES[outcome]}`}>{outcome}</button>
+                                 ))}
+                             </div>
+                         </div>
+                         {currentReps.length > 0 && (
+                             <div>
+                                 <div className="flex justify-between items-center text-sm">
+                                     <span className="font-semibold text-foreground">
+                                         {repTally.repsAttempted} reps &middot; {repTally.repsExecuted} exec &middot; {repTally.hardHits} HH &middot; {repTally.strikeouts} whiff
+                                     </span>
+                                     <button type="button" onClick={() => setCurrentReps(prev => prev.slice(0, -1))} className="text-xs font-semibold text-muted-foreground hover:text-destructive">Undo Last</button>
+                                 </div>
+                                 <ol className="mt-2 max-h-32 overflow-y-auto text-xs text-muted-foreground space-y-1">
+                                     {currentReps.map((rep, i) => (
+                                         <li key={i}>
+                                             <span className="font-semibold text-foreground">#{i + 1} {rep.outcome}</span>
+                                             {[rep.pitchType, rep.zone].filter(Boolean).map(tag => ` · ${tag}`).join('')}
+                                             {rep.notes && ` · "${rep.notes}"`}
+                                         </li>
+                                     ))}
+                                 </ol>
+                             </div>
+                         )}
+                     </div>
+                 ) : (
                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                      <Stepper label="Reps" value={currentSet.repsAttempted} onChange={(v) => setCurrentSet(s=>({...s, repsAttempted: v}))} readOnly={isAssigned}/>
                      <Stepper label="Executions" value={currentSet.repsExecuted} onChange={(v) => setCurrentSet(s=>({...s, repsExecuted: v}))} max={currentSet.repsAttempted} />
                      <Stepper label="Hard Hits" value={currentSet.hardHits} onChange={(v) => setCurrentSet(s=>({...s, hardHits: v}))} max={currentSet.repsAttempted}/>
                      <Stepper label="Strikeouts" value={currentSet.strikeouts} onChange={(v) => setCurrentSet(s=>({...s, strikeouts: v}))} max={currentSet.repsAttempted}/>
                  </div>
+                 )}
                  <div className="pt-4">
                     <label className="text-sm font-semibold text-muted-foreground">Grade Your Set ({currentSet.grade})</label>
                     <input type="range" min="1" max="10" value={currentSet.grade} onChange={e => setCurrentSet(s=>({...s, grade: parseInt(e.target.value)}))} className="w-full h-2 bg-muted rounded-lg appearance-none cursor-pointer mt-2"/>
                  </div>
-                 <button onClick={handleAddSet} className="w-full bg-primary/20 hover:bg-primary/30 text-primary font-bold py-2 px-4 rounded-lg text-sm">+ Add Set</button>
+                 <button onClick={handleAddSet} disabled={isPitchMode && currentReps.length === 0} className="w-full bg-primary/20 hover:bg-primary/30 text-primary font-bold py-2 px-4 rounded-lg text-sm disabled:opacity-50">+ Add Set</button>
             </div>
             
              {loggedSets.length > 0 && (
@@ -399,7 +529,7 @@ const LogSession: React.FC<{
                                <span>Reps: {s.repsAttempted}</span>
                                <span>Exec: {s.repsExecuted}</span>
                                <span>HH: {s.hardHits}</span>
-                               <span>Grade: {s.grade}</span>
+                               <span>{s.reps ? `${s.strikeouts} whiff` : `Grade: ${s.grade}`}</span>
                            </li>
                         ))}
                     </ul>
@@ -408,37 +538,150 @@ const LogSession: React.FC<{
 
             <div className="flex justify-end gap-4">
                 <button onClick={onCancel} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-6 rounded-lg">Cancel</button>
-                <button onClick={handleSaveSession} className="bg-secondary hover:bg-secondary/90 text-secondary-foreground font-bold py-2 px-6 rounded-lg">Save Session</button>
+                <button onClick={handleSaveSession} disabled={isPitchMode && currentReps.length === 0 && loggedSets.length === 0} className="bg-secondary hover:bg-secondary/90 text-secondary-foreground font-bold py-2 px-6 rounded-lg disabled:opacity-50">Save Session</button>
             </div>
         </div>
     );
 };
 
-const SessionHistory: React.FC<{ sessions: Session[]; drills: Drill[]; }> = ({ sessions, drills }) => {
+const PlanRun: React.FC<{
+    plan: PracticePlan;
+    drills: Drill[];
+    onLogStep: (sessionData: { name: string; drillId?: string; sets: SetResult[] }) => Promise<Session | undefined>;
+    onFinish: (sessions: Session[]) => void;
+    onCancel: () => void;
+}> = ({ plan, drills, onLogStep, onFinish, onCancel }) => {
+    const steps = useMemo(() => getPlanSteps(plan, drills), [plan, drills]);
+    const [stepIndex, setStepIndex] = useState(0);
+    const [loggedSessions, setLoggedSessions] = useState<Session[]>([]);
+    const [restRemaining, setRestRemaining] = useState<number | null>(null);
+
+    useEffect(() => {
+        if (restRemaining === null) return;
+        if (restRemaining <= 0) {
+            setRestRemaining(null);
+            return;
+        }
+        const timer = setTimeout(() => setRestRemaining(prev => prev === null ? null : prev - 1), 1000);
+        return () => clearTimeout(timer);
+    }, [restRemaining]);
+
+    const handleSaveStep = async (sessionData: { name: string; drillId?: string; sets: SetResult[] }) => {
+        const session = await onLogStep(sessionData);
+        const sessions = session ? [...loggedSessions, session] : loggedSessions;
+        setLoggedSessions(sessions);
+        if (stepIndex >= steps.length - 1) {
+            onFinish(sessions);
+            return;
+        }
+        const rest = steps[stepIndex].item.restSeconds;
+        if (rest) setRestRemaining(rest);
+        setStepIndex(stepIndex + 1);
+    };
+
+    // Leaving partway still shows the summary for whatever was logged.
+    const handleEnd = () => {
+        if (loggedSessions.length > 0) onFinish(loggedSessions);
+        else onCancel();
+    };
+
+    if (steps.length === 0) {
+        return (
+            <div className="bg-card border border-border p-6 rounded-lg shadow-sm text-center text-muted-foreground">
+                <p>This plan has no drills to run. Ask your coach to update it.</p>
+                <button onClick={onCancel} className="mt-4 bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-6 rounded-lg">Back</button>
+            </div>
+        );
+    }
+
+    const { item, drill } = steps[stepIndex];
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
+                <div className="flex justify-between items-center mb-3">
+                    <h2 className="font-bold text-foreground">{plan.name}</h2>
+                    <button onClick={handleEnd} className="text-sm text-muted-foreground hover:text-destructive font-semibold">End Workout</button>
+                </div>
+                <ol className="flex flex-wrap gap-2">
+                    {steps.map((step, index) => (
+                        <li key={`${step.drill.id}-${index}`} className={`px-3 py-1 text-xs font-semibold rounded-full ${index < stepIndex ? 'bg-success/20 text-success' : index === stepIndex ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'}`}>
+                            {index + 1}. {step.drill.name}
+                        </li>
+                    ))}
+                </ol>
+            </div>
+
+            {restRemaining !== null ? (
+                <div className="bg-card border border-border p-8 rounded-lg shadow-sm text-center">
+                    <p className="text-lg font-medium text-muted-foreground">Rest</p>
+                    <p className="text-6xl font-bold text-secondary my-4">{restRemaining}s</p>
+                    <p className="text-muted-foreground">Up next: <span className="font-semibold text-foreground">{drill.name}</span></p>
+                    <button onClick={() => setRestRemaining(null)} className="mt-6 bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-6 rounded-lg">Skip Rest</button>
+                </div>
+            ) : (
+                <>
+                    <div className="bg-primary/10 border border-primary/30 p-4 rounded-lg">
+                        <p className="text-xs font-semibold text-primary uppercase tracking-wide">Drill {stepIndex + 1} of {steps.length}</p>
+                        <h3 className="text-lg font-bold text-foreground">{drill.name}</h3>
+                        <p className="text-sm text-muted-foreground">{drill.sets} sets of {drill.repsPerSet} reps &middot; Goal: {drill.goalType} &gt;= {drill.goalTargetValue}{drill.goalType.includes('%') ? '%' : ''}</p>
+                        {item.notes && <p className="text-sm text-foreground mt-2"><strong>Coach:</strong> {item.notes}</p>}
+                    </div>
+                    <LogSession key={stepIndex} assignedDrill={drill} onSave={handleSaveStep} onCancel={handleEnd} />
+                </>
+            )}
+        </div>
+    );
+};
+
+const SessionHistory: React.FC<{ sessions: Session[]; drills: Drill[]; isPendingSync: (sessionId: string) => boolean; hasSyncFailed: (sessionId: string) => boolean; }> = ({ sessions, drills, isPendingSync, hasSyncFailed }) => {
+    const { canEditSession, getUnreadComments } = useContext(DataContext)!;
+    const [editingSession, setEditingSession] = useState<Session | null>(null);
+    const unreadSessionIds = new Set(getUnreadComments().map(c => c.sessionId));
+
     return (
         <div>
+            <SessionEditModal session={editingSession} onClose={() => setEditingSession(null)} />
             <div className="bg-card border border-border rounded-lg shadow-sm overflow-hidden">
                 <ul className="divide-y divide-border">
                     {sessions.length > 0 ? sessions.map(session => {
                         const drill = drills.find(d => d.id === session.drillId);
                         const progress = drill 
                             ? getSessionGoalProgress(session, drill) 
-                            : { value: calculateExecutionPercentage(session.sets), isSuccess: calculateExecutionPercentage(session.sets) >= 70 };
+                            : { value: calculateExecutionPercentage(session.sets), isSuccess: calculateExecutionPercentage(session.sets) >= 70, goalType: 'Execution %' as const };
                         
-                        const goalType = drill ? drill.goalType : "Execution %";
+                        const goalType = drill ? progress.goalType : "Execution %";
 
                         return (
                             <li key={session.id} className="p-4 grid grid-cols-3 items-center gap-4">
                                 <div className="col-span-1">
-                                    <p className="font-semibold text-primary">{session.name}</p>
+                                    <RouteLink to={{ view: 'sessions', id: session.id }} className="font-semibold text-primary hover:underline">{session.name}</RouteLink>
                                     <p className="text-sm text-muted-foreground">{formatDate(session.date)}</p>
+                                    <div className="flex items-center gap-2 mt-1">
+                                        {isPendingSync(session.id) && (hasSyncFailed(session.id) ? (
+                                            <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-destructive/20 text-destructive" title="Saved on this device, but the upload was rejected. It will be retried when you're back online.">
+                                                Sync Failed
+                                            </span>
+                                        ) : (
+                                            <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-accent/20 text-accent" title="Saved on this device. It will upload when you're back online.">
+                                                Pending Sync
+                                            </span>
+                                        ))}
+                                        {unreadSessionIds.has(session.id) && (
+                                            <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-secondary/20 text-secondary">New Feedback</span>
+                                        )}
+                                        {session.updatedAt && <span className="text-xs text-muted-foreground italic">Edited</span>}
+                                        {canEditSession(session) && (
+                                            <button onClick={() => setEditingSession(session)} className="text-xs text-primary hover:underline font-semibold">Edit</button>
+                                        )}
+                                    </div>
                                 </div>
                                 <div className="text-center">
                                     <p className="text-sm text-muted-foreground">Exec %</p>
                                     <p className="font-bold text-lg text-foreground">{calculateExecutionPercentage(session.sets)}%</p>
                                 </div>
                                 <div className={`text-center px-3 py-1 text-sm font-semibold rounded-full ${progress.isSuccess ? 'bg-success/20 text-success' : 'bg-destructive/20 text-destructive'}`}>
-                                    {goalType}: {progress.value}{drill?.goalType.includes('%') ? '%' : ''}
+                                    {goalType}: {progress.value}{drill && goalType.includes('%') ? '%' : ''}
                                 </div>
                             </li>
                         );
@@ -506,81 +749,140 @@ const JoinTeam: React.FC = () => {
 };
 
 export const PlayerView: React.FC = () => {
-    const [currentView, setCurrentView] = useState('dashboard');
+    const { route, navigate } = useContext(RouterContext)!;
     const { 
         currentUser, 
+        getTeam,
         getAssignedDrillsForPlayerToday, 
+        getAssignedPlansForPlayerToday,
         getSessionsForPlayer,
         getSessionsForTeam,
         getDrillsForTeam,
         getGoalsForPlayer,
         getTeamGoals,
-        logSession
+        getGroupsForTeam,
+        logSession,
+        isSessionPendingSync,
+        hasSessionSyncFailed
     } = useContext(DataContext)!;
 
-    const [drillToLog, setDrillToLog] = useState<Drill | null>(null);
+    const [planToRun, setPlanToRun] = useState<{ plan: PracticePlan; runId: string } | null>(null);
     const [lastSavedSession, setLastSavedSession] = useState<Session | null>(null);
+    const [completedPlan, setCompletedPlan] = useState<{ name: string; sessions: Session[] } | null>(null);
+    const [newAchievements, setNewAchievements] = useState<EarnedAchievement[]>([]);
+    const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+    const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    const [filters, setFilters] = useAnalyticsFilters();
 
     const player = currentUser as Player;
     const teamId = player.teamIds.length > 0 ? player.teamIds[0] : undefined; 
+    const team = teamId ? getTeam(teamId) : undefined;
+    // Sessions from earlier teams are placed in seasons by their own team's history.
+    const playerTeams = useMemo(() => player.teamIds.map(id => getTeam(id)).filter((t): t is Team => !!t), [player.teamIds, getTeam]);
+
+    // No season in the filters means the season in progress, including right after a rollover.
+    const seasonFilter: SeasonFilterValue = filters.season ?? team?.seasonYear ?? ALL_SEASONS;
+    const setSeasonFilter = (season: SeasonFilterValue) => setFilters(prev => ({ ...prev, season: season === team?.seasonYear ? undefined : season }));
 
     const assignedDrills = useMemo(() => teamId ? getAssignedDrillsForPlayerToday(player.id, teamId) : [], [player.id, teamId, getAssignedDrillsForPlayerToday]);
+    const assignedPlans = useMemo(() => teamId ? getAssignedPlansForPlayerToday(player.id, teamId) : [], [player.id, teamId, getAssignedPlansForPlayerToday]);
     const sessions = useMemo(() => getSessionsForPlayer(player.id).sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()), [player.id, getSessionsForPlayer]);
     const teamSessions = useMemo(() => teamId ? getSessionsForTeam(teamId) : [], [teamId, getSessionsForTeam]);
     const allTeamDrills = useMemo(() => teamId ? getDrillsForTeam(teamId) : [], [teamId, getDrillsForTeam]);
     const goals = useMemo(() => getGoalsForPlayer(player.id), [player.id, getGoalsForPlayer]);
-    const teamGoals = useMemo(() => teamId ? getTeamGoals(teamId) : [], [teamId, getTeamGoals]);
+    const groups = useMemo(() => teamId ? getGroupsForTeam(teamId) : [], [teamId, getGroupsForTeam]);
+    // Group goals only show for players in that group.
+    const teamGoals = useMemo(() => (teamId ? getTeamGoals(teamId) : [])
+        .filter(g => !g.groupId || groups.some(group => group.id === g.groupId && group.playerIds.includes(player.id))),
+    [teamId, getTeamGoals, groups, player.id]);
 
+    // The dashboard follows the season filter and analytics the whole filter bar; history and exports always cover everything.
+    const seasonSessions = useMemo(() => filterSessionsBySeason(sessions, playerTeams, seasonFilter), [sessions, playerTeams, seasonFilter]);
+    const seasonTeamSessions = useMemo(() => filterSessionsBySeason(teamSessions, playerTeams, seasonFilter), [teamSessions, playerTeams, seasonFilter]);
+    const seasonGoals = useMemo(() => filterGoalsBySeason(goals, team, seasonFilter), [goals, team, seasonFilter]);
+    const seasonTeamGoals = useMemo(() => filterGoalsBySeason(teamGoals, team, seasonFilter), [teamGoals, team, seasonFilter]);
+    // Presets count back from the end of a closed season rather than from today.
+    const rangeEnd = useMemo(() => (team && getSeasonEndDate(team, seasonFilter)) || new Date(), [team, seasonFilter]);
+    const analyticsSessions = useMemo(() => applyAnalyticsFilters(seasonSessions, filters, allTeamDrills, [], rangeEnd), [seasonSessions, filters, allTeamDrills, rangeEnd]);
+    // Compares every season, so it ignores the season and date range but follows the other filters.
+    const seasonComparison = useMemo(() => getSeasonComparison(applyAnalyticsFilters(sessions, { ...filters, range: 'all' }, allTeamDrills), playerTeams), [sessions, filters, allTeamDrills, playerTeams]);
 
+
+    // Players only see their own team, so their links leave the team out. A drill link opens it ready to log.
     const handleStartAssignedSession = (drill: Drill) => {
-        setDrillToLog(drill);
-        setCurrentView('log_session');
+        setPlanToRun(null);
+        navigate({ view: 'drills', id: drill.id });
     };
     
     const handleStartAdHocSession = () => {
-        setDrillToLog(null);
-        setCurrentView('log_session');
+        setPlanToRun(null);
+        navigate({ view: 'log' });
+    };
+
+    const handleStartPlan = (plan: PracticePlan) => {
+        setPlanToRun({ plan, runId: `run-${Date.now()}-${Math.random().toString(36).substring(2, 8)}` });
+        navigate({ view: 'log' });
     };
 
     const handleCancelLogSession = () => {
-        setCurrentView('dashboard');
+        setPlanToRun(null);
+        navigate({ view: DEFAULT_VIEW });
     }
 
-    const handleLogSession = (sessionData: { name: string; drillId?: string; sets: SetResult[] }) => {
-        if (!teamId) return;
-        const newSession = logSession({
+    const saveSession = (sessionData: { name: string; drillId?: string; sets: SetResult[] }) => {
+        if (!teamId) return Promise.resolve(undefined);
+        return logSession({
             ...sessionData,
             playerId: player.id,
             teamId: teamId,
-            date: new Date().toISOString()
+            date: new Date().toISOString(),
+            ...(planToRun && { planId: planToRun.plan.id, planRunId: planToRun.runId }),
         });
+    };
+
+    const handleLogSession = async (sessionData: { name: string; drillId?: string; sets: SetResult[] }) => {
+        const newSession = await saveSession(sessionData);
         if (newSession) {
+            setNewAchievements(getNewAchievements([...sessions, newSession], [newSession]));
             setLastSavedSession(newSession);
         }
     };
+
+    const handleFinishPlan = (planSessions: Session[]) => {
+        if (!planToRun) return;
+        setNewAchievements(getNewAchievements([...sessions, ...planSessions], planSessions));
+        setCompletedPlan({ name: planToRun.plan.name, sessions: planSessions });
+        setPlanToRun(null);
+    };
     
     const handleCloseAnimation = () => {
         setLastSavedSession(null);
-        setCurrentView('dashboard');
+        setCompletedPlan(null);
+        setNewAchievements([]);
+        navigate({ view: DEFAULT_VIEW });
     };
 
-    const navItems = [
-        { name: 'Dashboard', icon: <HomeIcon />, view: 'dashboard' },
-        { name: 'Log Session', icon: <PencilIcon />, view: 'log_session' },
-        { name: 'History', icon: <ClipboardListIcon />, view: 'history' },
-        { name: 'Analytics', icon: <ChartBarIcon />, view: 'analytics' },
+    const navItems: NavItem[] = [
+        { name: 'Dashboard', icon: <HomeIcon />, route: { view: 'dashboard' } },
+        { name: 'Log Session', icon: <PencilIcon />, route: { view: 'log' } },
+        { name: 'History', icon: <ClipboardListIcon />, route: { view: 'history' } },
+        { name: 'Analytics', icon: <ChartBarIcon />, route: { view: 'analytics' } },
     ];
+
+    // Links a coach sends can point at a drill or a session; anything else unknown falls back to the dashboard.
+    const currentView = route.view === 'drills' ? 'log' : route.view === 'sessions' ? 'history' : navItems.some(item => item.route.view === route.view) ? route.view : DEFAULT_VIEW;
+    const drillToLog = route.view === 'drills' ? allTeamDrills.find(d => d.id === route.id) || null : null;
     
      const pageTitles: { [key: string]: string } = {
         dashboard: `Welcome, ${player.name.split(' ')[0]}!`,
-        log_session: drillToLog ? `Log: ${drillToLog.name}` : 'Log Ad-Hoc Session',
+        log: planToRun ? `Workout: ${planToRun.plan.name}` : drillToLog ? `Log: ${drillToLog.name}` : 'Log Ad-Hoc Session',
         history: 'My Session History',
         analytics: 'My Analytics'
     };
     
     const analyticsData = useMemo(() => {
-        const chronoSessions = [...sessions].reverse();
-        const allSets = sessions.flatMap(s => s.sets);
+        const allSets = analyticsSessions.flatMap(s => s.sets);
 
         const kpi = {
             execPct: calculateExecutionPercentage(allSets),
@@ -588,34 +890,15 @@ export const PlayerView: React.FC = () => {
             contactPct: 100 - calculateStrikeoutPercentage(allSets),
         };
 
-        const performanceOverTimeData = chronoSessions.map(s => ({
-            name: formatDate(s.date, { month: 'short', day: 'numeric' }),
-            'Execution %': calculateExecutionPercentage(s.sets),
-            'Hard Hit %': calculateHardHitPercentage(s.sets),
-        }));
-        
-        const drillSuccessMap = new Map<string, { success: number, total: number }>();
-        sessions.forEach(session => {
-            const drill = allTeamDrills.find(d => d.id === session.drillId);
-            if (drill) {
-                const { isSuccess } = getSessionGoalProgress(session, drill);
-                const entry = drillSuccessMap.get(drill.name) || { success: 0, total: 0 };
-                entry.total++;
-                if (isSuccess) entry.success++;
-                drillSuccessMap.set(drill.name, entry);
-            }
-        });
-        const drillSuccessData = Array.from(drillSuccessMap.entries()).map(([name, data]) => ({
-            name,
-            'Success Rate': data.total > 0 ? Math.round((data.success / data.total) * 100) : 0,
-        }));
+        const performanceOverTimeData = getPerformanceOverTime(analyticsSessions);
+        const drillSuccessData = getDrillSuccessRates(analyticsSessions, allTeamDrills);
         
         const byDrillType: { [key in DrillType]?: { executed: number, attempted: number } } = {};
         const byPitchType: { [key in PitchType]?: { executed: number, attempted: number } } = {};
         const byCount: { [key in CountSituation]: { executed: number, attempted: number } } = { 'Ahead': { executed: 0, attempted: 0 }, 'Even': { executed: 0, attempted: 0 }, 'Behind': { executed: 0, attempted: 0 } };
         const byZone: { [key in TargetZone]?: { executed: number, attempted: number } } = {};
 
-        sessions.forEach(session => {
+        analyticsSessions.forEach(session => {
             let drillType: DrillType | undefined;
             if (session.drillId) {
                 const drill = allTeamDrills.find(d => d.id === session.drillId);
@@ -635,25 +918,17 @@ export const PlayerView: React.FC = () => {
                 byCount[situation].executed += set.repsExecuted;
                 byCount[situation].attempted += set.repsAttempted;
 
-                if (set.pitchTypes && set.pitchTypes.length > 0) {
-                    const repsPerType = set.repsAttempted / set.pitchTypes.length;
-                    const execPerType = set.repsExecuted / set.pitchTypes.length;
-                    set.pitchTypes.forEach(pitch => {
-                        if (!byPitchType[pitch]) byPitchType[pitch] = { executed: 0, attempted: 0 };
-                        byPitchType[pitch]!.executed += execPerType;
-                        byPitchType[pitch]!.attempted += repsPerType;
-                    });
-                }
+                splitSetReps(set, 'pitchTypes').forEach(({ value: pitch, attempted, executed }) => {
+                    if (!byPitchType[pitch]) byPitchType[pitch] = { executed: 0, attempted: 0 };
+                    byPitchType[pitch]!.executed += executed;
+                    byPitchType[pitch]!.attempted += attempted;
+                });
 
-                if (set.targetZones && set.targetZones.length > 0) {
-                    const repsPerZone = set.repsAttempted / set.targetZones.length;
-                    const execPerZone = set.repsExecuted / set.targetZones.length;
-                    set.targetZones.forEach(zone => {
-                        if (!byZone[zone]) byZone[zone] = { executed: 0, attempted: 0 };
-                        byZone[zone]!.executed += execPerZone;
-                        byZone[zone]!.attempted += repsPerZone;
-                    });
-                }
+                splitSetReps(set, 'targetZones').forEach(({ value: zone, attempted, executed }) => {
+                    if (!byZone[zone]) byZone[zone] = { executed: 0, attempted: 0 };
+                    byZone[zone]!.executed += executed;
+                    byZone[zone]!.attempted += attempted;
+                });
             });
         });
 
@@ -673,42 +948,77 @@ export const PlayerView: React.FC = () => {
         const byCountData = calculateBreakdownData(byCount);
         const byZoneData = calculateBreakdownData(byZone).map(d => ({...d, zone: d.name as TargetZone, topPlayers: []}));
         
-        return { kpi, performanceOverTimeData, drillSuccessData, byDrillTypeData, byPitchTypeData, byCountData, byZoneData };
-    }, [sessions, allTeamDrills]);
+        const battedBalls = getBattedBalls(analyticsSessions);
+        
+        return { kpi, performanceOverTimeData, drillSuccessData, byDrillTypeData, byPitchTypeData, byCountData, byZoneData, battedBalls };
+    }, [analyticsSessions, allTeamDrills]);
 
     if (!teamId) {
         return <JoinTeam />;
     }
 
+    const seasonFilterSelect = team?.pastSeasons?.length ? <SeasonFilter team={team} value={seasonFilter} onChange={setSeasonFilter} /> : null;
+
     const headerContent = currentView === 'dashboard' ? (
-        <button 
-            onClick={handleStartAdHocSession} 
-            className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-4 rounded-lg text-sm shadow-sm transition-transform hover:scale-105"
-        >
-            Start Ad-Hoc Session
-        </button>
+        <div className="flex items-center gap-3">
+            {seasonFilterSelect}
+            <button 
+                onClick={handleStartAdHocSession} 
+                className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-4 rounded-lg text-sm shadow-sm transition-transform hover:scale-105"
+            >
+                Start Ad-Hoc Session
+            </button>
+        </div>
+    ) : route.view === 'history' ? (
+        <div className="flex items-center gap-3">
+            <button onClick={() => setIsImportModalOpen(true)} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg text-sm">Import CSV</button>
+            <button onClick={() => setIsExportModalOpen(true)} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg text-sm">Export</button>
+        </div>
+    ) : currentView === 'analytics' ? (
+        <div className="flex items-center gap-3">
+            <button onClick={() => setIsReportOpen(true)} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg text-sm">Print Report</button>
+        </div>
     ) : null;
 
+    const exportOptions: ExportOption[] = [
+        { label: 'Session History', description: 'Every set you have logged with its counts and situation.', format: 'CSV', fileName: getExportFileName(player.name, 'sessions', 'csv'), build: () => toCsv(getSessionExportRows(sessions, [player], allTeamDrills)) },
+        { label: 'Rep Detail', description: 'Every rep you have logged pitch by pitch, with outcome, pitch, zone and batted-ball readings.', format: 'CSV', fileName: getExportFileName(player.name, 'reps', 'csv'), build: () => toCsv(getRepExportRows(sessions, [player])) },
+        { label: 'Goal Progress', description: 'Your goals with current values and progress.', format: 'CSV', fileName: getExportFileName(player.name, 'goals', 'csv'), build: () => toCsv(getGoalProgressRows({ players: [player], sessions, drills: allTeamDrills, personalGoals: goals })) },
+        { label: 'All My Data', description: 'Sessions, goals and summaries as structured JSON.', format: 'JSON', fileName: getExportFileName(player.name, 'data', 'json'), build: () => JSON.stringify(buildPlayerJsonExport({ player, sessions, drills: allTeamDrills, goals }), null, 2) },
+    ];
+
     const renderContent = () => {
         switch(currentView) {
             case 'dashboard':
                 return <PlayerDashboard 
                     player={player}
                     assignedDrills={assignedDrills}
-                    recentSessions={sessions}
+                    assignedPlans={assignedPlans}
+                    recentSessions={seasonSessions}
+                    careerSessions={sessions}
                     drills={allTeamDrills}
-                    goals={goals}
-                    teamGoals={teamGoals}
-                    teamSessions={teamSessions}
+                    goals={seasonGoals}
+                    teamGoals={seasonTeamGoals}
+                    teamSessions={seasonTeamSessions}
+                    groups={groups}
                     onStartAssignedSession={handleStartAssignedSession}
+                    onStartPlan={handleStartPlan}
                 />;
-            case 'log_session':
-                return <LogSession assignedDrill={drillToLog} onSave={handleLogSession} onCancel={handleCancelLogSession} />;
+            case 'log':
+                if (planToRun) {
+                    return <PlanRun key={planToRun.runId} plan={planToRun.plan} drills={allTeamDrills} onLogStep={saveSession} onFinish={handleFinishPlan} onCancel={handleCancelLogSession} />;
+                }
+                return <LogSession key={drillToLog?.id || 'ad-hoc'} assignedDrill={drillToLog} onSave={handleLogSession} onCancel={handleCancelLogSession} />;
             case 'history':
-                return <SessionHistory sessions={sessions} drills={allTeamDrills} />;
+                if (route.view === 'sessions') {
+                    return <SessionDetail session={sessions.find(s => s.id === route.id)} playerSessions={sessions} drills={allTeamDrills} backRoute={{ view: 'history' }} backLabel="Back to History" />;
+                }
+                return <SessionHistory sessions={sessions} drills={allTeamDrills} isPendingSync={isSessionPendingSync} hasSyncFailed={hasSessionSyncFailed} />;
             case 'analytics':
                  return (
                     <div className="space-y-8">
+                        <AnalyticsFilterBar filters={filters} onChange={setFilters} team={team} />
+                        {seasonComparison.length > 1 && <SeasonComparisonChart data={seasonComparison} />}
                         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                             <div className="lg:col-span-1 flex flex-col gap-4">
                                 <KPICard title="Overall Execution %" value={`${analyticsData.kpi.execPct}%`} description="Successfully executed reps vs. total reps." />
@@ -716,7 +1026,7 @@ export const PlayerView: React.FC = () => {
                                 <KPICard title="Overall Contact %" value={`${analyticsData.kpi.contactPct}%`} description="Percentage of reps without a strikeout." />
                             </div>
                             <div className="lg:col-span-2">
-                                <PlayerRadarChart sessions={sessions} playerName={player.name} />
+                                <PlayerRadarChart sessions={analyticsSessions} playerName={player.name} />
                             </div>
                         </div>
 
@@ -728,8 +1038,9 @@ export const PlayerView: React.FC = () => {
                         <div>
                             <h2 className="text-2xl font-bold text-foreground mb-4">Performance Breakdowns</h2>
                             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-4">
-                                <div className="lg:col-span-1">
+                                <div className="lg:col-span-1 flex flex-col gap-6">
                                     <StrikeZoneHeatmap data={analyticsData.byZoneData} battingSide={player.profile.bats} />
+                                    {analyticsData.battedBalls.length > 0 && <SprayChart battedBalls={analyticsData.battedBalls} />}
                                 </div>
                                 <div className="lg:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-6 content-start">
                                     <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
@@ -753,6 +1064,13 @@ export const PlayerView: React.FC = () => {
                                 </div>
                             </div>
                         </div>
+
+                        {analyticsData.battedBalls.length > 0 && (
+                            <div>
+                                <h2 className="text-2xl font-bold text-foreground mb-4">Batted Balls</h2>
+                                <BattedBallCharts battedBalls={analyticsData.battedBalls} />
+                            </div>
+                        )}
                     </div>
                 );
             default:
@@ -765,13 +1083,15 @@ export const PlayerView: React.FC = () => {
             <Dashboard 
                 navItems={navItems} 
                 currentView={currentView} 
-                setCurrentView={setCurrentView}
-                pageTitle={pageTitles[currentView]}
+                pageTitle={route.view === 'sessions' ? 'Session Details' : pageTitles[currentView]}
                 headerContent={headerContent}
             >
                 {renderContent()}
             </Dashboard>
-            <SessionSaveAnimation session={lastSavedSession} onClose={handleCloseAnimation} />
+            <SessionSaveAnimation session={lastSavedSession} plan={completedPlan} achievements={newAchievements} onClose={handleCloseAnimation} />
+            <CsvImportModal isOpen={isImportModalOpen} player={player} teamId={teamId} existingSessions={sessions} onClose={() => setIsImportModalOpen(false)} />
+            <ExportModal isOpen={isExportModalOpen} onClose={() => setIsExportModalOpen(false)} title="Export My Data" options={exportOptions} />
+            {isReportOpen && <PlayerReport player={player} sessions={analyticsSessions} drills={allTeamDrills} goals={seasonGoals} onClose={() => setIsReportOpen(false)} />}
         </>
     );
 };
@@ -0,0 +1,21 @@
+import React, { useContext } from 'react';
+import { RouterContext } from '../contexts/RouterContext';
+import { AppRoute, buildPath } from '../utils/routes';
+
+interface RouteLinkProps extends Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  to: AppRoute;
+}
+
+// A real link, so middle-click and "copy link" work; plain clicks navigate in place.
+export const RouteLink: React.FC<RouteLinkProps> = ({ to, onClick, children, ...props }) => {
+    const { navigate } = useContext(RouterContext)!;
+
+    const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+        onClick?.(e);
+        if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+        e.preventDefault();
+        navigate(to);
+    };
+
+    return <a href={buildPath(to)} onClick={handleClick} {...props}>{children}</a>;
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ChartCard } from './AnalyticsCharts';
+import { SeasonComparison } from '../utils/helpers';
+
+interface SeasonComparisonChartProps {
+    data: SeasonComparison[];
+}
+
+export const SeasonComparisonChart: React.FC<SeasonComparisonChartProps> = ({ data }) => (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+            <ChartCard title="Season over Season">
+                <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={data}>
+                        <CartesianGrid stroke="hsl(var(--border))" strokeDasharray="3 3" />
+                        <XAxis dataKey="name" stroke="hsl(var(--muted-foreground))" fontSize={12} tickLine={false} axisLine={false} />
+                        <YAxis stroke="hsl(var(--muted-foreground))" unit="%" domain={[0, 100]} fontSize={12} tickLine={false} axisLine={false} />
+                        <Tooltip contentStyle={{ backgroundColor: 'hsl(var(--popover))', borderColor: 'hsl(var(--border))' }} formatter={(value) => `${value}%`} />
+                        <Legend wrapperStyle={{ fontSize: '14px' }} />
+                        <Bar dataKey="Execution %" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                        <Bar dataKey="Hard Hit %" fill="hsl(var(--accent))" radius={[4, 4, 0, 0]} />
+                        <Bar dataKey="Contact %" fill="hsl(var(--secondary))" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                </ResponsiveContainer>
+            </ChartCard>
+        </div>
+        <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
+            <h3 className="text-lg font-bold text-primary mb-4">Volume by Season</h3>
+            <table className="w-full text-sm">
+                <thead className="text-left text-muted-foreground border-b border-border">
+                    <tr><th className="py-2">Season</th><th>Sessions</th><th>Reps</th></tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                    {[...data].reverse().map(season => (
+                        <tr key={season.name}>
+                            <td className="py-2 font-semibold text-foreground">{season.name}</td>
+                            <td>{season.sessions}</td>
+                            <td>{season.reps}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    </div>
+);
@@ -0,0 +1,22 @@
+import React from 'react';
+import { Team } from '../types';
+import { ALL_SEASONS, SeasonFilterValue, getTeamSeasons } from '../utils/helpers';
+
+interface SeasonFilterProps {
+  team: Team;
+  value: SeasonFilterValue;
+  onChange: (season: SeasonFilterValue) => void;
+}
+
+export const SeasonFilter: React.FC<SeasonFilterProps> = ({ team, value, onChange }) => (
+    <select
+        value={value.toString()}
+        onChange={e => onChange(e.target.value === ALL_SEASONS ? ALL_SEASONS : Number(e.target.value))}
+        className="bg-background border border-input rounded-lg py-2 px-3 text-sm font-semibold text-foreground focus:outline-none focus:ring-primary focus:border-primary"
+    >
+        {getTeamSeasons(team).map(year => (
+            <option key={year} value={year}>{year} Season{year === team.seasonYear ? ' (Current)' : ''}</option>
+        ))}
+        <option value={ALL_SEASONS}>All Seasons</option>
+    </select>
+);
@@ -0,0 +1,81 @@
+import React, { useState, useContext } from 'react';
+import { DataContext } from '../contexts/DataContext';
+import { Team } from '../types';
+import { Modal } from './Modal';
+import { toDateKey, isAssignmentInEffect } from '../utils/helpers';
+
+interface SeasonRolloverModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  team: Team;
+}
+
+const SeasonRollover: React.FC<Omit<SeasonRolloverModalProps, 'isOpen'>> = ({ onClose, team }) => {
+    const { startNewSeason, getTeamGoals, getAssignmentsForTeam, getPlayersInTeam, getGoalsForPlayer } = useContext(DataContext)!;
+    const [seasonYear, setSeasonYear] = useState(team.seasonYear + 1);
+    const [confirming, setConfirming] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const todayKey = toDateKey(new Date());
+    const usedYears = [team.seasonYear, ...(team.pastSeasons || []).map(s => s.year)];
+    const roster = getPlayersInTeam(team.id);
+    const teamGoalCount = getTeamGoals(team.id).filter(g => g.status === 'Active').length;
+    const personalGoalCount = roster.flatMap(p => getGoalsForPlayer(p.id)).filter(g => g.status === 'Active').length;
+    const assignmentCount = getAssignmentsForTeam(team.id).filter(a => isAssignmentInEffect(a, todayKey)).length;
+
+    const handleStart = async () => {
+        if (!Number.isInteger(seasonYear) || seasonYear <= team.seasonYear || usedYears.includes(seasonYear)) {
+            setError(`Pick a season year after ${team.seasonYear}.`);
+            setConfirming(false);
+            return;
+        }
+        if (!confirming) {
+            setConfirming(true);
+            return;
+        }
+        setSaving(true);
+        setError('');
+        const nextTeam = await startNewSeason(team.id, seasonYear);
+        setSaving(false);
+        if (nextTeam) {
+            onClose();
+        } else {
+            setError('The season couldn\'t be closed. Check your connection and try again; anything already archived stays archived.');
+            setConfirming(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+                Closing the <span className="font-semibold text-foreground">{team.seasonYear} season</span> keeps the roster, drills and practice plans, and starts a clean slate for goals and assignments.
+                Sessions stay where they are and can still be viewed by picking {team.seasonYear} in the season filter.
+            </p>
+            <ul className="bg-muted/50 rounded-lg p-4 text-sm space-y-1">
+                <li className="flex justify-between"><span className="text-muted-foreground">Active team goals to archive</span><span className="font-semibold text-foreground">{teamGoalCount}</span></li>
+                <li className="flex justify-between"><span className="text-muted-foreground">Active player goals to archive</span><span className="font-semibold text-foreground">{personalGoalCount}</span></li>
+                <li className="flex justify-between"><span className="text-muted-foreground">Open assignments to archive</span><span className="font-semibold text-foreground">{assignmentCount}</span></li>
+                <li className="flex justify-between"><span className="text-muted-foreground">Players carried over</span><span className="font-semibold text-foreground">{roster.length}</span></li>
+            </ul>
+            <div>
+                <label className="block text-sm font-medium text-muted-foreground">New Season Year</label>
+                <input type="number" value={seasonYear} onChange={e => { setSeasonYear(parseInt(e.target.value)); setConfirming(false); }} className="mt-1 block w-full bg-background border-input rounded-md py-2 px-3" />
+            </div>
+            <p className="text-xs text-muted-foreground">This can't be undone. Download a backup first if you want a copy of the season as it stands.</p>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex justify-end gap-3">
+                <button onClick={onClose} disabled={saving} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg disabled:opacity-50">Cancel</button>
+                <button onClick={handleStart} disabled={saving} className="bg-secondary hover:bg-secondary/90 text-secondary-foreground font-bold py-2 px-4 rounded-lg disabled:opacity-50">
+                    {saving ? 'Starting...' : confirming ? `Confirm: Close ${team.seasonYear}` : `Start ${seasonYear || ''} Season`}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export const SeasonRolloverModal: React.FC<SeasonRolloverModalProps> = ({ isOpen, onClose, ...props }) => (
+    <Modal isOpen={isOpen} onClose={onClose} title="Start New Season">
+        <SeasonRollover {...props} onClose={onClose} />
+    </Modal>
+);
@@ -0,0 +1,200 @@
+import React, { useState, useContext, useMemo } from 'react';
+import { DataContext } from '../contexts/DataContext';
+import { Session, SetResult, Drill, Player } from '../types';
+import { BATTED_BALL_TYPE_LABELS } from '../constants';
+import { formatDate, calculateExecutionPercentage, calculateHardHitPercentage, getSessionGoalProgress, getDrillGoalForSession, summarizePlayerSessions, getSessionBaseline } from '../utils/helpers';
+import { AppRoute } from '../utils/routes';
+import { RouteLink } from './RouteLink';
+import { SessionEditModal } from './SessionEditModal';
+import { SessionThread } from './SessionThread';
+
+interface SessionDetailProps {
+  session?: Session; // Undefined when the link points at a session that was deleted or isn't loaded
+  playerSessions: Session[]; // The player's other sessions, for the drill average
+  drills: Drill[];
+  player?: Player; // Coaches see whose session it is; players are looking at their own
+  backRoute: AppRoute;
+  backLabel: string;
+}
+
+const formatValue = (value: number, isPercent: boolean) => `${value}${isPercent ? '%' : ''}`;
+
+// How a number compares with the player's average, e.g. "+6% vs. avg 58%".
+const VsAverage: React.FC<{ value: number; average?: number; isPercent?: boolean; lowerIsBetter?: boolean }> = ({ value, average, isPercent = true, lowerIsBetter = false }) => {
+    if (average === undefined) return <p className="text-xs text-muted-foreground mt-1">No other sessions to compare</p>;
+    const diff = Math.round((value - average) * 10) / 10;
+    const isBetter = lowerIsBetter ? diff < 0 : diff > 0;
+    return (
+        <p className="text-xs text-muted-foreground mt-1">
+            <span className={`font-semibold ${diff === 0 ? '' : isBetter ? 'text-success' : 'text-destructive'}`}>{diff > 0 ? '+' : ''}{formatValue(diff, isPercent)}</span> vs. avg {formatValue(average, isPercent)}
+        </p>
+    );
+};
+
+const StatCard: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
+        <p className="text-sm font-medium text-muted-foreground">{label}</p>
+        {children}
+    </div>
+);
+
+const ContextItem: React.FC<{ label: string; value?: string }> = ({ label, value }) => value ? (
+    <div>
+        <dt className="text-xs text-muted-foreground">{label}</dt>
+        <dd className="text-sm font-semibold text-foreground">{value}</dd>
+    </div>
+) : null;
+
+const SetCard: React.FC<{ set: SetResult }> = ({ set }) => {
+    const hasRepDetail = !!set.reps?.some(r => r.pitchType || r.zone || r.exitVelo !== undefined || r.launchAngle !== undefined || r.battedBallType || r.notes);
+
+    return (
+        <div className="bg-card border border-border p-4 rounded-lg shadow-sm space-y-3">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <h4 className="font-bold text-foreground">Set {set.setNumber}</h4>
+                <div className="flex gap-4 text-sm">
+                    <span><span className="text-muted-foreground">Executed</span> <span className="font-semibold text-foreground">{set.repsExecuted}/{set.repsAttempted}</span></span>
+                    <span><span className="text-muted-foreground">Exec %</span> <span className="font-semibold text-foreground">{calculateExecutionPercentage([set])}%</span></span>
+                    <span><span className="text-muted-foreground">Hard Hit %</span> <span className="font-semibold text-foreground">{calculateHardHitPercentage([set])}%</span></span>
+                    <span><span className="text-muted-foreground">K</span> <span className="font-semibold text-foreground">{set.strikeouts}</span></span>
+                </div>
+            </div>
+            <dl className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                <ContextItem label="Outs" value={set.outs !== undefined ? String(set.outs) : undefined} />
+                <ContextItem label="Count" value={set.countSituation} />
+                <ContextItem label="Runners" value={set.baseRunners ? (set.baseRunners.length > 0 ? set.baseRunners.join(', ') : 'Bases empty') : undefined} />
+                <ContextItem label="Zones" value={set.targetZones?.length ? set.targetZones.join(', ') : undefined} />
+                <ContextItem label="Pitches" value={set.pitchTypes?.length ? set.pitchTypes.join(', ') : undefined} />
+                <ContextItem label="Grade" value={set.grade !== undefined ? `${set.grade}/10` : undefined} />
+            </dl>
+            {set.notes && <p className="text-sm text-muted-foreground italic">"{set.notes}"</p>}
+            {hasRepDetail && (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                        <thead className="text-left text-muted-foreground border-b border-border">
+                            <tr><th className="py-1 pr-2">#</th><th className="pr-2">Outcome</th><th className="pr-2">Pitch</th><th className="pr-2">Zone</th><th className="pr-2">Exit Velo</th><th className="pr-2">Launch</th><th className="pr-2">Type</th><th>Notes</th></tr>
+                        </thead>
+                        <tbody className="divide-y divide-border">
+                            {set.reps!.map((rep, index) => (
+                                <tr key={index}>
+                                    <td className="py-1 pr-2 text-muted-foreground">{index + 1}</td>
+                                    <td className="pr-2 font-semibold text-foreground">{rep.outcome}</td>
+                                    <td className="pr-2">{rep.pitchType || '-'}</td>
+                                    <td className="pr-2">{rep.zone || '-'}</td>
+                                    <td className="pr-2">{rep.exitVelo !== undefined ? `${rep.exitVelo} mph` : '-'}</td>
+                                    <td className="pr-2">{rep.launchAngle !== undefined ? `${rep.launchAngle}°` : '-'}</td>
+                                    <td className="pr-2">{rep.battedBallType ? BATTED_BALL_TYPE_LABELS[rep.battedBallType] : '-'}</td>
+                                    <td className="text-muted-foreground">{rep.notes || ''}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const SessionDetail: React.FC<SessionDetailProps> = ({ session, playerSessions, drills, player, backRoute, backLabel }) => {
+    const { canEditSession } = useContext(DataContext)!;
+    const [isEditing, setIsEditing] = useState(false);
+
+    const drill = session?.drillId ? drills.find(d => d.id === session.drillId) : undefined;
+    const summary = useMemo(() => session && summarizePlayerSessions([session]), [session]);
+    const baseline = useMemo(() => session && getSessionBaseline(session, playerSessions, drill), [session, playerSessions, drill]);
+
+    const backLink = <RouteLink to={backRoute} className="text-sm text-primary hover:underline font-semibold">&larr; {backLabel}</RouteLink>;
+
+    if (!session || !summary) {
+        return (
+            <div className="space-y-6">
+                {backLink}
+                <div className="bg-card border border-border p-6 rounded-lg shadow-sm text-center text-muted-foreground">
+                    <p>This session couldn't be found. It may have been deleted.</p>
+                </div>
+            </div>
+        );
+    }
+
+    const goal = drill && getDrillGoalForSession(session, drill);
+    const progress = drill && getSessionGoalProgress(session, drill);
+    const average = baseline?.summary;
+
+    return (
+        <div className="space-y-6">
+            <SessionEditModal session={isEditing ? session : null} onClose={() => setIsEditing(false)} />
+            <div className="flex justify-between items-center">
+                {backLink}
+                {canEditSession(session) && (
+                    <button onClick={() => setIsEditing(true)} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg text-sm">Edit Session</button>
+                )}
+            </div>
+
+            <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
+                <h2 className="text-2xl font-bold text-foreground">{session.name}</h2>
+                <p className="text-sm text-muted-foreground mt-1">
+                    {player && <>{player.name} &middot; </>}
+                    {formatDate(session.date, { weekday: 'short', month: 'long', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                    {session.drillVersion !== undefined && (drill?.version || 1) > 1 && <> &middot; Drill v{session.drillVersion}</>}
+                    {session.planId && <> &middot; Part of a practice plan</>}
+                    {session.updatedAt && <span className="italic"> &middot; Edited</span>}
+                </p>
+            </div>
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                <StatCard label="Execution %">
+                    <p className="text-3xl font-semibold text-foreground">{summary.execPct}%</p>
+                    <VsAverage value={summary.execPct} average={average?.execPct} />
+                </StatCard>
+                <StatCard label="Hard Hit %">
+                    <p className="text-3xl font-semibold text-foreground">{summary.hardHitPct}%</p>
+                    <VsAverage value={summary.hardHitPct} average={average?.hardHitPct} />
+                </StatCard>
+                <StatCard label="Contact %">
+                    <p className="text-3xl font-semibold text-foreground">{summary.contactPct}%</p>
+                    <VsAverage value={summary.contactPct} average={average?.contactPct} />
+                </StatCard>
+                <StatCard label="Reps">
+                    <p className="text-3xl font-semibold text-foreground">{summary.reps}</p>
+                    <p className="text-xs text-muted-foreground mt-1">{session.sets.length} set{session.sets.length === 1 ? '' : 's'}</p>
+                </StatCard>
+            </div>
+
+            <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
+                <h3 className="text-lg font-bold text-primary mb-2">Drill Goal</h3>
+                {goal && progress ? (
+                    <div className="flex flex-wrap justify-between items-center gap-4">
+                        <div>
+                            <p className="text-sm text-muted-foreground">
+                                {goal.goalType} {goal.goalType === 'No Strikeouts' ? '<=' : '>='} {formatValue(goal.goalTargetValue, goal.goalType.includes('%'))}
+                                {' '}&middot; {goal.sets} sets of {goal.repsPerSet} reps
+                            </p>
+                            <p className="text-2xl font-bold text-foreground mt-1">{formatValue(progress.value, progress.goalType.includes('%'))}</p>
+                            <VsAverage value={progress.value} average={baseline?.goalValue} isPercent={progress.goalType.includes('%')} lowerIsBetter={progress.goalType === 'No Strikeouts'} />
+                        </div>
+                        <span className={`px-3 py-1 text-sm font-semibold rounded-full ${progress.isSuccess ? 'bg-success/20 text-success' : 'bg-destructive/20 text-destructive'}`}>
+                            {progress.isSuccess ? 'Goal Met' : 'Goal Missed'}
+                        </span>
+                    </div>
+                ) : (
+                    <p className="text-sm text-muted-foreground">{session.drillId ? 'This drill is no longer available, so its goal can\'t be checked.' : 'Ad-hoc session. There is no drill goal to check against.'}</p>
+                )}
+                {average && (
+                    <p className="text-xs text-muted-foreground mt-3">
+                        Averages cover {average.sessions} other {drill ? 'session' : `${session.name} session`}{average.sessions === 1 ? '' : 's'}{drill ? ' of this drill' : ''}.
+                    </p>
+                )}
+            </div>
+
+            <div className="space-y-3">
+                <h3 className="text-lg font-bold text-foreground">Sets</h3>
+                {session.sets.map(set => <SetCard key={set.setNumber} set={set} />)}
+            </div>
+
+            <div className="bg-card border border-border p-4 rounded-lg shadow-sm">
+                <h3 className="text-lg font-bold text-primary mb-3">Feedback</h3>
+                <SessionThread key={session.id} session={session} />
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,151 @@
+import React, { useState, useContext } from 'react';
+import { DataContext } from '../contexts/DataContext';
+import { Session, SetResult } from '../types';
+import { Modal } from './Modal';
+import { formatDate, describeSessionChanges } from '../utils/helpers';
+
+interface SessionEditModalProps {
+  session: Session | null;
+  onClose: () => void;
+}
+
+type SetCountField = 'repsAttempted' | 'repsExecuted' | 'hardHits' | 'strikeouts';
+
+const SET_COLUMNS: { key: SetCountField; label: string }[] = [
+    { key: 'repsAttempted', label: 'Reps' },
+    { key: 'repsExecuted', label: 'Executed' },
+    { key: 'hardHits', label: 'Hard Hits' },
+    { key: 'strikeouts', label: 'K' },
+];
+
+const validateSets = (sets: SetResult[]): string | null => {
+    if (sets.length === 0) return 'A session needs at least one set. Delete the session instead.';
+    for (const set of sets) {
+        if (SET_COLUMNS.some(({ key }) => !Number.isInteger(set[key]) || set[key] < 0)) {
+            return `Set ${set.setNumber}: counts must be whole numbers of zero or more.`;
+        }
+        if (set.repsExecuted > set.repsAttempted || set.hardHits > set.repsAttempted || set.strikeouts > set.repsAttempted) {
+            return `Set ${set.setNumber}: executed reps, hard hits and strikeouts can't exceed reps attempted.`;
+        }
+    }
+    return null;
+};
+
+const SessionEditor: React.FC<{ session: Session; onClose: () => void; }> = ({ session, onClose }) => {
+    const { updateSession, deleteSession, getSessionAuditForPlayer } = useContext(DataContext)!;
+    const [name, setName] = useState(session.name);
+    const [sets, setSets] = useState<SetResult[]>(session.sets);
+    const [error, setError] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+    const history = getSessionAuditForPlayer(session.playerId).filter(e => e.sessionId === session.id);
+    const changes = describeSessionChanges(session, { ...session, name, sets });
+
+    const handleSetChange = (setNumber: number, field: SetCountField | 'notes', value: string) => {
+        setSets(prev => prev.map(set => {
+            if (set.setNumber !== setNumber) return set;
+            return field === 'notes' ? { ...set, notes: value } : { ...set, [field]: value === '' ? 0 : Number(value) };
+        }));
+    };
+
+    const handleRemoveSet = (setNumber: number) => {
+        setSets(prev => prev.filter(set => set.setNumber !== setNumber));
+    };
+
+    const handleSave = async () => {
+        const validationError = name.trim() ? validateSets(sets) : 'Session name is required.';
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        setSaving(true);
+        await updateSession({ ...session, name: name.trim(), sets });
+        setSaving(false);
+        onClose();
+    };
+
+    const handleDelete = async () => {
+        if (!confirmingDelete) {
+            setConfirmingDelete(true);
+            return;
+        }
+        setSaving(true);
+        await deleteSession(session);
+        setSaving(false);
+        onClose();
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <label className="block text-sm font-medium text-muted-foreground">Session Name</label>
+                <input type="text" value={name} onChange={e => setName(e.target.value)} className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+                <p className="text-xs text-muted-foreground mt-1">Logged {formatDate(session.date)}</p>
+            </div>
+
+            <div>
+                <h4 className="text-md font-semibold text-muted-foreground border-b border-border pb-2 mb-3">Sets</h4>
+                <div className="space-y-3">
+                    {sets.map(set => (
+                        <div key={set.setNumber} className="bg-muted/50 p-3 rounded-lg">
+                            <div className="flex justify-between items-center mb-2">
+                                <span className="font-semibold text-sm text-foreground">Set {set.setNumber}</span>
+                                <button type="button" onClick={() => handleRemoveSet(set.setNumber)} className="text-muted-foreground hover:text-destructive text-lg font-bold" title="Remove set">&times;</button>
+                            </div>
+                            <div className="grid grid-cols-4 gap-2">
+                                {SET_COLUMNS.map(({ key, label }) => (
+                                    <div key={key}>
+                                        <label className="block text-xs font-medium text-muted-foreground">{label}</label>
+                                        <input type="number" min={0} value={set[key]} disabled={!!set.reps} onChange={e => handleSetChange(set.setNumber, key, e.target.value)} className="mt-1 block w-full bg-background border-input rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm disabled:opacity-70" />
+                                    </div>
+                                ))}
+                            </div>
+                            {set.reps && <p className="text-xs text-muted-foreground mt-2">Logged pitch by pitch, so its counts come from the {set.reps.length} recorded reps.</p>}
+                            <input type="text" value={set.notes || ''} onChange={e => handleSetChange(set.setNumber, 'notes', e.target.value)} placeholder="Notes" className="mt-2 block w-full bg-background border-input rounded-md shadow-sm py-1 px-2 focus:outline-none focus:ring-primary focus:border-primary sm:text-sm" />
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="flex justify-between items-center">
+                <button type="button" onClick={handleDelete} disabled={saving} className={`font-bold py-2 px-4 rounded-lg text-sm disabled:opacity-50 ${confirmingDelete ? 'bg-destructive text-destructive-foreground' : 'text-destructive hover:bg-destructive/10'}`}>
+                    {confirmingDelete ? 'Confirm Delete' : 'Delete Session'}
+                </button>
+                <div className="flex gap-3">
+                    <button type="button" onClick={onClose} className="bg-muted hover:bg-muted/80 text-foreground font-bold py-2 px-4 rounded-lg text-sm">Cancel</button>
+                    <button type="button" onClick={handleSave} disabled={saving || changes.length === 0} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-4 rounded-lg text-sm disabled:opacity-50">Save Changes</button>
+                </div>
+            </div>
+
+            {history.length > 0 && (
+                <div>
+                    <h4 className="text-md font-semibold text-muted-foreground border-b border-border pb-2 mb-3">Change History</h4>
+                    <ul className="space-y-3">
+                        {history.map(entry => (
+                            <li key={entry.id} className="text-sm">
+                                <p className="text-foreground">
+                                    <span className="font-semibold">{entry.changedByName}</span> {entry.action} this session
+                                    <span className="text-muted-foreground"> &middot; {formatDate(entry.changedAt, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}</span>
+                                </p>
+                                {entry.after && (
+                                    <ul className="text-xs text-muted-foreground list-disc list-inside">
+                                        {describeSessionChanges(entry.before, entry.after).map(change => <li key={change}>{change}</li>)}
+                                    </ul>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const SessionEditModal: React.FC<SessionEditModalProps> = ({ session, onClose }) => (
+    <Modal isOpen={!!session} onClose={onClose} title="Edit Session">
+        {session && <SessionEditor key={session.id} session={session} onClose={onClose} />}
+    </Modal>
+);
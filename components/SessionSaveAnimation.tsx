@@ -1,9 +1,18 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Session } from '../types';
 import { calculateExecutionPercentage, calculateHardHitPercentage } from '../utils/helpers';
+import { EarnedAchievement } from '../utils/achievements';
+import { EarnedAchievementList } from './Achievements';
+
+interface PlanSummary {
+  name: string;
+  sessions: Session[]; // One per completed step, in the order they were logged
+}
 
 interface SessionSaveAnimationProps {
   session: Session | null;
+  plan?: PlanSummary | null; // When set, the summary covers the whole workout instead of one session
+  achievements?: EarnedAchievement[]; // Earned by this session or workout
   onClose: () => void;
 }
 
@@ -59,35 +68,36 @@ const AnimatedProgressBar: React.FC<{ label: string; value: number; colorClass:
 };
 
 
-export const SessionSaveAnimation: React.FC<SessionSaveAnimationProps> = ({ session, onClose }) => {
+export const SessionSaveAnimation: React.FC<SessionSaveAnimationProps> = ({ session, plan, achievements = [], onClose }) => {
   const [show, setShow] = useState(false);
+  const summarySessions = useMemo(() => plan ? plan.sessions : session ? [session] : [], [plan, session]);
 
   useEffect(() => {
-    if (session) {
+    if (summarySessions.length > 0) {
       setShow(true);
     }
-  }, [session]);
+  }, [summarySessions]);
   
   const stats = useMemo(() => {
-    if (!session) return { exec: 0, hardHit: 0, reps: 0 };
-    const allSets = session.sets;
+    if (summarySessions.length === 0) return { exec: 0, hardHit: 0, reps: 0 };
+    const allSets = summarySessions.flatMap(s => s.sets);
     return {
         exec: calculateExecutionPercentage(allSets),
         hardHit: calculateHardHitPercentage(allSets),
         reps: allSets.reduce((sum, set) => sum + set.repsAttempted, 0)
     };
-  }, [session]);
+  }, [summarySessions]);
 
   const animatedReps = useCountUp(stats.reps);
 
-  if (!session) return null;
+  if (summarySessions.length === 0) return null;
 
   return (
     <div className={`fixed inset-0 bg-background/90 backdrop-blur-sm flex items-center justify-center z-50 transition-opacity duration-300 ${show ? 'opacity-100' : 'opacity-0'}`}>
         <div className={`bg-card border border-border rounded-2xl shadow-2xl w-full max-w-md p-8 text-center transition-all duration-500 ease-out ${show ? 'scale-100 opacity-100 translate-y-0' : 'scale-95 opacity-0 translate-y-4'}`}>
-            <h1 className="text-3xl font-black text-primary">Session Complete!</h1>
+            <h1 className="text-3xl font-black text-primary">{plan ? 'Workout Complete!' : 'Session Complete!'}</h1>
             <p className="text-muted-foreground mt-2">Great work. Here's your summary for:</p>
-            <h2 className="text-xl font-bold text-foreground mt-1">{session.name}</h2>
+            <h2 className="text-xl font-bold text-foreground mt-1">{plan ? plan.name : summarySessions[0].name}</h2>
 
             <div className="my-8 space-y-6">
                 <div className="text-center">
@@ -98,6 +108,24 @@ export const SessionSaveAnimation: React.FC<SessionSaveAnimationProps> = ({ sess
                 <AnimatedProgressBar label="Hard Hit %" value={stats.hardHit} colorClass="bg-accent" />
             </div>
 
+            {plan && (
+                <ul className="mb-8 divide-y divide-border text-sm text-left">
+                    {plan.sessions.map(s => (
+                        <li key={s.id} className="py-2 flex justify-between">
+                            <span className="font-semibold text-foreground">{s.name}</span>
+                            <span className="text-muted-foreground">{s.sets.reduce((sum, set) => sum + set.repsAttempted, 0)} reps &middot; {calculateExecutionPercentage(s.sets)}% exec</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {achievements.length > 0 && (
+                <div className="mb-8">
+                    <h3 className="text-lg font-bold text-foreground mb-3">Achievements Unlocked</h3>
+                    <EarnedAchievementList achievements={achievements} />
+                </div>
+            )}
+
             <button
                 onClick={onClose}
                 className="w-full bg-secondary hover:bg-secondary/90 text-secondary-foreground font-bold py-3 px-6 rounded-lg text-lg transition-transform hover:scale-105"
@@ -0,0 +1,96 @@
+import React, { useState, useContext, useEffect } from 'react';
+import { DataContext } from '../contexts/DataContext';
+import { Session, UserRole } from '../types';
+import { Modal } from './Modal';
+import { formatDate } from '../utils/helpers';
+
+interface SessionThreadProps {
+  session: Session;
+}
+
+interface SessionThreadModalProps {
+  session: Session | null;
+  onClose: () => void;
+}
+
+const Message: React.FC<{ authorName: string; isCoach: boolean; isOwn: boolean; createdAt?: string; body: string }> = ({ authorName, isCoach, isOwn, createdAt, body }) => (
+    <li className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+        <div className={`max-w-[85%] rounded-lg p-3 ${isOwn ? 'bg-primary/10' : 'bg-muted/50'}`}>
+            <p className="text-xs text-muted-foreground">
+                <span className="font-semibold text-foreground">{authorName}</span>
+                {isCoach && <span className="ml-1 px-1.5 py-0.5 rounded bg-secondary/20 text-secondary font-semibold">Coach</span>}
+                {createdAt && <> &middot; {formatDate(createdAt, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}</>}
+            </p>
+            <p className="text-sm text-foreground mt-1 whitespace-pre-wrap">{body}</p>
+        </div>
+    </li>
+);
+
+export const SessionThread: React.FC<SessionThreadProps> = ({ session }) => {
+    const { currentUser, getSessionComments, canCommentOnSession, addSessionComment, markSessionCommentsRead } = useContext(DataContext)!;
+    const [draft, setDraft] = useState('');
+    const [sending, setSending] = useState(false);
+    const [error, setError] = useState('');
+
+    const comments = getSessionComments(session.id);
+    const hasUnread = !!currentUser && comments.some(c => !c.readBy.includes(currentUser.id));
+
+    // Opening the thread is what counts as reading it.
+    useEffect(() => {
+        if (hasUnread) markSessionCommentsRead(session.id);
+    }, [hasUnread, session.id]);
+
+    const handleSend = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.trim()) return;
+        setSending(true);
+        setError('');
+        const comment = await addSessionComment(session, draft);
+        setSending(false);
+        if (comment) {
+            setDraft('');
+        } else {
+            setError('Your message could not be sent. Please try again.');
+        }
+    };
+
+    const canComment = canCommentOnSession(session);
+
+    return (
+        <div className="space-y-4">
+            {session.feedback || comments.length > 0 ? (
+                <ul className="space-y-3">
+                    {session.feedback && <Message authorName="Coach" isCoach isOwn={currentUser?.role === UserRole.Coach} body={session.feedback} />}
+                    {comments.map(c => (
+                        <Message key={c.id} authorName={c.authorName} isCoach={c.authorRole === UserRole.Coach} isOwn={c.authorId === currentUser?.id} createdAt={c.createdAt} body={c.body} />
+                    ))}
+                </ul>
+            ) : (
+                <p className="text-sm text-muted-foreground">No feedback on this session yet.</p>
+            )}
+            {canComment && (
+                <form onSubmit={handleSend} className="space-y-2">
+                    <textarea
+                        value={draft}
+                        onChange={e => setDraft(e.target.value)}
+                        rows={3}
+                        placeholder={currentUser?.role === UserRole.Coach ? 'Leave feedback on this session...' : 'Reply to your coach...'}
+                        className="w-full bg-background border border-input rounded-lg p-3 text-sm text-foreground focus:outline-none focus:ring-primary focus:border-primary"
+                    />
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                    <div className="flex justify-end">
+                        <button type="submit" disabled={sending || !draft.trim()} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-4 rounded-lg text-sm disabled:opacity-50">
+                            {sending ? 'Sending...' : 'Send'}
+                        </button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export const SessionThreadModal: React.FC<SessionThreadModalProps> = ({ session, onClose }) => (
+    <Modal isOpen={!!session} onClose={onClose} title={session ? `Feedback: ${session.name}` : 'Feedback'}>
+        {session && <SessionThread key={session.id} session={session} />}
+    </Modal>
+);
@@ -0,0 +1,76 @@
+import React from 'react';
+import { BattedBallType } from '../types';
+import { BATTED_BALL_TYPES, BATTED_BALL_TYPE_LABELS } from '../constants';
+import { BattedBall } from '../utils/helpers';
+
+interface SprayChartProps {
+    battedBalls: BattedBall[];
+}
+
+const TYPE_COLORS: Record<BattedBallType, string> = {
+    GB: 'hsl(var(--accent))',
+    LD: 'hsl(var(--success))',
+    FB: 'hsl(var(--primary))',
+    PU: 'hsl(var(--muted-foreground))',
+};
+
+// Home plate sits at the bottom centre of a 200x200 field.
+const HOME = { x: 100, y: 190 };
+const FENCE_RADIUS = 170;
+
+// Without an exit velocity, place the ball at a typical depth for its type.
+const TYPICAL_DEPTH: Record<BattedBallType, number> = { GB: 55, LD: 115, FB: 150, PU: 70 };
+
+const getDepth = (ball: BattedBall): number => {
+    if (ball.exitVelo !== undefined) {
+        const scaled = ((ball.exitVelo - 40) / (110 - 40)) * (FENCE_RADIUS - 30) + 30;
+        return Math.min(FENCE_RADIUS, Math.max(20, scaled));
+    }
+    return TYPICAL_DEPTH[ball.battedBallType || 'LD'];
+};
+
+const toPoint = (angleDegrees: number, radius: number) => {
+    const radians = (angleDegrees * Math.PI) / 180;
+    return { x: HOME.x + radius * Math.sin(radians), y: HOME.y - radius * Math.cos(radians) };
+};
+
+export const SprayChart: React.FC<SprayChartProps> = ({ battedBalls }) => {
+    const plotted = battedBalls.filter(b => b.sprayAngle !== undefined);
+    const leftLine = toPoint(-45, FENCE_RADIUS);
+    const rightLine = toPoint(45, FENCE_RADIUS);
+    const infieldLeft = toPoint(-45, 65);
+    const infieldRight = toPoint(45, 65);
+
+    return (
+        <div className="bg-card border border-border p-4 rounded-lg shadow-sm h-full">
+            <h3 className="text-lg font-bold text-primary mb-1 text-center">Spray Chart</h3>
+            <p className="text-xs text-muted-foreground mb-4 text-center">Field View &middot; {plotted.length} batted balls</p>
+            <svg viewBox="0 0 200 200" className="w-full max-w-xs mx-auto">
+                <path d={`M ${HOME.x} ${HOME.y} L ${leftLine.x} ${leftLine.y} A ${FENCE_RADIUS} ${FENCE_RADIUS} 0 0 1 ${rightLine.x} ${rightLine.y} Z`} fill="hsl(var(--success) / 0.15)" stroke="hsl(var(--border))" />
+                <path d={`M ${HOME.x} ${HOME.y} L ${infieldLeft.x} ${infieldLeft.y} A 65 65 0 0 1 ${infieldRight.x} ${infieldRight.y} Z`} fill="hsl(var(--accent) / 0.15)" stroke="hsl(var(--border))" />
+                {plotted.map((ball, index) => {
+                    const { x, y } = toPoint(Math.max(-50, Math.min(50, ball.sprayAngle!)), getDepth(ball));
+                    const details = [
+                        ball.exitVelo !== undefined && `${ball.exitVelo} mph`,
+                        ball.launchAngle !== undefined && `${ball.launchAngle}°`,
+                        ball.battedBallType && BATTED_BALL_TYPE_LABELS[ball.battedBallType],
+                    ].filter(Boolean).join(', ');
+                    return (
+                        <circle key={`${ball.sessionId}-${index}`} cx={x} cy={y} r={3} fill={TYPE_COLORS[ball.battedBallType || 'LD']} fillOpacity={0.85} stroke="hsl(var(--background))" strokeWidth={0.5}>
+                            <title>{details || 'Batted ball'}</title>
+                        </circle>
+                    );
+                })}
+            </svg>
+            <div className="flex flex-wrap justify-center gap-3 mt-3 text-xs text-muted-foreground">
+                {BATTED_BALL_TYPES.map(type => (
+                    <span key={type} className="flex items-center gap-1">
+                        <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: TYPE_COLORS[type] }}></span>
+                        {BATTED_BALL_TYPE_LABELS[type]}
+                    </span>
+                ))}
+            </div>
+            {plotted.length === 0 && <p className="text-xs text-muted-foreground text-center mt-2">Log spray direction pitch by pitch to fill this chart.</p>}
+        </div>
+    );
+};
@@ -0,0 +1,126 @@
+import React, { useState, useContext } from 'react';
+import { DataContext } from '../contexts/DataContext';
+import { Modal } from './Modal';
+import { formatDate } from '../utils/helpers';
+import { downloadFile, getExportFileName, TeamExportData } from '../utils/export';
+import { TeamBackup, RestoreReport, createTeamBackup, parseTeamBackup, summarizeBackup } from '../utils/backup';
+
+interface TeamBackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  coachId: string;
+  teamData?: TeamExportData; // The team to back up; absent when there is nothing to back up yet
+}
+
+const CountList: React.FC<{ counts: { label: string; count: number }[] }> = ({ counts }) => (
+    <ul className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+        {counts.map(({ label, count }) => (
+            <li key={label} className="flex justify-between">
+                <span className="text-muted-foreground">{label}</span>
+                <span className="font-semibold text-foreground">{count}</span>
+            </li>
+        ))}
+    </ul>
+);
+
+const BackupManager: React.FC<Omit<TeamBackupModalProps, 'isOpen'>> = ({ onClose, coachId, teamData }) => {
+    const { restoreTeamBackup } = useContext(DataContext)!;
+    const [backup, setBackup] = useState<TeamBackup | null>(null);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [warnings, setWarnings] = useState<string[]>([]);
+    const [restoring, setRestoring] = useState(false);
+    const [report, setReport] = useState<RestoreReport | null>(null);
+
+    const handleDownload = () => {
+        if (!teamData) return;
+        const content = JSON.stringify(createTeamBackup(teamData), null, 2);
+        downloadFile(getExportFileName(teamData.team.name, 'backup', 'json'), content, 'application/json');
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        const validation = parseTeamBackup(await file.text());
+        setBackup(validation.backup || null);
+        setErrors(validation.errors);
+        setWarnings(validation.warnings);
+    };
+
+    const handleRestore = async () => {
+        if (!backup) return;
+        setRestoring(true);
+        setErrors([]);
+        try {
+            setReport(await restoreTeamBackup(backup, coachId));
+        } catch (error) {
+            console.error("Error restoring team backup: ", error);
+            setErrors([`The restore stopped partway through: ${(error as Error).message}. Anything restored so far is in the new team.`]);
+        } finally {
+            setRestoring(false);
+        }
+    };
+
+    if (report) {
+        return (
+            <div className="space-y-4">
+                <p className="text-lg font-bold text-foreground">Restored "{report.teamName}"</p>
+                <CountList counts={report.created} />
+                {report.conflicts.length > 0 && (
+                    <div className="bg-accent/10 border border-accent/30 rounded-lg p-3">
+                        <h4 className="text-sm font-bold text-foreground mb-1">Conflicts</h4>
+                        <ul className="text-sm text-muted-foreground list-disc list-inside space-y-1">
+                            {report.conflicts.map(c => <li key={c}>{c}</li>)}
+                        </ul>
+                    </div>
+                )}
+                <button onClick={onClose} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-4 rounded-lg">Done</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            {teamData && (
+                <div className="space-y-2">
+                    <h3 className="font-bold text-foreground">Download Backup</h3>
+                    <p className="text-sm text-muted-foreground">
+                        Saves {teamData.team.name} with its roster, groups, drills, practice plans, assignments, sessions and goals to a file you can restore later or on another account.
+                    </p>
+                    <button onClick={handleDownload} className="bg-primary hover:bg-primary/90 text-primary-foreground font-bold py-2 px-4 rounded-lg text-sm">Download Backup</button>
+                </div>
+            )}
+            <div className={`space-y-3 ${teamData ? 'border-t border-border pt-6' : ''}`}>
+                <h3 className="font-bold text-foreground">Restore from Backup</h3>
+                <p className="text-sm text-muted-foreground">Restoring always creates a new team, so nothing you have now is overwritten.</p>
+                <input type="file" accept=".json,application/json" onChange={e => handleFile(e.target.files?.[0])} className="block w-full text-sm text-muted-foreground file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:font-semibold file:bg-primary/20 file:text-primary hover:file:bg-primary/30" />
+                {errors.length > 0 && (
+                    <ul className="text-sm text-destructive space-y-1">
+                        {errors.map(e => <li key={e}>{e}</li>)}
+                    </ul>
+                )}
+                {backup && (
+                    <div className="bg-muted/50 rounded-lg p-4 space-y-3">
+                        <div>
+                            <p className="font-semibold text-foreground">{backup.team.name} &middot; {backup.team.seasonYear} season</p>
+                            <p className="text-xs text-muted-foreground">Backed up {formatDate(backup.exportedAt)}</p>
+                        </div>
+                        <CountList counts={summarizeBackup(backup)} />
+                        {warnings.length > 0 && (
+                            <ul className="text-xs text-muted-foreground list-disc list-inside space-y-1">
+                                {warnings.map(w => <li key={w}>{w}</li>)}
+                            </ul>
+                        )}
+                        <button onClick={handleRestore} disabled={restoring} className="w-full bg-secondary hover:bg-secondary/90 text-secondary-foreground font-bold py-2 px-4 rounded-lg disabled:opacity-50">
+                            {restoring ? 'Restoring...' : 'Restore as New Team'}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export const TeamBackupModal: React.FC<TeamBackupModalProps> = ({ isOpen, onClose, ...props }) => (
+    <Modal isOpen={isOpen} onClose={onClose} title="Backup & Restore">
+        <BackupManager {...props} onClose={onClose} />
+    </Modal>
+);
@@ -8,6 +8,7 @@ interface TrendData {
 
 interface TeamTrendChartProps {
   data: TrendData[];
+  rangeLabel: string;
 }
 
 const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
@@ -24,10 +25,10 @@ const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
     return null;
 };
 
-export const TeamTrendChart: React.FC<TeamTrendChartProps> = ({ data }) => {
+export const TeamTrendChart: React.FC<TeamTrendChartProps> = ({ data, rangeLabel }) => {
   return (
     <div className="bg-card border border-border p-4 rounded-lg shadow-sm h-96">
-        <h3 className="text-lg font-bold text-primary mb-4">Team Execution % (Last 7 Days)</h3>
+        <h3 className="text-lg font-bold text-primary mb-4">Team Execution % ({rangeLabel})</h3>
         <ResponsiveContainer width="100%" height="90%">
             <LineChart data={data} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
                 <CartesianGrid stroke="hsl(var(--border))" strokeDasharray="3 3" />
@@ -1,4 +1,4 @@
-import { TargetZone, PitchType, CountSituation, BaseRunner, GoalType, DrillType } from './types';
+import { TargetZone, PitchType, CountSituation, BaseRunner, GoalType, GoalMetric, DrillType, RepOutcome, BattedBallType } from './types';
 
 export const TARGET_ZONES: TargetZone[] = [
   'Inside High', 'Middle High', 'Outside High',
@@ -14,6 +14,31 @@ export const BASE_RUNNERS: BaseRunner[] = ['1B', '2B', '3B'];
 
 export const GOAL_TYPES: GoalType[] = ['Execution %', 'Hard Hit %', 'No Strikeouts', 'Total Reps'];
 
+export const GOAL_METRICS: GoalMetric[] = [...GOAL_TYPES, 'Strikeouts per Session', 'Sessions per Week', 'Consecutive Days', 'Drill Goal Success %', 'Average Grade'];
+
+export const GOAL_METRIC_DESCRIPTIONS: Record<GoalMetric, string> = {
+  'Execution %': 'Executed reps out of all reps.',
+  'Hard Hit %': 'Hard hits out of all reps.',
+  'No Strikeouts': 'Total strikeouts stays at or under the target.',
+  'Total Reps': 'Reps logged in total.',
+  'Strikeouts per Session': 'Average strikeouts per session stays at or under the target.',
+  'Sessions per Week': 'Average sessions logged each week.',
+  'Consecutive Days': 'Longest run of days in a row with a session logged.',
+  'Drill Goal Success %': "Sessions that met their drill's goal, out of all drill sessions.",
+  'Average Grade': 'Average set grade, out of 10.',
+};
+
 export const OUTS_OPTIONS: (0 | 1 | 2)[] = [0, 1, 2];
 
-export const DRILL_TYPES: DrillType[] = ['Tee Work', 'Soft Toss', 'Front Toss', 'Throwing', 'Live BP', 'Machine'];
\ No newline at end of file
+export const DRILL_TYPES: DrillType[] = ['Tee Work', 'Soft Toss', 'Front Toss', 'Throwing', 'Live BP', 'Machine'];
+
+export const REP_OUTCOMES: RepOutcome[] = ['Executed', 'Hard Hit', 'Whiff', 'Foul', 'Take'];
+
+export const BATTED_BALL_TYPES: BattedBallType[] = ['GB', 'LD', 'FB', 'PU'];
+
+export const BATTED_BALL_TYPE_LABELS: Record<BattedBallType, string> = {
+  GB: 'Ground Ball',
+  LD: 'Line Drive',
+  FB: 'Fly Ball',
+  PU: 'Pop Up',
+};
@@ -1,10 +1,12 @@
-import React, { createContext, useState, useEffect, ReactNode } from 'react';
-import { getAuth, onAuthStateChanged, signOut, RecaptchaVerifier, signInWithPhoneNumber, ConfirmationResult, User as FirebaseAuthUser } from 'firebase/auth';
-import { doc, getDoc, setDoc, addDoc, collection, query, where, getDocs, updateDoc, arrayUnion } from 'firebase/firestore';
-import { User, UserRole, Team, Player, Drill, Session, DrillAssignment, DayOfWeek, PersonalGoal, PlayerProfile, JoinCode, TeamGoal } from '../types';
-import { auth, db } from '../firebaseConfig'; // Assuming db is exported from firebaseConfig
-import { generateTeamCode } from '../utils/helpers';
-import { MOCK_COACH, MOCK_PLAYERS, MOCK_TEAM, MOCK_DRILLS, MOCK_SESSIONS, MOCK_ASSIGNMENTS, MOCK_GOALS, MOCK_TEAM_GOALS } from '../utils/mockData';
+import React, { createContext, useState, useEffect, useMemo, useRef, ReactNode } from 'react';
+import { onAuthStateChanged, signOut, RecaptchaVerifier, signInWithPhoneNumber, ConfirmationResult } from 'firebase/auth';
+import { User, UserRole, Team, Player, PlayerGroup, Drill, PracticePlan, Session, SessionAuditEntry, SessionComment, DrillAssignment, PersonalGoal, GoalDetails, PlayerProfile, JoinCode, TeamGoal } from '../types';
+import { auth } from '../firebaseConfig';
+import { createRepository, Unsubscribe } from '../repositories';
+import { generateClientId, loadPendingSessions, enqueueSession, removePendingSession, toPendingSession, isQueuedBy } from '../repositories/sessionQueue';
+import { MOCK_COACH, MOCK_PLAYERS } from '../utils/mockData';
+import { TeamBackup, RestoreReport, BackupIdMap, getRestoredTeamName, remapGroup, remapPlan, remapAssignment, remapSession, remapTeamGoal, remapPersonalGoal, isSameGoal, isSameSession } from '../utils/backup';
+import { reviseDrill, toDateKey, isAssignmentOpenOn, isAssignmentInEffect, isPlayerAssigned, getPlayerAssignmentCompletion, filterSessionsBySeason, evaluatePersonalGoal, evaluateTeamGoal } from '../utils/helpers';
 
 // Context interface
 interface IDataContext {
@@ -16,23 +18,60 @@ interface IDataContext {
   logout: () => void;
   // --- Data Access ---
   getTeamsForCoach: (coachId: string) => Team[];
+  getTeam: (teamId: string) => Team | undefined;
   getPlayersInTeam: (teamId: string) => Player[];
+  getGroupsForTeam: (teamId: string) => PlayerGroup[];
+  createGroup: (groupData: Omit<PlayerGroup, 'id'>) => Promise<void>;
+  updateGroup: (group: PlayerGroup) => Promise<void>;
+  deleteGroup: (groupId: string) => Promise<void>;
   getDrillsForTeam: (teamId: string) => Drill[];
   getSessionsForTeam: (teamId: string) => Session[];
   getSessionsForPlayer: (playerId: string) => Session[];
   getAssignedDrillsForPlayerToday: (playerId: string, teamId: string) => Drill[];
-  createDrill: (drillData: Omit<Drill, 'id' | 'teamId'>, teamId: string) => void;
-  createAssignment: (assignmentData: Omit<DrillAssignment, 'id' | 'assignedDate'>) => void;
-  logSession: (sessionData: Omit<Session, 'id'>) => Session | undefined;
+  createDrill: (drillData: Omit<Drill, 'id' | 'teamId'>, teamId: string) => Promise<void>;
+  updateDrill: (drill: Drill) => Promise<void>;
+  duplicateDrill: (drillId: string) => Promise<void>;
+  setDrillArchived: (drillId: string, archived: boolean) => Promise<void>;
+  getDrillDeleteBlocker: (drillId: string) => string | undefined;
+  deleteDrill: (drillId: string) => Promise<void>;
+  getAssignmentsForTeam: (teamId: string) => DrillAssignment[];
+  createAssignment: (assignmentData: Omit<DrillAssignment, 'id' | 'assignedDate'>) => Promise<void>;
+  updateAssignment: (assignment: DrillAssignment) => Promise<void>;
+  cancelAssignment: (assignmentId: string) => Promise<void>;
+  getPlansForTeam: (teamId: string) => PracticePlan[];
+  getAssignedPlansForPlayerToday: (playerId: string, teamId: string) => PracticePlan[];
+  createPlan: (planData: Omit<PracticePlan, 'id'>) => Promise<void>;
+  updatePlan: (plan: PracticePlan) => Promise<void>;
+  deletePlan: (planId: string) => Promise<void>;
+  logSession: (sessionData: Omit<Session, 'id'>) => Promise<Session | undefined>;
+  isSessionPendingSync: (sessionId: string) => boolean;
+  hasSessionSyncFailed: (sessionId: string) => boolean;
+  canEditSession: (session: Session) => boolean;
+  updateSession: (session: Session) => Promise<void>;
+  deleteSession: (session: Session) => Promise<void>;
+  getSessionAuditForPlayer: (playerId: string) => SessionAuditEntry[];
+  getSessionComments: (sessionId: string) => SessionComment[];
+  getUnreadComments: () => SessionComment[];
+  canCommentOnSession: (session: Session) => boolean;
+  addSessionComment: (session: Session, body: string) => Promise<SessionComment | undefined>;
+  markSessionCommentsRead: (sessionId: string) => Promise<void>;
   createTeam: (teamData: Omit<Team, 'id' | 'coachId'>, coachId: string) => Promise<string | undefined>;
   getJoinCodeForTeam: (teamId: string) => Promise<string | null>;
+  restoreTeamBackup: (backup: TeamBackup, coachId: string) => Promise<RestoreReport>;
+  startNewSeason: (teamId: string, seasonYear: number) => Promise<Team | undefined>;
   joinTeamWithCode: (code: string, playerId: string) => Promise<void>;
   getGoalsForPlayer: (playerId: string) => PersonalGoal[];
-  createGoal: (goalData: Omit<PersonalGoal, 'id'>) => void;
-  deleteGoal: (goalId: string) => void;
+  createGoal: (goalData: Omit<PersonalGoal, 'id'>) => Promise<void>;
+  assignGoalToPlayer: (playerId: string, goalData: GoalDetails) => Promise<void>;
+  updateGoalDetails: (goal: PersonalGoal, goalData: GoalDetails) => Promise<void>;
+  archiveGoal: (goalId: string) => Promise<void>;
+  acknowledgeGoal: (goalId: string) => Promise<void>;
+  deleteGoal: (goalId: string) => Promise<void>;
   getTeamGoals: (teamId: string) => TeamGoal[];
-  createTeamGoal: (goalData: Omit<TeamGoal, 'id'>) => void;
-  deleteTeamGoal: (goalId: string) => void;
+  createTeamGoal: (goalData: Omit<TeamGoal, 'id'>) => Promise<void>;
+  deleteTeamGoal: (goalId: string) => Promise<void>;
+  getGoalOutcomeNotices: () => { goals: PersonalGoal[]; teamGoals: TeamGoal[] };
+  dismissGoalOutcomeNotices: () => Promise<void>;
   // --- State Management ---
   activeTeam: Team | undefined;
   setActiveTeamId: (teamId: string) => void;
@@ -41,32 +80,69 @@ interface IDataContext {
 
 export const DataContext = createContext<IDataContext | undefined>(undefined);
 
+// Swaps out the records a listener is responsible for with its latest results.
+const replaceScope = <T extends { id: string }>(current: T[], inScope: (item: T) => boolean, next: T[]): T[] => {
+    return [...current.filter(item => !inScope(item)), ...next];
+};
+
+const upsertById = <T extends { id: string }>(current: T[], item: T): T[] => [...current.filter(i => i.id !== item.id), item];
+
+const logSyncError = (error: Error) => console.error("Error syncing data: ", error);
+
+// Firestore holds writes open while offline instead of failing, so give up on them after a while and queue instead.
+const SESSION_WRITE_TIMEOUT_MS = 10000;
+
+const withTimeout = <T,>(promise: Promise<T>, ms: number): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+        promise.then(
+            value => { clearTimeout(timer); resolve(value); },
+            error => { clearTimeout(timer); reject(error); },
+        );
+    });
+};
+
 export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const repository = useMemo(() => createRepository(), []);
+    const isLocalBackend = repository.backend === 'local';
+
     const [loading, setLoading] = useState(true);
     const [currentUser, setCurrentUser] = useState<User | null>(null);
 
     // Data state
     const [teams, setTeams] = useState<Team[]>([]);
     const [players, setPlayers] = useState<Player[]>([]);
+    const [groups, setGroups] = useState<PlayerGroup[]>([]);
     const [drills, setDrills] = useState<Drill[]>([]);
     const [sessions, setSessions] = useState<Session[]>([]);
+    const [sessionAudit, setSessionAudit] = useState<SessionAuditEntry[]>([]);
+    const [sessionComments, setSessionComments] = useState<SessionComment[]>([]);
     const [assignments, setAssignments] = useState<DrillAssignment[]>([]);
+    const [plans, setPlans] = useState<PracticePlan[]>([]);
     const [goals, setGoals] = useState<PersonalGoal[]>([]);
     const [teamGoals, setTeamGoals] = useState<TeamGoal[]>([]);
     const [joinCodes, setJoinCodes] = useState<JoinCode[]>([]);
+    // Sessions logged on this device that haven't reached the backend yet.
+    const [pendingSessions, setPendingSessions] = useState<Session[]>([]);
+    // Queued sessions the backend rejected on the last replay; they stay queued and are retried.
+    const [failedSyncIds, setFailedSyncIds] = useState<string[]>([]);
 
     // Active team state
     const [activeTeamId, setActiveTeamId] = useState<string | undefined>();
     const activeTeam = teams.find(t => t.id === activeTeamId);
 
     useEffect(() => {
+        if (isLocalBackend) {
+            setLoading(false);
+            return;
+        }
+
         const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
             if (firebaseUser) {
-                const userRef = doc(db, 'users', firebaseUser.uid);
-                const userSnap = await getDoc(userRef);
+                const existingUser = await repository.getUser(firebaseUser.uid);
 
-                if (userSnap.exists()) {
-                    setCurrentUser({ id: userSnap.id, ...userSnap.data() } as User);
+                if (existingUser) {
+                    setCurrentUser(existingUser);
                 } else {
                     setCurrentUser({
                         id: firebaseUser.uid,
@@ -84,7 +160,106 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         });
 
         return () => unsubscribe();
-    }, []);
+    }, [repository, isLocalBackend]);
+
+    const userId = currentUser && !currentUser.isNew ? currentUser.id : undefined;
+    const userTeamIds = currentUser?.teamIds.join(',');
+
+    // Coaches see the teams they run; players see the teams they've joined.
+    useEffect(() => {
+        if (!currentUser || !userId) return;
+        return currentUser.role === UserRole.Coach
+            ? repository.watchTeamsForCoach(userId, setTeams, logSyncError)
+            : repository.watchTeams(currentUser.teamIds, setTeams, logSyncError);
+    }, [repository, userId, userTeamIds]);
+
+    // Default to the user's first team once their teams arrive.
+    useEffect(() => {
+        if (activeTeamId || teams.length === 0) return;
+        const preferredTeamId = currentUser?.teamIds.find(id => teams.some(t => t.id === id)) ?? teams[0].id;
+        setActiveTeamId(preferredTeamId);
+    }, [teams, activeTeamId, currentUser]);
+
+    // Everything hanging off the active team stays live; switching teams tears these listeners down.
+    useEffect(() => {
+        if (!userId || !activeTeamId) return;
+        const teamId = activeTeamId;
+        const unsubscribers: Unsubscribe[] = [
+            repository.watchPlayersInTeam(teamId, next => setPlayers(prev => replaceScope(prev, (p: Player) => p.teamIds.includes(teamId), next)), logSyncError),
+            repository.watchGroupsForTeam(teamId, next => setGroups(prev => replaceScope(prev, (g: PlayerGroup) => g.teamId === teamId, next)), logSyncError),
+            repository.watchDrillsForTeam(teamId, next => setDrills(prev => replaceScope(prev, (d: Drill) => d.teamId === teamId, next)), logSyncError),
+            repository.watchSessionsForTeam(teamId, next => setSessions(prev => replaceScope(prev, (s: Session) => s.teamId === teamId, next)), logSyncError),
+            repository.watchSessionAuditForTeam(teamId, next => setSessionAudit(prev => replaceScope(prev, (e: SessionAuditEntry) => e.teamId === teamId, next)), logSyncError),
+            repository.watchSessionCommentsForTeam(teamId, next => setSessionComments(prev => replaceScope(prev, (c: SessionComment) => c.teamId === teamId, next)), logSyncError),
+            repository.watchAssignmentsForTeam(teamId, next => setAssignments(prev => replaceScope(prev, (a: DrillAssignment) => a.teamId === teamId, next)), logSyncError),
+            repository.watchPlansForTeam(teamId, next => setPlans(prev => replaceScope(prev, (p: PracticePlan) => p.teamId === teamId, next)), logSyncError),
+            repository.watchTeamGoals(teamId, next => setTeamGoals(prev => replaceScope(prev, (g: TeamGoal) => g.teamId === teamId, next)), logSyncError),
+        ];
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }, [repository, userId, activeTeamId]);
+
+    // A player's own history spans every team they've been on.
+    useEffect(() => {
+        if (!currentUser || !userId || currentUser.role !== UserRole.Player) return;
+        const unsubscribers: Unsubscribe[] = [
+            repository.watchSessionsForPlayer(userId, next => setSessions(prev => replaceScope(prev, (s: Session) => s.playerId === userId, next)), logSyncError),
+            repository.watchSessionAuditForPlayer(userId, next => setSessionAudit(prev => replaceScope(prev, (e: SessionAuditEntry) => e.playerId === userId, next)), logSyncError),
+            repository.watchSessionCommentsForPlayer(userId, next => setSessionComments(prev => replaceScope(prev, (c: SessionComment) => c.playerId === userId, next)), logSyncError),
+        ];
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }, [repository, userId]);
+
+    // Restore the sessions this user queued, including imports for players, and replay them now and whenever the connection comes back.
+    useEffect(() => {
+        if (!userId) return;
+        let flushing = false;
+
+        const flush = async () => {
+            if (flushing || !navigator.onLine) return;
+            flushing = true;
+            try {
+                const queued = (await loadPendingSessions()).filter(p => isQueuedBy(p, userId));
+                const failed: string[] = [];
+                // Each session is tried on its own, so one the backend keeps rejecting doesn't hold up the rest.
+                for (const { session } of queued) {
+                    try {
+                        // createSession is idempotent on clientId, so a write that landed before timing out isn't duplicated.
+                        const saved = await withTimeout<Session>(repository.createSession(session), SESSION_WRITE_TIMEOUT_MS);
+                        await removePendingSession(session.clientId);
+                        setPendingSessions(prev => prev.filter(s => s.clientId !== session.clientId));
+                        setSessions(prev => upsertById(prev, saved));
+                    } catch (error) {
+                        console.error("Error syncing pending session: ", error);
+                        failed.push(session.clientId);
+                    }
+                }
+                setFailedSyncIds(failed);
+            } catch (error) {
+                console.error("Error loading pending sessions: ", error);
+            } finally {
+                flushing = false;
+            }
+        };
+
+        loadPendingSessions().then(queue => {
+            setPendingSessions(queue.filter(p => isQueuedBy(p, userId)).map(toPendingSession));
+            flush();
+        });
+        window.addEventListener('online', flush);
+        return () => window.removeEventListener('online', flush);
+    }, [repository, userId]);
+
+    // Players follow their own goals; coaches follow the goals of everyone on the active team.
+    const goalOwnerIds = currentUser?.role === UserRole.Coach
+        ? players.filter(p => activeTeamId && p.teamIds.includes(activeTeamId)).map(p => p.id).join(',')
+        : userId ?? '';
+
+    useEffect(() => {
+        const unsubscribers = goalOwnerIds.split(',').filter(Boolean).map(playerId =>
+            repository.watchGoalsForPlayer(playerId, next => setGoals(prev => replaceScope(prev, (g: PersonalGoal) => g.playerId === playerId, next)), logSyncError)
+        );
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }, [repository, goalOwnerIds]);
 
     const sendVerificationCode = (phoneNumber: string, appVerifier: RecaptchaVerifier): Promise<ConfirmationResult> => {
         return signInWithPhoneNumber(auth, phoneNumber, appVerifier);
@@ -96,191 +271,736 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
     const createUserProfile = async (profileData: { name: string; role: UserRole; playerProfile?: PlayerProfile }) => {
         if (!auth.currentUser) throw new Error("No authenticated user found.");
-        
-        const userRef = doc(db, 'users', auth.currentUser.uid);
-        
-        const newUser: Omit<User, 'id'> = {
+
+        const newUser: User = {
+            id: auth.currentUser.uid,
             name: profileData.name,
             role: profileData.role,
             phoneNumber: auth.currentUser.phoneNumber,
             teamIds: [],
         };
-        
+
         if (profileData.role === UserRole.Player && profileData.playerProfile) {
             (newUser as Player).profile = profileData.playerProfile;
         }
 
-        await setDoc(userRef, newUser);
-
-        const userSnap = await getDoc(userRef);
-        setCurrentUser({ id: userSnap.id, ...userSnap.data() } as User);
+        await repository.saveUser(newUser);
+        setCurrentUser(await repository.getUser(newUser.id));
     };
 
     const logout = () => {
-        signOut(auth);
+        if (!isLocalBackend) {
+            signOut(auth);
+        }
+        setCurrentUser(null);
         setTeams([]);
         setPlayers([]);
+        setGroups([]);
         setDrills([]);
         setSessions([]);
+        setSessionAudit([]);
+        setSessionComments([]);
         setAssignments([]);
+        setPlans([]);
         setGoals([]);
         setTeamGoals([]);
+        setJoinCodes([]);
+        setPendingSessions([]);
+        setFailedSyncIds([]);
         setActiveTeamId(undefined);
     };
 
-    const setDevUser = (role: UserRole) => {
+    const setDevUser = async (role: UserRole) => {
         setLoading(true);
-        setTeams([MOCK_TEAM]);
-        setPlayers(MOCK_PLAYERS);
-        setDrills(MOCK_DRILLS);
-        setSessions(MOCK_SESSIONS);
-        setAssignments(MOCK_ASSIGNMENTS);
-        setGoals(MOCK_GOALS);
-        setTeamGoals(MOCK_TEAM_GOALS);
-
-        if (role === UserRole.Coach) {
-            setCurrentUser(MOCK_COACH);
-            setActiveTeamId(MOCK_TEAM.id);
-        } else {
-            setCurrentUser(MOCK_PLAYERS[0]);
+        const devUserId = role === UserRole.Coach ? MOCK_COACH.id : MOCK_PLAYERS[0].id;
+        const devUser = await repository.getUser(devUserId);
+        setCurrentUser(devUser);
+        if (devUser && role === UserRole.Coach && devUser.teamIds.length > 0) {
+            setActiveTeamId(devUser.teamIds[0]);
         }
         setLoading(false);
     };
 
     const getTeamsForCoach = (coachId: string) => teams.filter(t => t.coachId === coachId);
+    const getTeam = (teamId: string) => teams.find(t => t.id === teamId);
     const getPlayersInTeam = (teamId: string) => players.filter(p => p.teamIds.includes(teamId));
+    const getGroupsForTeam = (teamId: string) => groups.filter(g => g.teamId === teamId).sort((a, b) => a.name.localeCompare(b.name));
     const getDrillsForTeam = (teamId: string) => drills.filter(d => d.teamId === teamId);
-    const getSessionsForTeam = (teamId: string) => sessions.filter(s => s.teamId === teamId);
-    const getSessionsForPlayer = (playerId: string) => sessions.filter(s => s.playerId === playerId);
+    // Queued sessions count everywhere until their synced copy arrives from the backend.
+    const syncedClientIds = new Set(sessions.map(s => s.clientId).filter(Boolean));
+    const allSessions = [...sessions, ...pendingSessions.filter(s => !syncedClientIds.has(s.clientId))];
+    const getSessionsForTeam = (teamId: string) => allSessions.filter(s => s.teamId === teamId);
+    const getSessionsForPlayer = (playerId: string) => allSessions.filter(s => s.playerId === playerId);
+    const isSessionPendingSync = (sessionId: string) => pendingSessions.some(s => s.id === sessionId) && !sessions.some(s => s.id === sessionId);
+    // Pending session ids are their client ids.
+    const hasSessionSyncFailed = (sessionId: string) => isSessionPendingSync(sessionId) && failedSyncIds.includes(sessionId);
+    const getOpenAssignmentsForPlayerToday = (playerId: string, teamId: string): DrillAssignment[] => {
+        const player = players.find(p => p.id === playerId) || (currentUser?.id === playerId ? currentUser as Player : undefined);
+        if (!player) return [];
+        const todayKey = toDateKey(new Date());
+        const playerSessions = allSessions.filter(s => s.playerId === playerId);
+        const teamGroups = groups.filter(g => g.teamId === teamId);
+
+        // One-time assignments stay on the list, overdue or not, until the player logs the drill.
+        return assignments
+            .filter(a => a.teamId === teamId && isAssignmentOpenOn(a, todayKey) && isPlayerAssigned(a, player, teamGroups))
+            .filter(a => {
+                if (a.isRecurring) return true;
+                const completion = getPlayerAssignmentCompletion(a, player, playerSessions);
+                return completion.expected > 0 && completion.completed === 0;
+            });
+    };
     const getAssignedDrillsForPlayerToday = (playerId: string, teamId: string): Drill[] => {
-        const today = new Date();
-        const dayOfWeek: DayOfWeek = today.toLocaleDateString('en-US', { weekday: 'short' }) as DayOfWeek;
-        
-        const assignedDrillIds = assignments
-            .filter(a => a.teamId === teamId && a.playerIds.includes(playerId) && a.isRecurring && a.recurringDays?.includes(dayOfWeek))
-            .map(a => a.drillId);
-
-        return drills.filter(d => assignedDrillIds.includes(d.id));
-    };
-    
-    const createDrill = (drillData: Omit<Drill, 'id' | 'teamId'>, teamId: string) => {
-        if(currentUser?.id.startsWith('coach-')) {
-            const newDrill: Drill = { id: `drill-${Date.now()}`, teamId, ...drillData };
-            setDrills(prev => [...prev, newDrill]);
-            return;
+        const assignedDrillIds = getOpenAssignmentsForPlayerToday(playerId, teamId).map(a => a.drillId);
+        return drills.filter(d => assignedDrillIds.includes(d.id) && !d.archived);
+    };
+    const getAssignedPlansForPlayerToday = (playerId: string, teamId: string): PracticePlan[] => {
+        const assignedPlanIds = getOpenAssignmentsForPlayerToday(playerId, teamId).map(a => a.planId);
+        return plans.filter(p => assignedPlanIds.includes(p.id) && !p.archived);
+    };
+
+    const createGroup = async (groupData: Omit<PlayerGroup, 'id'>) => {
+        try {
+            const newGroup = await repository.createGroup(groupData);
+            setGroups(prev => upsertById(prev, newGroup));
+        } catch (error) {
+            console.error("Error creating group: ", error);
         }
     };
-    
-    const createAssignment = (assignmentData: Omit<DrillAssignment, 'id' | 'assignedDate'>) => {
-        if(currentUser?.id.startsWith('coach-')) {
-            const newAssignment: DrillAssignment = { id: `assign-${Date.now()}`, assignedDate: new Date().toISOString(), ...assignmentData };
-            setAssignments(prev => [...prev, newAssignment]);
-            return;
+
+    const updateGroup = async (group: PlayerGroup) => {
+        try {
+            await repository.updateGroup(group);
+            setGroups(prev => prev.map(g => g.id === group.id ? group : g));
+        } catch (error) {
+            console.error("Error updating group: ", error);
+        }
+    };
+
+    const deleteGroup = async (groupId: string) => {
+        try {
+            await repository.deleteGroup(groupId);
+            setGroups(prev => prev.filter(g => g.id !== groupId));
+        } catch (error) {
+            console.error("Error deleting group: ", error);
+        }
+    };
+
+    const createDrill = async (drillData: Omit<Drill, 'id' | 'teamId'>, teamId: string) => {
+        try {
+            const newDrill = await repository.createDrill({ teamId, ...drillData });
+            setDrills(prev => upsertById(prev, newDrill));
+        } catch (error) {
+            console.error("Error creating drill: ", error);
+        }
+    };
+
+    const updateDrill = async (drill: Drill) => {
+        const current = drills.find(d => d.id === drill.id);
+        if (!current) return;
+        const revised = reviseDrill(current, drill);
+        try {
+            await repository.updateDrill(revised);
+            setDrills(prev => prev.map(d => d.id === revised.id ? revised : d));
+        } catch (error) {
+            console.error("Error updating drill: ", error);
         }
     };
-    
-    const logSession = (sessionData: Omit<Session, 'id'>): Session | undefined => {
-        if(currentUser?.id.startsWith('player-')) {
-            const newSession: Session = { id: `session-${Date.now()}`, ...sessionData };
-            setSessions(prev => [...prev, newSession]);
-            MOCK_SESSIONS.push(newSession);
-            return newSession;
+
+    const duplicateDrill = async (drillId: string) => {
+        const source = drills.find(d => d.id === drillId);
+        if (!source) return;
+        // The copy is a new drill with no history of its own.
+        const { id, version, previousVersions, archived, ...drillData } = source;
+        await createDrill({ ...drillData, name: `${source.name} (Copy)` }, source.teamId);
+    };
+
+    const setDrillArchived = async (drillId: string, archived: boolean) => {
+        const drill = drills.find(d => d.id === drillId);
+        if (!drill) return;
+        try {
+            await repository.updateDrill({ ...drill, archived });
+            setDrills(prev => prev.map(d => d.id === drillId ? { ...d, archived } : d));
+        } catch (error) {
+            console.error("Error archiving drill: ", error);
+        }
+    };
+
+    // Why a drill can't be deleted, if it can't: deleting it would orphan its sessions, plans or open assignments.
+    const getDrillDeleteBlocker = (drillId: string): string | undefined => {
+        if (sessions.some(s => s.drillId === drillId)) {
+            return "This drill has logged sessions. Archive it instead to keep their history.";
+        }
+        const plan = plans.find(p => p.items.some(item => item.drillId === drillId));
+        if (plan) {
+            return `This drill is part of the "${plan.name}" practice plan. Remove it from the plan first.`;
+        }
+        const todayKey = toDateKey(new Date());
+        if (assignments.some(a => a.drillId === drillId && isAssignmentInEffect(a, todayKey))) {
+            return "This drill is assigned to players. End or remove the assignment first.";
         }
         return undefined;
     };
-    
-    const createTeam = async (teamData: Omit<Team, 'id'|'coachId'>, coachId: string): Promise<string | undefined> => {
-        if(currentUser?.id.startsWith('coach-')) {
-            const newTeam: Team = { id: `team-${Date.now()}`, coachId, ...teamData };
-            setTeams(prev => [...prev, newTeam]);
-            return newTeam.id;
+
+    const deleteDrill = async (drillId: string) => {
+        const blocker = getDrillDeleteBlocker(drillId);
+        if (blocker) {
+            console.error("Error deleting drill: ", blocker);
+            return;
+        }
+        try {
+            await repository.deleteDrill(drillId);
+            setDrills(prev => prev.filter(d => d.id !== drillId));
+        } catch (error) {
+            console.error("Error deleting drill: ", error);
+        }
+    };
+
+    const getAssignmentsForTeam = (teamId: string) => assignments.filter(a => a.teamId === teamId);
+
+    const createAssignment = async (assignmentData: Omit<DrillAssignment, 'id' | 'assignedDate'>) => {
+        try {
+            const newAssignment = await repository.createAssignment({ assignedDate: new Date().toISOString(), ...assignmentData });
+            setAssignments(prev => upsertById(prev, newAssignment));
+        } catch (error) {
+            console.error("Error creating assignment: ", error);
+        }
+    };
+
+    const updateAssignment = async (assignment: DrillAssignment) => {
+        try {
+            await repository.updateAssignment(assignment);
+            setAssignments(prev => prev.map(a => a.id === assignment.id ? assignment : a));
+        } catch (error) {
+            console.error("Error updating assignment: ", error);
+        }
+    };
+
+    const cancelAssignment = async (assignmentId: string) => {
+        const assignment = assignments.find(a => a.id === assignmentId);
+        if (!assignment) return;
+        await updateAssignment({ ...assignment, cancelledAt: new Date().toISOString() });
+    };
+
+    const getPlansForTeam = (teamId: string) => plans.filter(p => p.teamId === teamId).sort((a, b) => a.name.localeCompare(b.name));
+
+    const createPlan = async (planData: Omit<PracticePlan, 'id'>) => {
+        try {
+            const newPlan = await repository.createPlan(planData);
+            setPlans(prev => upsertById(prev, newPlan));
+        } catch (error) {
+            console.error("Error creating practice plan: ", error);
+        }
+    };
+
+    const updatePlan = async (plan: PracticePlan) => {
+        try {
+            await repository.updatePlan(plan);
+            setPlans(prev => prev.map(p => p.id === plan.id ? plan : p));
+        } catch (error) {
+            console.error("Error updating practice plan: ", error);
+        }
+    };
+
+    // Logged sessions keep their planId, so deleting a plan doesn't touch their history.
+    const deletePlan = async (planId: string) => {
+        try {
+            await repository.deletePlan(planId);
+            setPlans(prev => prev.filter(p => p.id !== planId));
+        } catch (error) {
+            console.error("Error deleting practice plan: ", error);
+        }
+    };
+
+    const logSession = async (sessionData: Omit<Session, 'id'>): Promise<Session | undefined> => {
+        const drill = drills.find(d => d.id === sessionData.drillId);
+        const session = { ...sessionData, clientId: generateClientId(), ...(drill && { drillVersion: drill.version || 1 }) };
+
+        if (isLocalBackend || navigator.onLine) {
+            try {
+                const newSession = await withTimeout<Session>(repository.createSession(session), SESSION_WRITE_TIMEOUT_MS);
+                setSessions(prev => upsertById(prev, newSession));
+                return newSession;
+            } catch (error) {
+                console.error("Error logging session, queueing for sync: ", error);
+            }
         }
+
+        if (!currentUser) return undefined;
         try {
-            const teamDocRef = await addDoc(collection(db, "teams"), { ...teamData, coachId });
-            const newTeam: Team = { id: teamDocRef.id, coachId, ...teamData };
-            setTeams(prev => [...prev, newTeam]);
-            const code = generateTeamCode();
-            const joinCodeRef = doc(db, "joinCodes", code);
-            await setDoc(joinCodeRef, { teamId: teamDocRef.id });
-            setJoinCodes(prev => [...prev, {id: code, teamId: teamDocRef.id}]);
-            return teamDocRef.id;
+            await enqueueSession(session, currentUser.id);
+            const pendingSession = toPendingSession({ session, queuedAt: new Date().toISOString() });
+            setPendingSessions(prev => upsertById(prev, pendingSession));
+            return pendingSession;
+        } catch (error) {
+            console.error("Error queueing session: ", error);
+            return undefined;
+        }
+    };
+
+    // Players can correct their own sessions; coaches can correct any session on a team they run.
+    const canEditSession = (session: Session): boolean => {
+        if (!currentUser || isSessionPendingSync(session.id)) return false;
+        if (session.playerId === currentUser.id) return true;
+        return currentUser.role === UserRole.Coach && teams.some(t => t.id === session.teamId && t.coachId === currentUser.id);
+    };
+
+    const buildSessionChange = (action: SessionAuditEntry['action'], before: Session, after?: Session): Omit<SessionAuditEntry, 'id'> => ({
+        sessionId: before.id,
+        playerId: before.playerId,
+        teamId: before.teamId,
+        action,
+        changedBy: currentUser!.id,
+        changedByName: currentUser!.name,
+        changedAt: new Date().toISOString(),
+        before,
+        after,
+    });
+
+    const updateSession = async (session: Session) => {
+        const before = sessions.find(s => s.id === session.id);
+        if (!before || !canEditSession(before)) return;
+        const after: Session = { ...session, updatedAt: new Date().toISOString() };
+        try {
+            const entry = await repository.updateSession(after, buildSessionChange('edited', before, after));
+            setSessions(prev => prev.map(s => s.id === after.id ? after : s));
+            setSessionAudit(prev => upsertById(prev, entry));
+        } catch (error) {
+            console.error("Error updating session: ", error);
+        }
+    };
+
+    const deleteSession = async (session: Session) => {
+        if (!canEditSession(session)) return;
+        try {
+            const entry = await repository.deleteSession(session.id, buildSessionChange('deleted', session));
+            setSessions(prev => prev.filter(s => s.id !== session.id));
+            setSessionAudit(prev => upsertById(prev, entry));
+        } catch (error) {
+            console.error("Error deleting session: ", error);
+        }
+    };
+
+    const getSessionAuditForPlayer = (playerId: string) => sessionAudit
+        .filter(e => e.playerId === playerId)
+        .sort((a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime());
+
+    // Oldest first, the way a conversation reads.
+    const getSessionComments = (sessionId: string) => sessionComments
+        .filter(c => c.sessionId === sessionId)
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    const getUnreadComments = () => currentUser ? sessionComments.filter(c => !c.readBy.includes(currentUser.id)) : [];
+
+    // The thread is between the session's player and the coach of its team.
+    const canCommentOnSession = (session: Session): boolean => {
+        if (!currentUser || isSessionPendingSync(session.id)) return false;
+        if (session.playerId === currentUser.id) return true;
+        return currentUser.role === UserRole.Coach && teams.some(t => t.id === session.teamId && t.coachId === currentUser.id);
+    };
+
+    const addSessionComment = async (session: Session, body: string): Promise<SessionComment | undefined> => {
+        if (!currentUser || !canCommentOnSession(session) || !body.trim()) return undefined;
+        try {
+            const comment = await repository.createSessionComment({
+                sessionId: session.id,
+                playerId: session.playerId,
+                teamId: session.teamId,
+                authorId: currentUser.id,
+                authorName: currentUser.name,
+                authorRole: currentUser.role,
+                body: body.trim(),
+                createdAt: new Date().toISOString(),
+                readBy: [currentUser.id],
+            });
+            setSessionComments(prev => upsertById(prev, comment));
+            return comment;
+        } catch (error) {
+            console.error("Error adding session comment: ", error);
+            return undefined;
+        }
+    };
+
+    const markSessionCommentsRead = async (sessionId: string) => {
+        if (!currentUser) return;
+        const userId = currentUser.id;
+        const unreadIds = sessionComments.filter(c => c.sessionId === sessionId && !c.readBy.includes(userId)).map(c => c.id);
+        if (unreadIds.length === 0) return;
+        try {
+            await repository.markSessionCommentsRead(unreadIds, userId);
+            setSessionComments(prev => prev.map(c => unreadIds.includes(c.id) ? { ...c, readBy: [...c.readBy, userId] } : c));
+        } catch (error) {
+            console.error("Error marking comments read: ", error);
+        }
+    };
+
+    const createTeam = async (teamData: Omit<Team, 'id'|'coachId'>, coachId: string): Promise<string | undefined> => {
+        try {
+            const newTeam = await repository.createTeam({ ...teamData, coachId });
+            setTeams(prev => upsertById(prev, newTeam));
+            const joinCode = await repository.createJoinCode(newTeam.id);
+            setJoinCodes(prev => [...prev, joinCode]);
+            return newTeam.id;
         } catch (error) {
             console.error("Error creating team: ", error);
             return undefined;
         }
     };
-    
+
     const getJoinCodeForTeam = async (teamId: string): Promise<string | null> => {
-        if(currentUser?.id.startsWith('coach-')) {
-            return generateTeamCode();
-        }
         const cachedCode = joinCodes.find(c => c.teamId === teamId);
         if (cachedCode) return cachedCode.id;
 
-        const q = query(collection(db, "joinCodes"), where("teamId", "==", teamId));
-        const querySnapshot = await getDocs(q);
-        if (!querySnapshot.empty) {
-            const codeDoc = querySnapshot.docs[0];
-            const newCode = { id: codeDoc.id, teamId: codeDoc.data().teamId };
-            setJoinCodes(prev => [...prev, newCode]);
-            return codeDoc.id;
+        const joinCode = await repository.getJoinCodeForTeam(teamId);
+        if (joinCode) {
+            setJoinCodes(prev => [...prev, joinCode]);
+            return joinCode.id;
         }
         return null;
     };
 
-    const joinTeamWithCode = async (code: string, playerId: string): Promise<void> => {
-        if(currentUser?.id.startsWith('player-')) {
-            throw new Error("This functionality is not available in dev mode.");
+    // Restores a backup as a new team. Records are created in dependency order so each can point at its restored parents.
+    const restoreTeamBackup = async (backup: TeamBackup, coachId: string): Promise<RestoreReport> => {
+        const teamName = getRestoredTeamName(backup.team.name, teams.filter(t => t.coachId === coachId));
+        const conflicts: string[] = [];
+        if (teamName !== backup.team.name) {
+            conflicts.push(`You already have a team named "${backup.team.name}", so this one was restored as "${teamName}".`);
+        }
+
+        const { id, ...teamFields } = backup.team;
+        const newTeam = await repository.createTeam({ ...teamFields, name: teamName, coachId });
+        setTeams(prev => upsertById(prev, newTeam));
+        const joinCode = await repository.createJoinCode(newTeam.id);
+        setJoinCodes(prev => [...prev, joinCode]);
+
+        const ids: BackupIdMap = { teamId: newTeam.id, players: new Set<string>(), groups: new Map(), drills: new Map(), plans: new Map() };
+        const created = { groups: 0, drills: 0, plans: 0, assignments: 0, sessions: 0, personalGoals: 0, teamGoals: 0 };
+
+        // Only team-owned data is restored. Joining a team is the player's own choice, so the roster rejoins with the
+        // new team code; their sessions and goals are restored now for anyone whose account still exists.
+        const linkedPlayers: string[] = [];
+        const missingPlayers: string[] = [];
+        for (const player of backup.players) {
+            const account = await repository.getUser(player.id);
+            if (!account || account.role !== UserRole.Player) {
+                missingPlayers.push(player.name);
+                continue;
+            }
+            ids.players.add(player.id);
+            linkedPlayers.push(player.name);
+        }
+        if (linkedPlayers.length > 0) {
+            conflicts.push(`Players aren't added to a restored team for them. Ask ${linkedPlayers.join(', ')} to join with the new team code ${joinCode.id}.`);
+        }
+        if (missingPlayers.length > 0) {
+            conflicts.push(`No account was found for ${missingPlayers.join(', ')}. Their sessions and goals were skipped; they can join with the new team code.`);
+        }
+
+        for (const group of backup.groups) {
+            const newGroup = await repository.createGroup(remapGroup(group, ids));
+            ids.groups.set(group.id, newGroup.id);
+            created.groups++;
+        }
+        for (const { id, ...drill } of backup.drills) {
+            const newDrill = await repository.createDrill({ ...drill, teamId: newTeam.id });
+            ids.drills.set(id, newDrill.id);
+            created.drills++;
+        }
+        for (const plan of backup.plans) {
+            const newPlan = await repository.createPlan(remapPlan(plan, ids));
+            ids.plans.set(plan.id, newPlan.id);
+            created.plans++;
+        }
+
+        let skipped = 0;
+        for (const assignment of backup.assignments) {
+            const remapped = remapAssignment(assignment, ids);
+            if (!remapped) { skipped++; continue; }
+            await repository.createAssignment(remapped);
+            created.assignments++;
+        }
+        let duplicateSessions = 0;
+        const existingSessions = new Map<string, Session[]>();
+        for (const session of backup.sessions) {
+            const remapped = remapSession(session, ids);
+            if (!remapped) { skipped++; continue; }
+            if (!existingSessions.has(session.playerId)) existingSessions.set(session.playerId, await repository.getSessionsForPlayer(session.playerId));
+            if (existingSessions.get(session.playerId)!.some(existing => isSameSession(existing, session))) { duplicateSessions++; continue; }
+            await repository.createSession(remapped);
+            created.sessions++;
+        }
+
+        let duplicateGoals = 0;
+        const existingGoals = new Map<string, PersonalGoal[]>();
+        for (const { id, ...goal } of backup.personalGoals) {
+            if (!ids.players.has(goal.playerId)) { skipped++; continue; }
+            if (!existingGoals.has(goal.playerId)) existingGoals.set(goal.playerId, await repository.getGoalsForPlayer(goal.playerId));
+            if (existingGoals.get(goal.playerId)!.some(existing => isSameGoal(existing, goal))) { duplicateGoals++; continue; }
+            await repository.createGoal(remapPersonalGoal(goal, backup.team.id, ids));
+            created.personalGoals++;
         }
-        const codeRef = doc(db, "joinCodes", code);
-        const codeSnap = await getDoc(codeRef);
+        for (const goal of backup.teamGoals) {
+            await repository.createTeamGoal(remapTeamGoal(goal, ids));
+            created.teamGoals++;
+        }
+
+        if (duplicateSessions > 0) conflicts.push(`${duplicateSessions} session(s) are already in their players' histories and were not duplicated.`);
+        if (duplicateGoals > 0) conflicts.push(`${duplicateGoals} personal goal(s) already existed for their players and were not duplicated.`);
+        if (skipped > 0) conflicts.push(`${skipped} record(s) pointed at players, drills or plans that couldn't be restored and were skipped.`);
 
-        if (!codeSnap.exists()) {
+        // The team listeners pick up everything else once the restored team is active.
+        setActiveTeamId(newTeam.id);
+        return {
+            teamId: newTeam.id,
+            teamName,
+            created: [
+                { label: 'Groups', count: created.groups },
+                { label: 'Drills', count: created.drills },
+                { label: 'Practice Plans', count: created.plans },
+                { label: 'Assignments', count: created.assignments },
+                { label: 'Sessions', count: created.sessions },
+                { label: 'Personal Goals', count: created.personalGoals },
+                { label: 'Team Goals', count: created.teamGoals },
+            ],
+            conflicts,
+        };
+    };
+
+    // Closes the season in progress: active goals for the team and its roster are archived, open assignments are
+    // archived, and the team moves on to the new season. The season itself is bumped last, so a rollover that fails
+    // partway can simply be run again.
+    const startNewSeason = async (teamId: string, seasonYear: number): Promise<Team | undefined> => {
+        const team = teams.find(t => t.id === teamId);
+        if (!team) return undefined;
+        const endedAt = new Date().toISOString();
+        const todayKey = toDateKey(new Date());
+        const roster = players.filter(p => p.teamIds.includes(teamId));
+        // Goals set for another team the player is on carry over. Older goals without a team only go when the
+        // player has no other team, or when this team's coach set them.
+        const isTeamGoalOf = (goal: PersonalGoal) => {
+            if (goal.teamId) return goal.teamId === teamId;
+            const player = roster.find(p => p.id === goal.playerId);
+            return !!player && (player.teamIds.length === 1 || goal.assignedById === team.coachId);
+        };
+        try {
+            for (const goal of teamGoals.filter(g => g.teamId === teamId && g.status === 'Active')) {
+                const archived: TeamGoal = { ...goal, status: 'Archived' };
+                await repository.updateTeamGoal(archived);
+                setTeamGoals(prev => upsertById(prev, archived));
+            }
+            for (const goal of goals.filter(g => g.status === 'Active' && isTeamGoalOf(g))) {
+                const archived: PersonalGoal = { ...goal, status: 'Archived' };
+                await repository.updateGoal(archived);
+                setGoals(prev => upsertById(prev, archived));
+            }
+            const openAssignments = assignments.filter(a => a.teamId === teamId && isAssignmentInEffect(a, todayKey));
+            for (const assignment of openAssignments) {
+                const archived: DrillAssignment = { ...assignment, archivedAt: endedAt };
+                await repository.updateAssignment(archived);
+                setAssignments(prev => upsertById(prev, archived));
+            }
+            const nextTeam: Team = {
+                ...team,
+                seasonYear,
+                pastSeasons: [...(team.pastSeasons || []), { year: team.seasonYear, endedAt }],
+            };
+            await repository.updateTeam(nextTeam);
+            setTeams(prev => upsertById(prev, nextTeam));
+            return nextTeam;
+        } catch (error) {
+            console.error("Error starting new season: ", error);
+            return undefined;
+        }
+    };
+
+    const joinTeamWithCode = async (code: string, playerId: string): Promise<void> => {
+        const joinCode = await repository.findJoinCode(code);
+
+        if (!joinCode) {
             throw new Error("Invalid team code. Please check the code and try again.");
         }
-        const { teamId } = codeSnap.data();
-        const playerRef = doc(db, "users", playerId);
-        await updateDoc(playerRef, { teamIds: arrayUnion(teamId) });
-        setCurrentUser(prev => prev ? { ...prev, teamIds: [...prev.teamIds, teamId] } : null);
+        const joinedAt = new Date().toISOString();
+        await repository.addPlayerToTeam(playerId, joinCode.teamId, joinedAt);
+        setCurrentUser(prev => prev ? {
+            ...prev,
+            teamIds: [...prev.teamIds, joinCode.teamId],
+            teamJoinedAt: { ...prev.teamJoinedAt, [joinCode.teamId]: joinedAt },
+        } : null);
     };
 
     const getGoalsForPlayer = (playerId: string) => goals.filter(g => g.playerId === playerId);
-    
-    const createGoal = (goalData: Omit<PersonalGoal, 'id'>) => {
-        if(currentUser?.id.startsWith('player-')) {
-             const newGoal: PersonalGoal = { id: `goal-${Date.now()}`, ...goalData };
-            setGoals(prev => [...prev, newGoal]);
-            MOCK_GOALS.push(newGoal);
-            return;
+
+    const createGoal = async (goalData: Omit<PersonalGoal, 'id'>) => {
+        try {
+            const newGoal = await repository.createGoal(goalData);
+            setGoals(prev => upsertById(prev, newGoal));
+        } catch (error) {
+            console.error("Error creating goal: ", error);
+        }
+    };
+
+    // Coaches set goals for players on their team; the player sees who set it and acknowledges it.
+    const assignGoalToPlayer = async (playerId: string, goalData: GoalDetails) => {
+        if (!currentUser || currentUser.role !== UserRole.Coach) return;
+        await createGoal({
+            ...goalData,
+            playerId,
+            ...(activeTeamId && { teamId: activeTeamId }),
+            status: 'Active',
+            startDate: new Date().toISOString(),
+            assignedById: currentUser.id,
+            assignedByName: currentUser.name,
+        });
+    };
+
+    // The old filters are dropped first; spreading goalData alone would keep any the form cleared.
+    // A changed goal needs acknowledging again, since the player hasn't seen the new version.
+    const updateGoalDetails = async (goal: PersonalGoal, goalData: GoalDetails) => {
+        const { drillType, targetZones, minReps, acknowledgedAt, ...rest } = goal;
+        const detailKeys: (keyof GoalDetails)[] = ['metric', 'targetValue', 'targetDate', 'drillType', 'targetZones', 'minReps'];
+        const isChanged = detailKeys.some(key => JSON.stringify(goal[key]) !== JSON.stringify(goalData[key]));
+        const updated: PersonalGoal = { ...rest, ...goalData, ...(!isChanged && acknowledgedAt && { acknowledgedAt }) };
+        try {
+            await repository.updateGoal(updated);
+            setGoals(prev => upsertById(prev, updated));
+        } catch (error) {
+            console.error("Error updating goal: ", error);
+        }
+    };
+
+    // Archiving retires a goal without recording it as met or missed.
+    const archiveGoal = async (goalId: string) => {
+        const goal = goals.find(g => g.id === goalId);
+        if (!goal) return;
+        const archived: PersonalGoal = { ...goal, status: 'Archived' };
+        try {
+            await repository.updateGoal(archived);
+            setGoals(prev => upsertById(prev, archived));
+        } catch (error) {
+            console.error("Error archiving goal: ", error);
         }
     };
-    
-    const deleteGoal = (goalId: string) => {
-        if(currentUser?.id.startsWith('player-') || currentUser?.id.startsWith('coach-')) {
+
+    const acknowledgeGoal = async (goalId: string) => {
+        const goal = goals.find(g => g.id === goalId);
+        if (!goal || goal.acknowledgedAt) return;
+        const acknowledged: PersonalGoal = { ...goal, acknowledgedAt: new Date().toISOString() };
+        try {
+            await repository.updateGoal(acknowledged);
+            setGoals(prev => upsertById(prev, acknowledged));
+        } catch (error) {
+            console.error("Error acknowledging goal: ", error);
+        }
+    };
+
+    const deleteGoal = async (goalId: string) => {
+        try {
+            await repository.deleteGoal(goalId);
             setGoals(prev => prev.filter(g => g.id !== goalId));
-            const index = MOCK_GOALS.findIndex(g => g.id === goalId);
-            if(index > -1) MOCK_GOALS.splice(index, 1);
-            return;
+        } catch (error) {
+            console.error("Error deleting goal: ", error);
         }
     };
 
     const getTeamGoals = (teamId: string) => teamGoals.filter(g => g.teamId === teamId);
 
-    const createTeamGoal = (goalData: Omit<TeamGoal, 'id'>) => {
-        if (currentUser?.id.startsWith('coach-')) {
-            const newGoal: TeamGoal = { id: `team-goal-${Date.now()}`, ...goalData };
-            setTeamGoals(prev => [...prev, newGoal]);
-            MOCK_TEAM_GOALS.push(newGoal);
-            return;
+    const createTeamGoal = async (goalData: Omit<TeamGoal, 'id'>) => {
+        try {
+            const newGoal = await repository.createTeamGoal(goalData);
+            setTeamGoals(prev => upsertById(prev, newGoal));
+        } catch (error) {
+            console.error("Error creating team goal: ", error);
         }
     };
 
-    const deleteTeamGoal = (goalId: string) => {
-        if (currentUser?.id.startsWith('coach-')) {
+    const deleteTeamGoal = async (goalId: string) => {
+        try {
+            await repository.deleteTeamGoal(goalId);
             setTeamGoals(prev => prev.filter(g => g.id !== goalId));
-            const index = MOCK_TEAM_GOALS.findIndex(g => g.id === goalId);
-            if (index > -1) MOCK_TEAM_GOALS.splice(index, 1);
-            return;
+        } catch (error) {
+            console.error("Error deleting team goal: ", error);
+        }
+    };
+
+    // Settles active goals for the season in progress as sessions come in and as target dates pass. Players settle
+    // their own goals; the coach settles team goals and the personal goals set for the active team. Goals set for a
+    // team count only that team's sessions, so either device gets the same result; goals without a team can count
+    // sessions from any team, which only the player's device has. Each goal is written once, since it leaves 'Active'.
+    const settlingGoalIds = useRef(new Set<string>());
+    const [todayKey, setTodayKey] = useState(() => toDateKey(new Date()));
+
+    // Ticks over at midnight so goals whose target date has passed are settled without waiting for new data.
+    useEffect(() => {
+        const nextMidnight = new Date();
+        nextMidnight.setHours(24, 0, 1, 0);
+        const timer = setTimeout(() => setTodayKey(toDateKey(new Date())), nextMidnight.getTime() - Date.now());
+        return () => clearTimeout(timer);
+    }, [todayKey]);
+
+    useEffect(() => {
+        if (!currentUser || !activeTeam) return;
+        const now = new Date();
+        const settle = async <T extends { id: string }>(settled: T, save: (goal: T) => Promise<void>, setState: React.Dispatch<React.SetStateAction<T[]>>) => {
+            settlingGoalIds.current.add(settled.id);
+            try {
+                await save(settled);
+                setState(prev => upsertById(prev, settled));
+            } catch (error) {
+                console.error("Error settling goal: ", error);
+            } finally {
+                settlingGoalIds.current.delete(settled.id);
+            }
+        };
+
+        const isCoach = activeTeam.coachId === currentUser.id;
+        const playerIds = isCoach ? getPlayersInTeam(activeTeam.id).map(p => p.id) : [currentUser.id];
+        playerIds.forEach(playerId => {
+            const playerSessions = filterSessionsBySeason(getSessionsForPlayer(playerId), teams, activeTeam.seasonYear);
+            goals
+                .filter(g => g.playerId === playerId && g.status === 'Active' && !settlingGoalIds.current.has(g.id))
+                .filter(g => !isCoach || g.teamId === activeTeam.id)
+                .forEach(goal => {
+                    const settled = evaluatePersonalGoal(goal, playerSessions, drills, now);
+                    if (settled) settle(settled, repository.updateGoal, setGoals);
+                });
+        });
+
+        if (!isCoach) return;
+        const teamSessions = filterSessionsBySeason(getSessionsForTeam(activeTeam.id), [activeTeam], activeTeam.seasonYear);
+        teamGoals
+            .filter(g => g.teamId === activeTeam.id && g.status === 'Active' && !settlingGoalIds.current.has(g.id))
+            .forEach(goal => {
+                const settled = evaluateTeamGoal(goal, teamSessions, drills, getGroupsForTeam(activeTeam.id), now);
+                if (settled) settle(settled, repository.updateTeamGoal, setTeamGoals);
+            });
+    }, [repository, currentUser, activeTeam, teams, players, sessions, pendingSessions, drills, groups, goals, teamGoals, todayKey]);
+
+    // Met and missed goals the current user hasn't dismissed yet: their own goals and the active team's goals.
+    const getGoalOutcomeNotices = () => {
+        if (!currentUser) return { goals: [], teamGoals: [] };
+        const isUnseen = (g: PersonalGoal | TeamGoal) => !!(g.completedAt || g.missedAt) && !(g.outcomeSeenBy || []).includes(currentUser.id);
+        return {
+            goals: goals.filter(g => g.playerId === currentUser.id && isUnseen(g)),
+            teamGoals: teamGoals.filter(g => g.teamId === activeTeamId && isUnseen(g)),
+        };
+    };
+
+    const dismissGoalOutcomeNotices = async () => {
+        if (!currentUser) return;
+        const notices = getGoalOutcomeNotices();
+        try {
+            for (const goal of notices.goals) {
+                const seen: PersonalGoal = { ...goal, outcomeSeenBy: [...(goal.outcomeSeenBy || []), currentUser.id] };
+                await repository.updateGoal(seen);
+                setGoals(prev => upsertById(prev, seen));
+            }
+            for (const goal of notices.teamGoals) {
+                const seen: TeamGoal = { ...goal, outcomeSeenBy: [...(goal.outcomeSeenBy || []), currentUser.id] };
+                await repository.updateTeamGoal(seen);
+                setTeamGoals(prev => upsertById(prev, seen));
+            }
+        } catch (error) {
+            console.error("Error dismissing goal notices: ", error);
         }
     };
 
@@ -293,27 +1013,65 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         createUserProfile,
         logout,
         getTeamsForCoach,
+        getTeam,
         getPlayersInTeam,
+        getGroupsForTeam,
+        createGroup,
+        updateGroup,
+        deleteGroup,
         getDrillsForTeam,
         getSessionsForTeam,
         getSessionsForPlayer,
         getAssignedDrillsForPlayerToday,
         createDrill,
+        updateDrill,
+        duplicateDrill,
+        setDrillArchived,
+        getDrillDeleteBlocker,
+        deleteDrill,
+        getAssignmentsForTeam,
         createAssignment,
+        updateAssignment,
+        cancelAssignment,
+        getPlansForTeam,
+        getAssignedPlansForPlayerToday,
+        createPlan,
+        updatePlan,
+        deletePlan,
         logSession,
+        isSessionPendingSync,
+        hasSessionSyncFailed,
+        canEditSession,
+        updateSession,
+        deleteSession,
+        getSessionAuditForPlayer,
+        getSessionComments,
+        getUnreadComments,
+        canCommentOnSession,
+        addSessionComment,
+        markSessionCommentsRead,
         createTeam,
         getJoinCodeForTeam,
+        restoreTeamBackup,
+        startNewSeason,
         joinTeamWithCode,
         getGoalsForPlayer,
         createGoal,
+        assignGoalToPlayer,
+        updateGoalDetails,
+        archiveGoal,
+        acknowledgeGoal,
         deleteGoal,
         getTeamGoals,
         createTeamGoal,
         deleteTeamGoal,
+        getGoalOutcomeNotices,
+        dismissGoalOutcomeNotices,
         activeTeam,
         setActiveTeamId,
-        setDevUser,
+        // Demo accounts only exist in the local backend's seeded data.
+        setDevUser: isLocalBackend ? setDevUser : undefined,
     };
 
     return <DataContext.Provider value={value}>{children}</DataContext.Provider>;
-}
\ No newline at end of file
+}
@@ -0,0 +1,38 @@
+import React, { createContext, useState, useEffect, useMemo, useCallback, ReactNode } from 'react';
+import { AppRoute, parseRoute, buildPath } from '../utils/routes';
+
+interface IRouterContext {
+  route: AppRoute;
+  // Pushes a history entry unless `replace` is set. The query string (the analytics filters) carries over.
+  navigate: (route: AppRoute, options?: { replace?: boolean }) => void;
+}
+
+export const RouterContext = createContext<IRouterContext | undefined>(undefined);
+
+export const RouterProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const [pathname, setPathname] = useState(window.location.pathname);
+
+    useEffect(() => {
+        const handlePopState = () => setPathname(window.location.pathname);
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
+
+    const navigate = useCallback((next: AppRoute, options: { replace?: boolean } = {}) => {
+        const path = buildPath(next);
+        if (path === window.location.pathname) return;
+        const url = `${path}${window.location.search}${window.location.hash}`;
+        if (options.replace) {
+            window.history.replaceState(window.history.state, '', url);
+        } else {
+            window.history.pushState(null, '', url);
+            window.scrollTo(0, 0);
+        }
+        setPathname(path);
+    }, []);
+
+    const route = useMemo(() => parseRoute(pathname), [pathname]);
+    const value = useMemo(() => ({ route, navigate }), [route, navigate]);
+
+    return <RouterContext.Provider value={value}>{children}</RouterContext.Provider>;
+};
@@ -1,7 +1,7 @@
 // firebase.ts (or .js)
 import { initializeApp, getApps, getApp } from 'firebase/app';
 import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { getFirestore, initializeFirestore } from 'firebase/firestore';
 import { getFunctions } from 'firebase/functions';
 
 const firebaseConfig = {
@@ -16,7 +16,17 @@ const firebaseConfig = {
 // guard against re-init during hot reload
 const app = getApps().length ? getApp() : initializeApp(firebaseConfig);
 
+// Optional model fields (drillId, notes, ...) are often undefined; let Firestore drop them instead of throwing.
+// initializeFirestore may only run once per app, so fall back to the existing instance on hot reload.
+const initDb = () => {
+  try {
+    return initializeFirestore(app, { ignoreUndefinedProperties: true });
+  } catch {
+    return getFirestore(app);
+  }
+};
+
 // Singletons
 export const auth = getAuth(app);
-export const db = getFirestore(app);
+export const db = initDb();
 export const functions = getFunctions(app, "us-central1");  // explicit region is safer
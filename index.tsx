@@ -3,6 +3,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { App } from './App';
 import { DataProvider } from './contexts/DataContext';
+import { RouterProvider } from './contexts/RouterContext';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -12,8 +13,10 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <DataProvider>
-      <App />
-    </DataProvider>
+    <RouterProvider>
+      <DataProvider>
+        <App />
+      </DataProvider>
+    </RouterProvider>
   </React.StrictMode>
 );
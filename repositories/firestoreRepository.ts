@@ -0,0 +1,258 @@
+import { Firestore, doc, getDoc, setDoc, addDoc, deleteDoc, collection, query, where, getDocs, updateDoc, arrayUnion, documentId, onSnapshot, writeBatch, QuerySnapshot, DocumentData } from 'firebase/firestore';
+import { User, UserRole, Team, Player, PlayerGroup, Drill, PracticePlan, Session, SessionAuditEntry, SessionComment, DrillAssignment, PersonalGoal, TeamGoal, JoinCode } from '../types';
+import { generateTeamCode } from '../utils/helpers';
+import { DataRepository, Listener, ErrorListener, Unsubscribe } from './types';
+
+const fromSnapshot = <T>(snapshot: QuerySnapshot<DocumentData>): T[] => {
+    return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as T));
+};
+
+// Firestore caps `in` queries, so larger id lists are fetched in chunks.
+const IN_QUERY_LIMIT = 30;
+
+const chunkIds = (ids: string[]): string[][] => {
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += IN_QUERY_LIMIT) {
+        chunks.push(ids.slice(i, i + IN_QUERY_LIMIT));
+    }
+    return chunks;
+};
+
+export const createFirestoreRepository = (db: Firestore): DataRepository => {
+    const addToCollection = async <T extends { id: string }>(collectionName: string, data: Omit<T, 'id'>): Promise<T> => {
+        const docRef = await addDoc(collection(db, collectionName), data);
+        return { id: docRef.id, ...data } as T;
+    };
+
+    const queryCollection = async <T>(collectionName: string, field: string, value: string): Promise<T[]> => {
+        const q = query(collection(db, collectionName), where(field, '==', value));
+        return fromSnapshot<T>(await getDocs(q));
+    };
+
+    const watchCollection = <T>(collectionName: string, field: string, value: string, onChange: Listener<T>, onError?: ErrorListener): Unsubscribe => {
+        const q = query(collection(db, collectionName), where(field, '==', value));
+        return onSnapshot(q, snapshot => onChange(fromSnapshot<T>(snapshot)), onError);
+    };
+
+    // Applies a session change and records it in the same batch so the audit trail can't drift from the data.
+    const commitSessionChange = async (sessionId: string, session: Session | null, change: Omit<SessionAuditEntry, 'id'>): Promise<SessionAuditEntry> => {
+        const batch = writeBatch(db);
+        const sessionRef = doc(db, 'sessions', sessionId);
+        if (session) {
+            const { id, ...sessionData } = session;
+            batch.set(sessionRef, sessionData);
+        } else {
+            batch.delete(sessionRef);
+        }
+        const auditRef = doc(collection(db, 'sessionAudit'));
+        batch.set(auditRef, change);
+        await batch.commit();
+        return { id: auditRef.id, ...change };
+    };
+
+    const playersInTeamQuery = (teamId: string) => {
+        return query(collection(db, 'users'), where('teamIds', 'array-contains', teamId), where('role', '==', UserRole.Player));
+    };
+
+    return {
+        backend: 'firestore',
+
+        getUser: async (userId) => {
+            const userSnap = await getDoc(doc(db, 'users', userId));
+            return userSnap.exists() ? ({ id: userSnap.id, ...userSnap.data() } as User) : null;
+        },
+
+        saveUser: async (user) => {
+            const { id, ...userData } = user;
+            await setDoc(doc(db, 'users', id), userData);
+        },
+
+        getTeams: async (teamIds) => {
+            const teams: Team[] = [];
+            for (const chunk of chunkIds(teamIds)) {
+                const q = query(collection(db, 'teams'), where(documentId(), 'in', chunk));
+                teams.push(...fromSnapshot<Team>(await getDocs(q)));
+            }
+            return teams;
+        },
+
+        watchTeams: (teamIds, onChange, onError) => {
+            if (teamIds.length === 0) {
+                onChange([]);
+                return () => {};
+            }
+            // One listener per chunk; emit the combined results whenever any chunk changes.
+            const chunks = chunkIds(teamIds);
+            const results: (Team[] | undefined)[] = chunks.map(() => undefined);
+            const unsubscribers = chunks.map((chunk, index) => {
+                const q = query(collection(db, 'teams'), where(documentId(), 'in', chunk));
+                return onSnapshot(q, snapshot => {
+                    results[index] = fromSnapshot<Team>(snapshot);
+                    if (results.every(Boolean)) onChange(results.flatMap(r => r!));
+                }, onError);
+            });
+            return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+        },
+
+        getTeamsForCoach: (coachId) => queryCollection<Team>('teams', 'coachId', coachId),
+
+        watchTeamsForCoach: (coachId, onChange, onError) => watchCollection<Team>('teams', 'coachId', coachId, onChange, onError),
+
+        createTeam: (teamData) => addToCollection<Team>('teams', teamData),
+
+        updateTeam: async (team) => {
+            const { id, ...teamData } = team;
+            await setDoc(doc(db, 'teams', id), teamData);
+        },
+
+        getPlayersInTeam: async (teamId) => {
+            return fromSnapshot<Player>(await getDocs(playersInTeamQuery(teamId)));
+        },
+
+        watchPlayersInTeam: (teamId, onChange, onError) => {
+            return onSnapshot(playersInTeamQuery(teamId), snapshot => onChange(fromSnapshot<Player>(snapshot)), onError);
+        },
+
+        addPlayerToTeam: async (playerId, teamId, joinedAt) => {
+            await updateDoc(doc(db, 'users', playerId), { teamIds: arrayUnion(teamId), [`teamJoinedAt.${teamId}`]: joinedAt });
+        },
+
+        createJoinCode: async (teamId) => {
+            const code = generateTeamCode();
+            await setDoc(doc(db, 'joinCodes', code), { teamId });
+            return { id: code, teamId };
+        },
+
+        getJoinCodeForTeam: async (teamId) => {
+            const codes = await queryCollection<JoinCode>('joinCodes', 'teamId', teamId);
+            return codes[0] || null;
+        },
+
+        findJoinCode: async (code) => {
+            const codeSnap = await getDoc(doc(db, 'joinCodes', code));
+            return codeSnap.exists() ? { id: codeSnap.id, teamId: codeSnap.data().teamId } : null;
+        },
+
+        watchGroupsForTeam: (teamId, onChange, onError) => watchCollection<PlayerGroup>('groups', 'teamId', teamId, onChange, onError),
+
+        createGroup: (groupData) => addToCollection<PlayerGroup>('groups', groupData),
+
+        updateGroup: async (group) => {
+            const { id, ...groupData } = group;
+            await setDoc(doc(db, 'groups', id), groupData);
+        },
+
+        deleteGroup: async (groupId) => {
+            await deleteDoc(doc(db, 'groups', groupId));
+        },
+
+        getDrillsForTeam: (teamId) => queryCollection<Drill>('drills', 'teamId', teamId),
+
+        watchDrillsForTeam: (teamId, onChange, onError) => watchCollection<Drill>('drills', 'teamId', teamId, onChange, onError),
+
+        createDrill: (drillData) => addToCollection<Drill>('drills', drillData),
+
+        updateDrill: async (drill) => {
+            const { id, ...drillData } = drill;
+            await setDoc(doc(db, 'drills', id), drillData);
+        },
+
+        deleteDrill: async (drillId) => {
+            await deleteDoc(doc(db, 'drills', drillId));
+        },
+
+        getAssignmentsForTeam: (teamId) => queryCollection<DrillAssignment>('assignments', 'teamId', teamId),
+
+        watchAssignmentsForTeam: (teamId, onChange, onError) => watchCollection<DrillAssignment>('assignments', 'teamId', teamId, onChange, onError),
+
+        createAssignment: (assignmentData) => addToCollection<DrillAssignment>('assignments', assignmentData),
+
+        updateAssignment: async (assignment) => {
+            const { id, ...assignmentData } = assignment;
+            await setDoc(doc(db, 'assignments', id), assignmentData);
+        },
+
+        watchPlansForTeam: (teamId, onChange, onError) => watchCollection<PracticePlan>('practicePlans', 'teamId', teamId, onChange, onError),
+
+        createPlan: (planData) => addToCollection<PracticePlan>('practicePlans', planData),
+
+        updatePlan: async (plan) => {
+            const { id, ...planData } = plan;
+            await setDoc(doc(db, 'practicePlans', id), planData);
+        },
+
+        deletePlan: async (planId) => {
+            await deleteDoc(doc(db, 'practicePlans', planId));
+        },
+
+        getSessionsForTeam: (teamId) => queryCollection<Session>('sessions', 'teamId', teamId),
+
+        watchSessionsForTeam: (teamId, onChange, onError) => watchCollection<Session>('sessions', 'teamId', teamId, onChange, onError),
+
+        getSessionsForPlayer: (playerId) => queryCollection<Session>('sessions', 'playerId', playerId),
+
+        watchSessionsForPlayer: (playerId, onChange, onError) => watchCollection<Session>('sessions', 'playerId', playerId, onChange, onError),
+
+        createSession: async (sessionData) => {
+            if (!sessionData.clientId) return addToCollection<Session>('sessions', sessionData);
+            // The client id doubles as the document id, so a replayed submission lands on the same document.
+            const sessionRef = doc(db, 'sessions', sessionData.clientId);
+            const existing = await getDoc(sessionRef);
+            if (existing.exists()) {
+                return { id: existing.id, ...existing.data() } as Session;
+            }
+            await setDoc(sessionRef, sessionData);
+            return { id: sessionRef.id, ...sessionData };
+        },
+
+        updateSession: (session, change) => commitSessionChange(session.id, session, change),
+
+        deleteSession: (sessionId, change) => commitSessionChange(sessionId, null, change),
+
+        watchSessionAuditForTeam: (teamId, onChange, onError) => watchCollection<SessionAuditEntry>('sessionAudit', 'teamId', teamId, onChange, onError),
+
+        watchSessionAuditForPlayer: (playerId, onChange, onError) => watchCollection<SessionAuditEntry>('sessionAudit', 'playerId', playerId, onChange, onError),
+
+        watchSessionCommentsForTeam: (teamId, onChange, onError) => watchCollection<SessionComment>('sessionComments', 'teamId', teamId, onChange, onError),
+
+        watchSessionCommentsForPlayer: (playerId, onChange, onError) => watchCollection<SessionComment>('sessionComments', 'playerId', playerId, onChange, onError),
+
+        createSessionComment: (commentData) => addToCollection<SessionComment>('sessionComments', commentData),
+
+        markSessionCommentsRead: async (commentIds, userId) => {
+            const batch = writeBatch(db);
+            commentIds.forEach(id => batch.update(doc(db, 'sessionComments', id), { readBy: arrayUnion(userId) }));
+            await batch.commit();
+        },
+
+        getGoalsForPlayer: (playerId) => queryCollection<PersonalGoal>('goals', 'playerId', playerId),
+
+        watchGoalsForPlayer: (playerId, onChange, onError) => watchCollection<PersonalGoal>('goals', 'playerId', playerId, onChange, onError),
+
+        createGoal: (goalData) => addToCollection<PersonalGoal>('goals', goalData),
+
+        updateGoal: async (goal) => {
+            const { id, ...goalData } = goal;
+            await setDoc(doc(db, 'goals', id), goalData);
+        },
+
+        deleteGoal: async (goalId) => {
+            await deleteDoc(doc(db, 'goals', goalId));
+        },
+
+        getTeamGoals: (teamId) => queryCollection<TeamGoal>('teamGoals', 'teamId', teamId),
+
+        watchTeamGoals: (teamId, onChange, onError) => watchCollection<TeamGoal>('teamGoals', 'teamId', teamId, onChange, onError),
+
+        createTeamGoal: (goalData) => addToCollection<TeamGoal>('teamGoals', goalData),
+
+        updateTeamGoal: async (goal) => {
+            const { id, ...goalData } = goal;
+            await setDoc(doc(db, 'teamGoals', id), goalData);
+        },
+
+        deleteTeamGoal: async (goalId) => {
+            await deleteDoc(doc(db, 'teamGoals', goalId));
+        },
+    };
+};
@@ -0,0 +1,13 @@
+import { db } from '../firebaseConfig';
+import { createFirestoreRepository } from './firestoreRepository';
+import { createLocalRepository } from './localRepository';
+import { DataBackend, DataRepository } from './types';
+
+export type { DataBackend, DataRepository, Unsubscribe } from './types';
+
+// Set DATA_BACKEND=local in .env.local to run fully offline against IndexedDB with demo data.
+export const DATA_BACKEND: DataBackend = process.env.DATA_BACKEND === 'local' ? 'local' : 'firestore';
+
+export const createRepository = (backend: DataBackend = DATA_BACKEND): DataRepository => {
+    return backend === 'local' ? createLocalRepository() : createFirestoreRepository(db);
+};
@@ -0,0 +1,45 @@
+const DB_NAME = 'scn-hitjournal';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshots';
+
+const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                request.result.createObjectStore(STORE_NAME);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const database = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = database.transaction(STORE_NAME, mode);
+        const request = action(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => {
+            database.close();
+            resolve(request.result as T);
+        };
+        transaction.onerror = () => {
+            database.close();
+            reject(transaction.error);
+        };
+    });
+};
+
+// Reads a value from the app's key/value store, or undefined when IndexedDB is unavailable (e.g. in tests).
+export const readValue = async <T>(key: string): Promise<T | undefined> => {
+    if (!isIndexedDbAvailable()) return undefined;
+    return runRequest<T | undefined>('readonly', store => store.get(key));
+};
+
+export const writeValue = async <T>(key: string, value: T): Promise<void> => {
+    if (!isIndexedDbAvailable()) return;
+    await runRequest('readwrite', store => store.put(value, key));
+};
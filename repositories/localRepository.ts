@@ -0,0 +1,254 @@
+import { User, UserRole, Team, Player, PlayerGroup, Drill, PracticePlan, Session, SessionAuditEntry, SessionComment, DrillAssignment, PersonalGoal, TeamGoal, JoinCode } from '../types';
+import { generateTeamCode } from '../utils/helpers';
+import { MOCK_COACH, MOCK_PLAYERS, MOCK_TEAM, MOCK_DRILLS, MOCK_SESSIONS, MOCK_ASSIGNMENTS, MOCK_GOALS, MOCK_TEAM_GOALS } from '../utils/mockData';
+import { DataRepository, Listener, Unsubscribe } from './types';
+import { readValue, writeValue } from './indexedDb';
+
+export interface LocalSnapshot {
+    users: User[];
+    teams: Team[];
+    joinCodes: JoinCode[];
+    groups: PlayerGroup[];
+    drills: Drill[];
+    assignments: DrillAssignment[];
+    plans: PracticePlan[];
+    sessions: Session[];
+    sessionAudit: SessionAuditEntry[];
+    sessionComments: SessionComment[];
+    goals: PersonalGoal[];
+    teamGoals: TeamGoal[];
+}
+
+const SNAPSHOT_KEY = 'local-repository';
+
+export const createEmptySnapshot = (): LocalSnapshot => ({
+    users: [],
+    teams: [],
+    joinCodes: [],
+    groups: [],
+    drills: [],
+    assignments: [],
+    plans: [],
+    sessions: [],
+    sessionAudit: [],
+    sessionComments: [],
+    goals: [],
+    teamGoals: [],
+});
+
+// Demo data used the first time the local backend starts with an empty database.
+export const createMockSnapshot = (): LocalSnapshot => ({
+    users: [MOCK_COACH, ...MOCK_PLAYERS],
+    teams: [MOCK_TEAM],
+    joinCodes: [{ id: 'EAGLES', teamId: MOCK_TEAM.id }],
+    groups: [],
+    drills: [...MOCK_DRILLS],
+    assignments: [...MOCK_ASSIGNMENTS],
+    plans: [],
+    sessions: [...MOCK_SESSIONS],
+    sessionAudit: [],
+    sessionComments: [],
+    goals: [...MOCK_GOALS],
+    teamGoals: [...MOCK_TEAM_GOALS],
+});
+
+const selectPlayersInTeam = (data: LocalSnapshot, teamId: string): Player[] => {
+    return data.users.filter((u): u is Player => u.role === UserRole.Player && u.teamIds.includes(teamId));
+};
+
+const generateId = (prefix: string): string => `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
+
+interface LocalRepositoryOptions {
+    // Persist to IndexedDB between page loads. Disable for throwaway in-memory stores.
+    persist?: boolean;
+    seed?: () => LocalSnapshot;
+}
+
+export const createLocalRepository = ({ persist = true, seed = createMockSnapshot }: LocalRepositoryOptions = {}): DataRepository => {
+    let snapshot: LocalSnapshot = createEmptySnapshot();
+    const watchers = new Set<() => void>();
+
+    const ready = (async () => {
+        const stored = persist ? await readValue<LocalSnapshot>(SNAPSHOT_KEY) : undefined;
+        // Merge with an empty snapshot so stores written by older versions pick up new collections.
+        snapshot = stored ? { ...createEmptySnapshot(), ...stored } : seed();
+    })();
+
+    const read = async <T>(selector: (data: LocalSnapshot) => T): Promise<T> => {
+        await ready;
+        return selector(snapshot);
+    };
+
+    const write = async (updater: (data: LocalSnapshot) => LocalSnapshot): Promise<void> => {
+        await ready;
+        snapshot = updater(snapshot);
+        watchers.forEach(notify => notify());
+        if (persist) await writeValue(SNAPSHOT_KEY, snapshot);
+    };
+
+    // Re-runs the selector after every write, mirroring Firestore's snapshot listeners.
+    const watch = <T>(selector: (data: LocalSnapshot) => T[], onChange: Listener<T>): Unsubscribe => {
+        let active = true;
+        const notify = () => {
+            if (active) onChange(selector(snapshot));
+        };
+        ready.then(() => {
+            if (!active) return;
+            watchers.add(notify);
+            notify();
+        });
+        return () => {
+            active = false;
+            watchers.delete(notify);
+        };
+    };
+
+    const insert = async <K extends keyof LocalSnapshot, T extends LocalSnapshot[K][number]>(key: K, prefix: string, data: Omit<T, 'id'>): Promise<T> => {
+        const record = { id: generateId(prefix), ...data } as T;
+        await write(current => ({ ...current, [key]: [...current[key], record] }));
+        return record;
+    };
+
+    const commitSessionChange = async (sessionId: string, session: Session | null, change: Omit<SessionAuditEntry, 'id'>): Promise<SessionAuditEntry> => {
+        const entry: SessionAuditEntry = { id: generateId('audit'), ...change };
+        await write(data => ({
+            ...data,
+            sessions: session ? data.sessions.map(s => s.id === sessionId ? session : s) : data.sessions.filter(s => s.id !== sessionId),
+            sessionAudit: [...data.sessionAudit, entry],
+        }));
+        return entry;
+    };
+
+    const remove = async (key: keyof LocalSnapshot, id: string): Promise<void> => {
+        await write(current => ({ ...current, [key]: (current[key] as { id: string }[]).filter(item => item.id !== id) }));
+    };
+
+    return {
+        backend: 'local',
+
+        getUser: userId => read(data => data.users.find(u => u.id === userId) || null),
+
+        saveUser: user => write(data => ({ ...data, users: [...data.users.filter(u => u.id !== user.id), user] })),
+
+        getTeams: teamIds => read(data => data.teams.filter(t => teamIds.includes(t.id))),
+
+        watchTeams: (teamIds, onChange) => watch(data => data.teams.filter(t => teamIds.includes(t.id)), onChange),
+
+        getTeamsForCoach: coachId => read(data => data.teams.filter(t => t.coachId === coachId)),
+
+        watchTeamsForCoach: (coachId, onChange) => watch(data => data.teams.filter(t => t.coachId === coachId), onChange),
+
+        createTeam: teamData => insert<'teams', Team>('teams', 'team', teamData),
+
+        updateTeam: team => write(data => ({ ...data, teams: data.teams.map(t => t.id === team.id ? team : t) })),
+
+        getPlayersInTeam: teamId => read(data => selectPlayersInTeam(data, teamId)),
+
+        watchPlayersInTeam: (teamId, onChange) => watch(data => selectPlayersInTeam(data, teamId), onChange),
+
+        addPlayerToTeam: (playerId, teamId, joinedAt) => write(data => ({
+            ...data,
+            users: data.users.map(u => u.id === playerId && !u.teamIds.includes(teamId)
+                ? { ...u, teamIds: [...u.teamIds, teamId], teamJoinedAt: { ...u.teamJoinedAt, [teamId]: joinedAt } }
+                : u),
+        })),
+
+        createJoinCode: async teamId => {
+            const joinCode: JoinCode = { id: generateTeamCode(), teamId };
+            await write(data => ({ ...data, joinCodes: [...data.joinCodes, joinCode] }));
+            return joinCode;
+        },
+
+        getJoinCodeForTeam: teamId => read(data => data.joinCodes.find(c => c.teamId === teamId) || null),
+
+        findJoinCode: code => read(data => data.joinCodes.find(c => c.id === code) || null),
+
+        watchGroupsForTeam: (teamId, onChange) => watch(data => data.groups.filter(g => g.teamId === teamId), onChange),
+
+        createGroup: groupData => insert<'groups', PlayerGroup>('groups', 'group', groupData),
+
+        updateGroup: group => write(data => ({ ...data, groups: data.groups.map(g => g.id === group.id ? group : g) })),
+
+        deleteGroup: groupId => remove('groups', groupId),
+
+        getDrillsForTeam: teamId => read(data => data.drills.filter(d => d.teamId === teamId)),
+
+        watchDrillsForTeam: (teamId, onChange) => watch(data => data.drills.filter(d => d.teamId === teamId), onChange),
+
+        createDrill: drillData => insert<'drills', Drill>('drills', 'drill', drillData),
+
+        updateDrill: drill => write(data => ({ ...data, drills: data.drills.map(d => d.id === drill.id ? drill : d) })),
+
+        deleteDrill: drillId => remove('drills', drillId),
+
+        getAssignmentsForTeam: teamId => read(data => data.assignments.filter(a => a.teamId === teamId)),
+
+        watchAssignmentsForTeam: (teamId, onChange) => watch(data => data.assignments.filter(a => a.teamId === teamId), onChange),
+
+        createAssignment: assignmentData => insert<'assignments', DrillAssignment>('assignments', 'assign', assignmentData),
+
+        updateAssignment: assignment => write(data => ({ ...data, assignments: data.assignments.map(a => a.id === assignment.id ? assignment : a) })),
+
+        watchPlansForTeam: (teamId, onChange) => watch(data => data.plans.filter(p => p.teamId === teamId), onChange),
+
+        createPlan: planData => insert<'plans', PracticePlan>('plans', 'plan', planData),
+
+        updatePlan: plan => write(data => ({ ...data, plans: data.plans.map(p => p.id === plan.id ? plan : p) })),
+
+        deletePlan: planId => remove('plans', planId),
+
+        getSessionsForTeam: teamId => read(data => data.sessions.filter(s => s.teamId === teamId)),
+
+        watchSessionsForTeam: (teamId, onChange) => watch(data => data.sessions.filter(s => s.teamId === teamId), onChange),
+
+        getSessionsForPlayer: playerId => read(data => data.sessions.filter(s => s.playerId === playerId)),
+
+        watchSessionsForPlayer: (playerId, onChange) => watch(data => data.sessions.filter(s => s.playerId === playerId), onChange),
+
+        createSession: async sessionData => {
+            const existing = sessionData.clientId
+                ? await read(data => data.sessions.find(s => s.clientId === sessionData.clientId))
+                : undefined;
+            return existing || insert<'sessions', Session>('sessions', 'session', sessionData);
+        },
+
+        updateSession: (session, change) => commitSessionChange(session.id, session, change),
+
+        deleteSession: (sessionId, change) => commitSessionChange(sessionId, null, change),
+
+        watchSessionAuditForTeam: (teamId, onChange) => watch(data => data.sessionAudit.filter(e => e.teamId === teamId), onChange),
+
+        watchSessionAuditForPlayer: (playerId, onChange) => watch(data => data.sessionAudit.filter(e => e.playerId === playerId), onChange),
+
+        watchSessionCommentsForTeam: (teamId, onChange) => watch(data => data.sessionComments.filter(c => c.teamId === teamId), onChange),
+
+        watchSessionCommentsForPlayer: (playerId, onChange) => watch(data => data.sessionComments.filter(c => c.playerId === playerId), onChange),
+
+        createSessionComment: commentData => insert<'sessionComments', SessionComment>('sessionComments', 'comment', commentData),
+
+        markSessionCommentsRead: (commentIds, userId) => write(data => ({
+            ...data,
+            sessionComments: data.sessionComments.map(c => commentIds.includes(c.id) && !c.readBy.includes(userId) ? { ...c, readBy: [...c.readBy, userId] } : c),
+        })),
+
+        getGoalsForPlayer: playerId => read(data => data.goals.filter(g => g.playerId === playerId)),
+
+        watchGoalsForPlayer: (playerId, onChange) => watch(data => data.goals.filter(g => g.playerId === playerId), onChange),
+
+        createGoal: goalData => insert<'goals', PersonalGoal>('goals', 'goal', goalData),
+
+        updateGoal: goal => write(data => ({ ...data, goals: data.goals.map(g => g.id === goal.id ? goal : g) })),
+
+        deleteGoal: goalId => remove('goals', goalId),
+
+        getTeamGoals: teamId => read(data => data.teamGoals.filter(g => g.teamId === teamId)),
+
+        watchTeamGoals: (teamId, onChange) => watch(data => data.teamGoals.filter(g => g.teamId === teamId), onChange),
+
+        createTeamGoal: goalData => insert<'teamGoals', TeamGoal>('teamGoals', 'team-goal', goalData),
+
+        updateTeamGoal: goal => write(data => ({ ...data, teamGoals: data.teamGoals.map(g => g.id === goal.id ? goal : g) })),
+
+        deleteTeamGoal: goalId => remove('teamGoals', goalId),
+    };
+};
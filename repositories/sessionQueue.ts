@@ -0,0 +1,45 @@
+import { Session } from '../types';
+import { readValue, writeValue } from './indexedDb';
+
+export type QueuedSession = Omit<Session, 'id'> & { clientId: string };
+
+export interface PendingSession {
+    session: QueuedSession;
+    queuedAt: string;
+    queuedBy?: string; // Who submitted it, e.g. a coach importing for a player; older entries are the player's own
+}
+
+const QUEUE_KEY = 'pending-sessions';
+
+// Mirrors the stored queue so it still works (for the page's lifetime) where IndexedDB is unavailable.
+let cache: PendingSession[] | undefined;
+
+export const generateClientId = (): string => `client-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+
+export const loadPendingSessions = async (): Promise<PendingSession[]> => {
+    if (!cache) {
+        cache = (await readValue<PendingSession[]>(QUEUE_KEY)) || [];
+    }
+    return cache;
+};
+
+const saveQueue = async (queue: PendingSession[]): Promise<void> => {
+    cache = queue;
+    await writeValue(QUEUE_KEY, queue);
+};
+
+export const enqueueSession = async (session: QueuedSession, queuedBy: string): Promise<void> => {
+    const queue = await loadPendingSessions();
+    // Re-queueing the same submission replaces it rather than adding a second copy.
+    await saveQueue([...queue.filter(p => p.session.clientId !== session.clientId), { session, queuedAt: new Date().toISOString(), queuedBy }]);
+};
+
+// The queue is replayed by whoever submitted each session, since only they are signed in to send it.
+export const isQueuedBy = (pending: PendingSession, userId: string): boolean => (pending.queuedBy ?? pending.session.playerId) === userId;
+
+export const removePendingSession = async (clientId: string): Promise<void> => {
+    const queue = await loadPendingSessions();
+    await saveQueue(queue.filter(p => p.session.clientId !== clientId));
+};
+
+export const toPendingSession = ({ session }: PendingSession): Session => ({ id: session.clientId, ...session });
@@ -0,0 +1,80 @@
+import { User, Team, Player, PlayerGroup, Drill, PracticePlan, Session, SessionAuditEntry, SessionComment, DrillAssignment, PersonalGoal, TeamGoal, JoinCode } from '../types';
+
+export type DataBackend = 'firestore' | 'local';
+
+export type Unsubscribe = () => void;
+
+// Listeners fire once with the current results and again whenever they change.
+export type Listener<T> = (items: T[]) => void;
+export type ErrorListener = (error: Error) => void;
+
+// Every read and write the app performs goes through this interface so the
+// storage backend can be swapped without touching DataContext or the views.
+export interface DataRepository {
+  backend: DataBackend;
+  // --- Users ---
+  getUser: (userId: string) => Promise<User | null>;
+  saveUser: (user: User) => Promise<void>;
+  // --- Teams ---
+  getTeams: (teamIds: string[]) => Promise<Team[]>;
+  watchTeams: (teamIds: string[], onChange: Listener<Team>, onError?: ErrorListener) => Unsubscribe;
+  getTeamsForCoach: (coachId: string) => Promise<Team[]>;
+  watchTeamsForCoach: (coachId: string, onChange: Listener<Team>, onError?: ErrorListener) => Unsubscribe;
+  createTeam: (teamData: Omit<Team, 'id'>) => Promise<Team>;
+  updateTeam: (team: Team) => Promise<void>;
+  getPlayersInTeam: (teamId: string) => Promise<Player[]>;
+  watchPlayersInTeam: (teamId: string, onChange: Listener<Player>, onError?: ErrorListener) => Unsubscribe;
+  addPlayerToTeam: (playerId: string, teamId: string, joinedAt: string) => Promise<void>;
+  // --- Join Codes ---
+  createJoinCode: (teamId: string) => Promise<JoinCode>;
+  getJoinCodeForTeam: (teamId: string) => Promise<JoinCode | null>;
+  findJoinCode: (code: string) => Promise<JoinCode | null>;
+  // --- Player Groups ---
+  watchGroupsForTeam: (teamId: string, onChange: Listener<PlayerGroup>, onError?: ErrorListener) => Unsubscribe;
+  createGroup: (groupData: Omit<PlayerGroup, 'id'>) => Promise<PlayerGroup>;
+  updateGroup: (group: PlayerGroup) => Promise<void>;
+  deleteGroup: (groupId: string) => Promise<void>;
+  // --- Drills & Assignments ---
+  getDrillsForTeam: (teamId: string) => Promise<Drill[]>;
+  watchDrillsForTeam: (teamId: string, onChange: Listener<Drill>, onError?: ErrorListener) => Unsubscribe;
+  createDrill: (drillData: Omit<Drill, 'id'>) => Promise<Drill>;
+  updateDrill: (drill: Drill) => Promise<void>;
+  deleteDrill: (drillId: string) => Promise<void>;
+  getAssignmentsForTeam: (teamId: string) => Promise<DrillAssignment[]>;
+  watchAssignmentsForTeam: (teamId: string, onChange: Listener<DrillAssignment>, onError?: ErrorListener) => Unsubscribe;
+  createAssignment: (assignmentData: Omit<DrillAssignment, 'id'>) => Promise<DrillAssignment>;
+  updateAssignment: (assignment: DrillAssignment) => Promise<void>;
+  // --- Practice Plans ---
+  watchPlansForTeam: (teamId: string, onChange: Listener<PracticePlan>, onError?: ErrorListener) => Unsubscribe;
+  createPlan: (planData: Omit<PracticePlan, 'id'>) => Promise<PracticePlan>;
+  updatePlan: (plan: PracticePlan) => Promise<void>;
+  deletePlan: (planId: string) => Promise<void>;
+  // --- Sessions ---
+  getSessionsForTeam: (teamId: string) => Promise<Session[]>;
+  watchSessionsForTeam: (teamId: string, onChange: Listener<Session>, onError?: ErrorListener) => Unsubscribe;
+  getSessionsForPlayer: (playerId: string) => Promise<Session[]>;
+  watchSessionsForPlayer: (playerId: string, onChange: Listener<Session>, onError?: ErrorListener) => Unsubscribe;
+  // Idempotent when `clientId` is set: writing the same session twice returns the stored copy.
+  createSession: (sessionData: Omit<Session, 'id'>) => Promise<Session>;
+  // Edits and deletions are written together with their audit entry.
+  updateSession: (session: Session, change: Omit<SessionAuditEntry, 'id'>) => Promise<SessionAuditEntry>;
+  deleteSession: (sessionId: string, change: Omit<SessionAuditEntry, 'id'>) => Promise<SessionAuditEntry>;
+  watchSessionAuditForTeam: (teamId: string, onChange: Listener<SessionAuditEntry>, onError?: ErrorListener) => Unsubscribe;
+  watchSessionAuditForPlayer: (playerId: string, onChange: Listener<SessionAuditEntry>, onError?: ErrorListener) => Unsubscribe;
+  // --- Session Comments ---
+  watchSessionCommentsForTeam: (teamId: string, onChange: Listener<SessionComment>, onError?: ErrorListener) => Unsubscribe;
+  watchSessionCommentsForPlayer: (playerId: string, onChange: Listener<SessionComment>, onError?: ErrorListener) => Unsubscribe;
+  createSessionComment: (commentData: Omit<SessionComment, 'id'>) => Promise<SessionComment>;
+  markSessionCommentsRead: (commentIds: string[], userId: string) => Promise<void>;
+  // --- Goals ---
+  getGoalsForPlayer: (playerId: string) => Promise<PersonalGoal[]>;
+  watchGoalsForPlayer: (playerId: string, onChange: Listener<PersonalGoal>, onError?: ErrorListener) => Unsubscribe;
+  createGoal: (goalData: Omit<PersonalGoal, 'id'>) => Promise<PersonalGoal>;
+  updateGoal: (goal: PersonalGoal) => Promise<void>;
+  deleteGoal: (goalId: string) => Promise<void>;
+  getTeamGoals: (teamId: string) => Promise<TeamGoal[]>;
+  watchTeamGoals: (teamId: string, onChange: Listener<TeamGoal>, onError?: ErrorListener) => Unsubscribe;
+  createTeamGoal: (goalData: Omit<TeamGoal, 'id'>) => Promise<TeamGoal>;
+  updateTeamGoal: (goal: TeamGoal) => Promise<void>;
+  deleteTeamGoal: (goalId: string) => Promise<void>;
+}
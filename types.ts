@@ -11,6 +11,7 @@ export interface User {
   name: string;
   role: UserRole;
   teamIds: string[];
+  teamJoinedAt?: { [teamId: string]: string }; // ISO string per team, recorded when joining with a code
   isNew?: boolean; // Flag for new users needing onboarding
 }
 
@@ -18,8 +19,15 @@ export interface Team {
   id:string;
   name: string;
   logoUrl?: string;
-  seasonYear: number;
+  seasonYear: number; // The season in progress
   coachId: string;
+  pastSeasons?: PastSeason[]; // Closed seasons, oldest first
+}
+
+// A season closed by a rollover. It covers everything dated after the previous season's end, up to its own.
+export interface PastSeason {
+  year: number;
+  endedAt: string; // ISO string
 }
 
 // Added JoinCode interface to manage team invitations
@@ -49,6 +57,8 @@ export type PitchType = 'Fastball' | 'Curveball' | 'Slider' | 'Changeup' | 'Sink
 export type CountSituation = 'Ahead' | 'Even' | 'Behind';
 export type BaseRunner = '1B' | '2B' | '3B';
 export type GoalType = 'Execution %' | 'Hard Hit %' | 'No Strikeouts' | 'Total Reps';
+// Player and team goals can also track averages and habits across sessions, not just a drill's own goal types.
+export type GoalMetric = GoalType | 'Strikeouts per Session' | 'Sessions per Week' | 'Consecutive Days' | 'Drill Goal Success %' | 'Average Grade';
 export type DrillType = 'Tee Work' | 'Soft Toss' | 'Front Toss' | 'Throwing' | 'Live BP' | 'Machine';
 
 export interface Drill {
@@ -66,6 +76,35 @@ export interface Drill {
   repsPerSet: number;
   sets: number;
   drillType?: DrillType;
+  version?: number; // Bumped whenever the goal or volume changes; missing means 1
+  previousVersions?: DrillVersion[];
+  archived?: boolean;
+}
+
+// The goal and volume a drill had before an edit, so older sessions are still scored against them.
+export interface DrillVersion {
+  version: number;
+  goalType: GoalType;
+  goalTargetValue: number;
+  repsPerSet: number;
+  sets: number;
+  replacedAt: string; // ISO string
+}
+
+export type RepOutcome = 'Executed' | 'Hard Hit' | 'Whiff' | 'Foul' | 'Take';
+export type BattedBallType = 'GB' | 'LD' | 'FB' | 'PU';
+
+// A single swing or take, recorded when a set is logged pitch by pitch.
+export interface RepResult {
+  outcome: RepOutcome;
+  pitchType?: PitchType;
+  zone?: TargetZone;
+  notes?: string;
+  // Batted-ball readings, typically from a radar or bat sensor
+  exitVelo?: number; // mph
+  launchAngle?: number; // Degrees above horizontal
+  sprayAngle?: number; // Degrees from straightaway center; -45 is the left field line, 45 the right field line
+  battedBallType?: BattedBallType;
 }
 
 export interface SetResult {
@@ -83,6 +122,7 @@ export interface SetResult {
   pitchTypes?: PitchType[];
   // FIX: Added missing targetZones property to allow logging it in a session set.
   targetZones?: TargetZone[];
+  reps?: RepResult[]; // Present when logged pitch by pitch; the counts above are derived from it
 }
 
 export interface Session {
@@ -93,39 +133,124 @@ export interface Session {
   teamId: string;
   date: string; // ISO string
   sets: SetResult[];
-  feedback?: string;
+  feedback?: string; // Single coach note from before feedback threads; shown as the first message of the thread
+  drillVersion?: number; // Version of the drill in effect when the session was logged
+  clientId?: string; // Generated on the device that logged it; lets offline replays be de-duplicated
+  updatedAt?: string; // ISO string, set when the session is edited after logging
+  planId?: string; // Set when logged while working through a practice plan
+  planRunId?: string; // Shared by every session logged in one run of a plan
+}
+
+// One correction to a logged session, kept so coaches can see how the numbers changed.
+export interface SessionAuditEntry {
+  id: string;
+  sessionId: string;
+  playerId: string;
+  teamId: string;
+  action: 'edited' | 'deleted';
+  changedBy: string; // User ID
+  changedByName: string;
+  changedAt: string; // ISO string
+  before: Session;
+  after?: Session; // Absent for deletions
+}
+
+// One message in the feedback thread under a session, between the team's coach and the session's player.
+export interface SessionComment {
+  id: string;
+  sessionId: string;
+  playerId: string; // The session's player, so a player can load every thread about their sessions
+  teamId: string;
+  authorId: string;
+  authorName: string;
+  authorRole: UserRole;
+  body: string;
+  createdAt: string; // ISO string
+  readBy: string[]; // User IDs that have seen it, starting with the author
 }
 
 export type DayOfWeek = 'Sun' | 'Mon' | 'Tue' | 'Wed' | 'Thu' | 'Fri' | 'Sat';
 
+// One step of a practice plan. Sets and reps fall back to the drill's own when not overridden.
+export interface PracticePlanItem {
+  drillId: string;
+  sets?: number;
+  repsPerSet?: number;
+  restSeconds?: number; // Rest before moving on to the next drill
+  notes?: string;
+}
+
+// An ordered workout of several drills, assigned and logged as one unit.
+export interface PracticePlan {
+  id: string;
+  teamId: string;
+  name: string;
+  description?: string;
+  items: PracticePlanItem[];
+  archived?: boolean;
+}
+
+// Coach-defined subset of a team, e.g. infield, catchers or JV.
+export interface PlayerGroup {
+  id: string;
+  teamId: string;
+  name: string;
+  playerIds: string[];
+}
+
+// Team-wide, attribute-based or group-based assignment targeting.
+export type AssignmentTarget =
+  | { type: 'team' }
+  | { type: 'gradYear'; gradYear: number }
+  | { type: 'position'; position: string }
+  | { type: 'group'; groupId: string };
+
 export interface DrillAssignment {
   id: string;
-  drillId: string;
+  drillId?: string; // Absent when a practice plan is assigned instead of a single drill
+  planId?: string;
   teamId: string;
-  playerIds: string[]; // List of assigned player IDs. Can use a special value like 'all' for the whole team.
+  playerIds: string[]; // Individually assigned player IDs. The special value 'all' means the whole team.
+  targets?: AssignmentTarget[]; // Rules resolved against the current roster, so new players pick them up
   isRecurring: boolean;
   recurringDays?: DayOfWeek[];
-  dueDate?: string; // For one-time assignments
+  dueDate?: string; // For one-time assignments (YYYY-MM-DD)
+  startDate?: string; // YYYY-MM-DD; defaults to the assigned date
+  endDate?: string; // YYYY-MM-DD; last day a recurring assignment applies
   assignedDate: string;
+  cancelledAt?: string; // ISO string
+  archivedAt?: string; // ISO string, set when the season it belonged to was closed
 }
 
 export interface PersonalGoal {
   id: string;
   playerId: string;
-  metric: GoalType;
+  teamId?: string; // The team the goal was set for; older goals predate this
+  metric: GoalMetric;
   targetValue: number;
   startDate: string;
   targetDate: string;
   status: 'Active' | 'Completed' | 'Archived';
   drillType?: DrillType;
   targetZones?: TargetZone[];
+  minReps?: number; // Only sessions with at least this many reps count toward the goal
+  assignedById?: string; // Set when a coach set the goal for the player
+  assignedByName?: string;
+  acknowledgedAt?: string; // ISO string, set when the player acknowledges a coach-assigned goal
+  completedAt?: string; // ISO string, set when the goal was met
+  missedAt?: string; // ISO string, set when the target date passed first; the goal is archived
+  finalValue?: number; // The metric value when the goal was met or missed
+  outcomeSeenBy?: string[]; // Users who have dismissed the met/missed notice
 }
 
+// What a player or coach fills in for a goal; ownership, status and dates are set when it's saved.
+export type GoalDetails = Pick<PersonalGoal, 'metric' | 'targetValue' | 'targetDate' | 'drillType' | 'targetZones' | 'minReps'>;
+
 export interface TeamGoal {
   id: string;
   teamId: string;
   description: string;
-  metric: GoalType;
+  metric: GoalMetric;
   targetValue: number;
   startDate: string;
   targetDate: string;
@@ -133,4 +258,10 @@ export interface TeamGoal {
   drillType?: DrillType;
   targetZones?: TargetZone[];
   pitchTypes?: PitchType[];
+  groupId?: string; // Limits the goal to one player group
+  minReps?: number; // Only sessions with at least this many reps count toward the goal
+  completedAt?: string; // ISO string, set when the goal was met
+  missedAt?: string; // ISO string, set when the target date passed first; the goal is archived
+  finalValue?: number; // The metric value when the goal was met or missed
+  outcomeSeenBy?: string[]; // Users who have dismissed the met/missed notice
 }
\ No newline at end of file
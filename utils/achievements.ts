@@ -0,0 +1,217 @@
+import { Session, TargetZone } from '../types';
+import { TARGET_ZONES } from '../constants';
+import { toDateKey, parseDateKey, calculateExecutionPercentage, calculateHardHitPercentage } from './helpers';
+
+// Streaks, milestones and personal bests. Everything is worked out from the player's sessions
+// each time, so edits and deletions are reflected and nothing extra has to be stored.
+
+// Rate milestones and bests ignore tiny sessions, where 2 for 2 would count as 100%.
+export const MIN_REPS_FOR_RATE = 10;
+const CAREER_REPS_MILESTONE = 1000;
+const EXECUTION_MILESTONE_PCT = 80;
+
+export interface PracticeStreaks {
+    currentDays: number; // Still alive when the last session was today or yesterday
+    longestDays: number;
+    currentWeeks: number; // Still alive when the last session was this week or last week
+    longestWeeks: number;
+}
+
+export type MilestoneId = 'career-reps' | 'execution-80' | 'all-zones';
+
+export interface Milestone {
+    id: MilestoneId;
+    title: string;
+    description: string;
+    progress: number; // 0 to 1
+    progressLabel: string;
+    earnedAt?: string; // Date of the session that earned it
+}
+
+export type PersonalBestId = 'execution' | 'hard-hit' | 'reps' | 'exit-velo';
+
+export interface PersonalBest {
+    id: PersonalBestId;
+    label: string;
+    value: number;
+    unit: string;
+    sessionId: string;
+    date: string;
+}
+
+export interface Achievements {
+    streaks: PracticeStreaks;
+    milestones: Milestone[];
+    personalBests: PersonalBest[];
+}
+
+// What the save summary announces.
+export interface EarnedAchievement {
+    kind: 'milestone' | 'personal-best' | 'streak';
+    title: string;
+    detail: string;
+}
+
+const getSessionReps = (session: Session): number => session.sets.reduce((sum, set) => sum + set.repsAttempted, 0);
+
+const sortByDate = (sessions: Session[]): Session[] => [...sessions].sort((a, b) => a.date.localeCompare(b.date));
+
+const addDays = (dateKey: string, days: number): string => {
+    const date = parseDateKey(dateKey);
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+};
+
+// Weeks start on Monday.
+const toWeekKey = (dateKey: string): string => addDays(dateKey, -((parseDateKey(dateKey).getDay() + 6) % 7));
+
+// Longest and current run of consecutive keys, where `step` days separate neighbours.
+const measureRuns = (keys: string[], step: number, todayKey: string): { current: number; longest: number } => {
+    const sorted = [...new Set(keys)].sort();
+    let longest = 0;
+    let run = 0;
+    sorted.forEach((key, index) => {
+        run = index > 0 && addDays(sorted[index - 1], step) === key ? run + 1 : 1;
+        longest = Math.max(longest, run);
+    });
+    const last = sorted[sorted.length - 1];
+    const isAlive = !!last && (last === todayKey || addDays(last, step) === todayKey);
+    return { current: isAlive ? run : 0, longest };
+};
+
+export const getPracticeStreaks = (sessions: Session[], now: Date = new Date()): PracticeStreaks => {
+    const dayKeys = sessions.map(s => toDateKey(new Date(s.date)));
+    const todayKey = toDateKey(now);
+    const days = measureRuns(dayKeys, 1, todayKey);
+    const weeks = measureRuns(dayKeys.map(toWeekKey), 7, toWeekKey(todayKey));
+    return { currentDays: days.current, longestDays: days.longest, currentWeeks: weeks.current, longestWeeks: weeks.longest };
+};
+
+const getSessionZones = (session: Session): TargetZone[] => session.sets.flatMap(set => [
+    ...(set.targetZones || []),
+    ...(set.reps || []).map(rep => rep.zone).filter((zone): zone is TargetZone => !!zone),
+]);
+
+export const getMilestones = (sessions: Session[]): Milestone[] => {
+    const sorted = sortByDate(sessions);
+
+    let totalReps = 0;
+    let repsEarnedAt: string | undefined;
+    let bestExecution = 0;
+    let executionEarnedAt: string | undefined;
+    const zones = new Set<TargetZone>();
+    let zonesEarnedAt: string | undefined;
+
+    sorted.forEach(session => {
+        const reps = getSessionReps(session);
+        totalReps += reps;
+        if (!repsEarnedAt && totalReps >= CAREER_REPS_MILESTONE) repsEarnedAt = session.date;
+
+        if (reps >= MIN_REPS_FOR_RATE) {
+            const execution = calculateExecutionPercentage(session.sets);
+            bestExecution = Math.max(bestExecution, execution);
+            if (!executionEarnedAt && execution >= EXECUTION_MILESTONE_PCT) executionEarnedAt = session.date;
+        }
+
+        getSessionZones(session).forEach(zone => zones.add(zone));
+        if (!zonesEarnedAt && zones.size === TARGET_ZONES.length) zonesEarnedAt = session.date;
+    });
+
+    return [
+        {
+            id: 'career-reps',
+            title: `${CAREER_REPS_MILESTONE.toLocaleString('en-US')} Career Reps`,
+            description: `Log ${CAREER_REPS_MILESTONE.toLocaleString('en-US')} reps across all your sessions.`,
+            progress: Math.min(totalReps / CAREER_REPS_MILESTONE, 1),
+            progressLabel: `${Math.min(totalReps, CAREER_REPS_MILESTONE).toLocaleString('en-US')} / ${CAREER_REPS_MILESTONE.toLocaleString('en-US')} reps`,
+            earnedAt: repsEarnedAt,
+        },
+        {
+            id: 'execution-80',
+            title: `${EXECUTION_MILESTONE_PCT}% Execution`,
+            description: `Execute ${EXECUTION_MILESTONE_PCT}% of your reps in a session of ${MIN_REPS_FOR_RATE}+ reps.`,
+            progress: Math.min(bestExecution / EXECUTION_MILESTONE_PCT, 1),
+            progressLabel: `Best ${bestExecution}% / ${EXECUTION_MILESTONE_PCT}%`,
+            earnedAt: executionEarnedAt,
+        },
+        {
+            id: 'all-zones',
+            title: 'Every Zone Trained',
+            description: `Work all ${TARGET_ZONES.length} zones of the strike zone.`,
+            progress: zones.size / TARGET_ZONES.length,
+            progressLabel: `${zones.size} / ${TARGET_ZONES.length} zones`,
+            earnedAt: zonesEarnedAt,
+        },
+    ];
+};
+
+// Ties go to the earlier session, so a best is only replaced by beating it.
+export const getPersonalBests = (sessions: Session[]): PersonalBest[] => {
+    const candidates: { id: PersonalBestId; label: string; unit: string; measure: (session: Session) => number | null }[] = [
+        { id: 'execution', label: 'Execution %', unit: '%', measure: s => getSessionReps(s) >= MIN_REPS_FOR_RATE ? calculateExecutionPercentage(s.sets) : null },
+        { id: 'hard-hit', label: 'Hard Hit %', unit: '%', measure: s => getSessionReps(s) >= MIN_REPS_FOR_RATE ? calculateHardHitPercentage(s.sets) : null },
+        { id: 'reps', label: 'Reps in a Session', unit: '', measure: s => getSessionReps(s) || null },
+        {
+            id: 'exit-velo',
+            label: 'Top Exit Velo',
+            unit: ' mph',
+            measure: s => {
+                const velos = s.sets.flatMap(set => (set.reps || []).map(rep => rep.exitVelo).filter((v): v is number => v !== undefined));
+                return velos.length > 0 ? Math.max(...velos) : null;
+            },
+        },
+    ];
+    const sorted = sortByDate(sessions);
+
+    return candidates.flatMap(({ measure, ...candidate }) => {
+        let best: PersonalBest | null = null;
+        for (const session of sorted) {
+            const value = measure(session);
+            if (value !== null && (!best || value > best.value)) {
+                best = { ...candidate, value, sessionId: session.id, date: session.date };
+            }
+        }
+        return best ? [best] : [];
+    });
+};
+
+export const getAchievements = (sessions: Session[], now: Date = new Date()): Achievements => ({
+    streaks: getPracticeStreaks(sessions, now),
+    milestones: getMilestones(sessions),
+    personalBests: getPersonalBests(sessions),
+});
+
+export const formatPersonalBest = (best: Pick<PersonalBest, 'value' | 'unit'>): string => `${best.value.toLocaleString('en-US')}${best.unit}`;
+
+// What the just-saved sessions earned: milestones reached, bests beaten and streaks extended.
+// A player's first session sets bests but doesn't beat anything, so it isn't announced.
+export const getNewAchievements = (allSessions: Session[], newSessions: Session[], now: Date = new Date()): EarnedAchievement[] => {
+    const newIds = new Set(newSessions.map(s => s.id));
+    const previous = allSessions.filter(s => !newIds.has(s.id));
+    const before = getAchievements(previous, now);
+    const after = getAchievements([...previous, ...newSessions], now);
+    const earned: EarnedAchievement[] = [];
+
+    after.milestones.forEach(milestone => {
+        const wasEarned = before.milestones.some(m => m.id === milestone.id && m.earnedAt);
+        if (milestone.earnedAt && !wasEarned) {
+            earned.push({ kind: 'milestone', title: milestone.title, detail: milestone.description });
+        }
+    });
+
+    after.personalBests.forEach(best => {
+        const previousBest = before.personalBests.find(b => b.id === best.id);
+        if (previousBest && newIds.has(best.sessionId)) {
+            earned.push({ kind: 'personal-best', title: `New Best: ${best.label}`, detail: `${formatPersonalBest(best)}, up from ${formatPersonalBest(previousBest)}` });
+        }
+    });
+
+    const { streaks } = after;
+    if (streaks.currentDays >= 2 && streaks.currentDays > before.streaks.currentDays) {
+        earned.push({ kind: 'streak', title: `${streaks.currentDays}-Day Streak`, detail: streaks.currentDays >= streaks.longestDays ? 'Your longest yet!' : `Longest: ${streaks.longestDays} days` });
+    } else if (streaks.currentWeeks >= 2 && streaks.currentWeeks > before.streaks.currentWeeks) {
+        earned.push({ kind: 'streak', title: `${streaks.currentWeeks}-Week Streak`, detail: streaks.currentWeeks >= streaks.longestWeeks ? 'Your longest yet!' : `Longest: ${streaks.longestWeeks} weeks` });
+    }
+
+    return earned;
+};
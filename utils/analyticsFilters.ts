@@ -0,0 +1,193 @@
+import { Session, SetResult, Drill, DrillType, PitchType, CountSituation, PlayerGroup } from '../types';
+import { DRILL_TYPES, PITCH_TYPES, COUNT_SITUATIONS } from '../constants';
+import { toDateKey, parseDateKey, formatDate, summarizeReps, ALL_SEASONS, SeasonFilterValue } from './helpers';
+
+// The filter bar shared by the dashboards and analytics pages. Filters live in the URL query string
+// so a filtered view can be bookmarked or sent to someone else.
+
+export type DateRangePreset = '7d' | '30d' | '90d' | 'all' | 'custom';
+
+export interface AnalyticsFilters {
+    range: DateRangePreset;
+    from?: string; // YYYY-MM-DD, custom range only
+    to?: string; // YYYY-MM-DD, custom range only
+    drillType?: DrillType;
+    pitchType?: PitchType;
+    countSituation?: CountSituation;
+    playerId?: string;
+    groupId?: string;
+    season?: SeasonFilterValue; // Absent means the season in progress
+}
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string; days?: number }[] = [
+    { value: '7d', label: 'Last 7 Days', days: 7 },
+    { value: '30d', label: 'Last 30 Days', days: 30 },
+    { value: '90d', label: 'Last 90 Days', days: 90 },
+    { value: 'all', label: 'All Dates' },
+    { value: 'custom', label: 'Custom Range' },
+];
+
+export const DEFAULT_ANALYTICS_FILTERS: AnalyticsFilters = { range: '30d' };
+
+// --- URL ---
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pickOption = <T extends string>(value: string | null, options: readonly T[]): T | undefined => {
+    return options.includes(value as T) ? value as T : undefined;
+};
+
+// Unknown or malformed values are dropped rather than rejected, so an old link still opens.
+export const parseAnalyticsFilters = (search: string): AnalyticsFilters => {
+    const params = new URLSearchParams(search);
+    const date = (key: string) => DATE_KEY_PATTERN.test(params.get(key) || '') ? params.get(key)! : undefined;
+    const season = params.get('season');
+    return {
+        range: pickOption(params.get('range'), DATE_RANGE_PRESETS.map(p => p.value)) || DEFAULT_ANALYTICS_FILTERS.range,
+        from: date('from'),
+        to: date('to'),
+        drillType: pickOption(params.get('drillType'), DRILL_TYPES),
+        pitchType: pickOption(params.get('pitch'), PITCH_TYPES),
+        countSituation: pickOption(params.get('count'), COUNT_SITUATIONS),
+        playerId: params.get('player') || undefined,
+        groupId: params.get('group') || undefined,
+        season: season === ALL_SEASONS ? ALL_SEASONS : season && /^\d{4}$/.test(season) ? Number(season) : undefined,
+    };
+};
+
+// Writes the filters into an existing query string, leaving unrelated parameters alone.
+export const serializeAnalyticsFilters = (filters: AnalyticsFilters, search: string): string => {
+    const params = new URLSearchParams(search);
+    const values: Record<string, string | number | undefined> = {
+        range: filters.range === DEFAULT_ANALYTICS_FILTERS.range ? undefined : filters.range,
+        from: filters.range === 'custom' ? filters.from : undefined,
+        to: filters.range === 'custom' ? filters.to : undefined,
+        drillType: filters.drillType,
+        pitch: filters.pitchType,
+        count: filters.countSituation,
+        player: filters.playerId,
+        group: filters.groupId,
+        season: filters.season,
+    };
+    Object.entries(values).forEach(([key, value]) => {
+        if (value === undefined || value === '') params.delete(key);
+        else params.set(key, String(value));
+    });
+    const query = params.toString();
+    return query ? `?${query}` : '';
+};
+
+// --- Applying Filters ---
+
+export interface DateBounds {
+    start: string; // YYYY-MM-DD, inclusive
+    end: string; // YYYY-MM-DD, inclusive
+}
+
+const addDays = (dateKey: string, days: number): string => {
+    const date = parseDateKey(dateKey);
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+};
+
+// Open-ended ranges run from the earliest session to today. A custom start before any session is pulled up to the first one.
+export const getDateBounds = (filters: AnalyticsFilters, sessions: Session[], today: Date = new Date()): DateBounds => {
+    const todayKey = toDateKey(today);
+    const earliest = sessions.reduce((min, s) => {
+        const key = toDateKey(new Date(s.date));
+        return key < min ? key : min;
+    }, todayKey);
+    const preset = DATE_RANGE_PRESETS.find(p => p.value === filters.range);
+    if (preset?.days) return { start: addDays(todayKey, 1 - preset.days), end: todayKey };
+    if (filters.range === 'custom') return { start: filters.from && filters.from > earliest ? filters.from : earliest, end: filters.to || todayKey };
+    return { start: earliest, end: todayKey };
+};
+
+export const getDateRangeLabel = (filters: AnalyticsFilters): string => {
+    if (filters.range !== 'custom') return DATE_RANGE_PRESETS.find(p => p.value === filters.range)!.label;
+    const format = (dateKey: string) => formatDate(parseDateKey(dateKey).toISOString(), { month: 'short', day: 'numeric', year: 'numeric' });
+    if (filters.from && filters.to) return `${format(filters.from)} - ${format(filters.to)}`;
+    if (filters.from) return `Since ${format(filters.from)}`;
+    if (filters.to) return `Through ${format(filters.to)}`;
+    return 'All Dates';
+};
+
+export const getSessionDrillType = (session: Session, drills: Drill[]): DrillType | undefined => {
+    if (session.drillId) return drills.find(d => d.id === session.drillId)?.drillType;
+    return DRILL_TYPES.includes(session.name as DrillType) ? session.name as DrillType : undefined;
+};
+
+// Narrows a set to the matching pitches. Pitch-by-pitch sets keep only the matching reps; summary sets match on their tags.
+const filterSet = (set: SetResult, filters: AnalyticsFilters): SetResult | null => {
+    if (filters.countSituation && (set.countSituation || 'Even') !== filters.countSituation) return null;
+    if (!filters.pitchType) return set;
+    if (set.reps && set.reps.length > 0) {
+        const reps = set.reps.filter(r => r.pitchType === filters.pitchType);
+        return reps.length > 0 ? { ...set, ...summarizeReps(reps), reps } : null;
+    }
+    return set.pitchTypes?.includes(filters.pitchType) ? set : null;
+};
+
+// Applies everything but the season, which callers handle with the team's season history. For a closed season,
+// pass its end as `today` so "last 30 days" means the end of that season. Sessions left with no matching sets are dropped.
+export const applyAnalyticsFilters = (sessions: Session[], filters: AnalyticsFilters, drills: Drill[], groups: PlayerGroup[] = [], today: Date = new Date()): Session[] => {
+    const bounds = filters.range === 'all' ? null : getDateBounds(filters, sessions, today);
+    const group = filters.groupId ? groups.find(g => g.id === filters.groupId) : undefined;
+    const filterSets = !!(filters.pitchType || filters.countSituation);
+
+    return sessions
+        .filter(session => {
+            if (filters.playerId && session.playerId !== filters.playerId) return false;
+            if (group && !group.playerIds.includes(session.playerId)) return false;
+            if (filters.drillType && getSessionDrillType(session, drills) !== filters.drillType) return false;
+            if (bounds) {
+                const dateKey = toDateKey(new Date(session.date));
+                if (dateKey < bounds.start || dateKey > bounds.end) return false;
+            }
+            return true;
+        })
+        .map(session => filterSets
+            ? { ...session, sets: session.sets.map(set => filterSet(set, filters)).filter((set): set is SetResult => !!set) }
+            : session)
+        .filter(session => session.sets.length > 0);
+};
+
+// --- Trends ---
+
+const MAX_DAILY_POINTS = 31;
+const MAX_WEEKLY_POINTS = 26;
+
+// Execution % across the date range, by day for short ranges and by week or month for longer ones.
+export const getExecutionTrend = (sessions: Session[], bounds: DateBounds): { date: string; 'Execution %': number }[] => {
+    const days = Math.round((parseDateKey(bounds.end).getTime() - parseDateKey(bounds.start).getTime()) / 86400000) + 1;
+    const bucketDays = days <= MAX_DAILY_POINTS ? 1 : days <= MAX_WEEKLY_POINTS * 7 ? 7 : 0;
+
+    const buckets = new Map<string, { label: string; executed: number; attempted: number }>();
+    const getBucketKey = (dateKey: string): string => {
+        if (bucketDays === 0) return dateKey.slice(0, 7);
+        const offset = Math.floor((parseDateKey(dateKey).getTime() - parseDateKey(bounds.start).getTime()) / 86400000);
+        return addDays(bounds.start, offset - (offset % bucketDays));
+    };
+    for (let day = bounds.start; day <= bounds.end; day = addDays(day, 1)) {
+        const key = getBucketKey(day);
+        if (buckets.has(key)) continue;
+        const label = bucketDays === 0
+            ? formatDate(parseDateKey(`${key}-01`).toISOString(), { month: 'short', year: '2-digit' })
+            : formatDate(parseDateKey(key).toISOString(), { month: 'short', day: 'numeric' });
+        buckets.set(key, { label, executed: 0, attempted: 0 });
+    }
+
+    sessions.forEach(session => {
+        const bucket = buckets.get(getBucketKey(toDateKey(new Date(session.date))));
+        if (!bucket) return;
+        session.sets.forEach(set => {
+            bucket.executed += set.repsExecuted;
+            bucket.attempted += set.repsAttempted;
+        });
+    });
+
+    return Array.from(buckets.values()).map(bucket => ({
+        date: bucket.label,
+        'Execution %': bucket.attempted > 0 ? Math.round((bucket.executed / bucket.attempted) * 100) : 0,
+    }));
+};
@@ -0,0 +1,256 @@
+import { Team, Player, PlayerProfile, PlayerGroup, Drill, PracticePlan, Session, DrillAssignment, PersonalGoal, TeamGoal, AssignmentTarget } from '../types';
+import { TeamExportData } from './export';
+
+// Versioned team backups. A backup carries a team's own records plus who was on its roster;
+// player accounts belong to the players, so after a restore the roster rejoins with the new team code.
+
+export const TEAM_BACKUP_FORMAT = 'hitting-tracker-team-backup';
+export const TEAM_BACKUP_VERSION = 1;
+
+export interface BackupPlayer {
+    id: string;
+    name: string;
+    profile: PlayerProfile;
+}
+
+export interface TeamBackup {
+    format: typeof TEAM_BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    team: Omit<Team, 'coachId'>;
+    players: BackupPlayer[];
+    groups: PlayerGroup[];
+    drills: Drill[];
+    plans: PracticePlan[];
+    assignments: DrillAssignment[];
+    sessions: Session[];
+    personalGoals: PersonalGoal[];
+    teamGoals: TeamGoal[];
+}
+
+export const createTeamBackup = ({ team, players, groups, drills, plans, assignments, sessions, personalGoals, teamGoals }: TeamExportData): TeamBackup => {
+    const { coachId, ...teamFields } = team;
+    const toBackupPlayer = (player: Player): BackupPlayer => ({
+        id: player.id,
+        name: player.name,
+        profile: player.profile,
+    });
+    return {
+        format: TEAM_BACKUP_FORMAT,
+        version: TEAM_BACKUP_VERSION,
+        exportedAt: new Date().toISOString(),
+        team: teamFields,
+        players: players.map(toBackupPlayer),
+        groups,
+        drills,
+        plans,
+        assignments,
+        sessions,
+        personalGoals,
+        teamGoals,
+    };
+};
+
+// --- Validation ---
+
+const BACKUP_COLLECTIONS = ['players', 'groups', 'drills', 'plans', 'assignments', 'sessions', 'personalGoals', 'teamGoals'] as const;
+
+// What each type name in REQUIRED_FIELDS narrows a JSON value to.
+interface JsonTypes {
+    string: string;
+    number: number;
+    array: unknown[];
+    object: Record<string, unknown>;
+}
+
+// Fields every record in a collection must have, by type.
+const REQUIRED_FIELDS: Record<typeof BACKUP_COLLECTIONS[number], [string, keyof JsonTypes][]> = {
+    players: [['id', 'string'], ['name', 'string'], ['profile', 'object']],
+    groups: [['id', 'string'], ['name', 'string'], ['playerIds', 'array']],
+    drills: [['id', 'string'], ['name', 'string'], ['goalType', 'string'], ['goalTargetValue', 'number'], ['repsPerSet', 'number'], ['sets', 'number']],
+    plans: [['id', 'string'], ['name', 'string'], ['items', 'array']],
+    assignments: [['id', 'string'], ['playerIds', 'array'], ['assignedDate', 'string']],
+    sessions: [['id', 'string'], ['playerId', 'string'], ['name', 'string'], ['date', 'string'], ['sets', 'array']],
+    personalGoals: [['id', 'string'], ['playerId', 'string'], ['metric', 'string'], ['targetValue', 'number'], ['targetDate', 'string']],
+    teamGoals: [['id', 'string'], ['description', 'string'], ['metric', 'string'], ['targetValue', 'number'], ['targetDate', 'string']],
+};
+
+const MAX_REPORTED_ERRORS = 10;
+
+const hasType = <K extends keyof JsonTypes>(value: unknown, type: K): value is JsonTypes[K] => {
+    if (type === 'array') return Array.isArray(value);
+    if (type === 'object') return typeof value === 'object' && value !== null && !Array.isArray(value);
+    return typeof value === type;
+};
+
+export interface BackupValidation {
+    backup?: TeamBackup;
+    errors: string[]; // Problems that stop the restore
+    warnings: string[]; // Records that will be skipped or changed on restore
+}
+
+export const parseTeamBackup = (text: string): BackupValidation => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return { errors: ['This file isn\'t valid JSON.'], warnings: [] };
+    }
+    if (!hasType(data, 'object') || data.format !== TEAM_BACKUP_FORMAT) {
+        return { errors: ['This file isn\'t a team backup. Choose a file made with "Download Backup".'], warnings: [] };
+    }
+    if (typeof data.version !== 'number' || data.version > TEAM_BACKUP_VERSION) {
+        return { errors: [`This backup was made by a newer version of the app (format ${data.version}). Update the app and try again.`], warnings: [] };
+    }
+
+    const errors: string[] = [];
+    const team = data.team;
+    if (!hasType(team, 'object') || !hasType(team.name, 'string') || !hasType(team.seasonYear, 'number')) {
+        errors.push('The team record is missing its name or season year.');
+    }
+    BACKUP_COLLECTIONS.forEach(collection => {
+        const records = data[collection];
+        if (!hasType(records, 'array')) {
+            errors.push(`"${collection}" is missing or isn't a list.`);
+            return;
+        }
+        records.forEach((record, index) => {
+            const fields: Record<string, unknown> = hasType(record, 'object') ? record : {};
+            const missing = REQUIRED_FIELDS[collection].filter(([field, type]) => !hasType(fields[field], type)).map(([field]) => field);
+            if (missing.length > 0) errors.push(`${collection}[${index}] is missing ${missing.join(', ')}.`);
+        });
+    });
+    if (errors.length > 0) {
+        const extra = errors.length - MAX_REPORTED_ERRORS;
+        return { errors: extra > 0 ? [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${extra} more.`] : errors, warnings: [] };
+    }
+
+    // The required fields are checked above; everything else in a record is optional.
+    const backup = data as unknown as TeamBackup;
+    return { backup, errors: [], warnings: findDanglingReferences(backup) };
+};
+
+// References to records the backup doesn't contain. None of these block a restore.
+const findDanglingReferences = (backup: TeamBackup): string[] => {
+    const playerIds = new Set<string>(backup.players.map(p => p.id));
+    const drillIds = new Set<string>(backup.drills.map(d => d.id));
+    const planIds = new Set<string>(backup.plans.map(p => p.id));
+    const warnings: string[] = [];
+    const count = (n: number, message: string) => { if (n > 0) warnings.push(`${n} ${message}`); };
+
+    count(backup.sessions.filter(s => !playerIds.has(s.playerId)).length, 'session(s) belong to players not on the roster and will be skipped.');
+    count(backup.sessions.filter(s => s.drillId && !drillIds.has(s.drillId)).length, 'session(s) reference deleted drills and will be restored as ad-hoc sessions.');
+    count(backup.plans.flatMap(p => p.items).filter(i => !drillIds.has(i.drillId)).length, 'practice plan step(s) reference deleted drills and will be dropped.');
+    count(backup.assignments.filter(a => a.drillId ? !drillIds.has(a.drillId) : !a.planId || !planIds.has(a.planId)).length, 'assignment(s) reference deleted drills or plans and will be skipped.');
+    count(backup.personalGoals.filter(g => !playerIds.has(g.playerId)).length, 'personal goal(s) belong to players not on the roster and will be skipped.');
+    return warnings;
+};
+
+export const summarizeBackup = (backup: TeamBackup): { label: string; count: number }[] => [
+    { label: 'Players', count: backup.players.length },
+    { label: 'Groups', count: backup.groups.length },
+    { label: 'Drills', count: backup.drills.length },
+    { label: 'Practice Plans', count: backup.plans.length },
+    { label: 'Assignments', count: backup.assignments.length },
+    { label: 'Sessions', count: backup.sessions.length },
+    { label: 'Personal Goals', count: backup.personalGoals.length },
+    { label: 'Team Goals', count: backup.teamGoals.length },
+];
+
+// --- Restore ---
+
+// Old ID -> new ID for each kind of record created so far. Players keep their IDs; the set holds those whose account still exists.
+export interface BackupIdMap {
+    teamId: string;
+    players: Set<string>;
+    groups: Map<string, string>;
+    drills: Map<string, string>;
+    plans: Map<string, string>;
+}
+
+// A restored team never overwrites an existing one, so a clashing name gets a suffix.
+export const getRestoredTeamName = (name: string, existingTeams: Team[]): string => {
+    const names = new Set<string>(existingTeams.map(t => t.name.toLowerCase()));
+    if (!names.has(name.toLowerCase())) return name;
+    let candidate = `${name} (Restored)`;
+    for (let n = 2; names.has(candidate.toLowerCase()); n++) candidate = `${name} (Restored ${n})`;
+    return candidate;
+};
+
+export const remapGroup = ({ id, ...group }: PlayerGroup, ids: BackupIdMap): Omit<PlayerGroup, 'id'> => ({
+    ...group,
+    teamId: ids.teamId,
+    playerIds: group.playerIds.filter(playerId => ids.players.has(playerId)),
+});
+
+export const remapPlan = ({ id, ...plan }: PracticePlan, ids: BackupIdMap): Omit<PracticePlan, 'id'> => ({
+    ...plan,
+    teamId: ids.teamId,
+    items: plan.items.filter(item => ids.drills.has(item.drillId)).map(item => ({ ...item, drillId: ids.drills.get(item.drillId)! })),
+});
+
+const remapTarget = (target: AssignmentTarget, ids: BackupIdMap): AssignmentTarget | null => {
+    if (target.type !== 'group') return target;
+    const groupId = ids.groups.get(target.groupId);
+    return groupId ? { type: 'group', groupId } : null;
+};
+
+// Null when the assigned drill or plan wasn't restored.
+export const remapAssignment = ({ id, ...assignment }: DrillAssignment, ids: BackupIdMap): Omit<DrillAssignment, 'id'> | null => {
+    const drillId = assignment.drillId ? ids.drills.get(assignment.drillId) : undefined;
+    const planId = assignment.planId ? ids.plans.get(assignment.planId) : undefined;
+    if (!drillId && !planId) return null;
+    return {
+        ...assignment,
+        teamId: ids.teamId,
+        drillId,
+        planId,
+        playerIds: assignment.playerIds.filter(playerId => playerId === 'all' || ids.players.has(playerId)),
+        targets: assignment.targets?.map(t => remapTarget(t, ids)).filter((t): t is AssignmentTarget => !!t),
+    };
+};
+
+// Null when the session's player wasn't re-linked. The client ID is dropped so the backend doesn't treat it as a replay of the original.
+export const remapSession = ({ id, clientId, ...session }: Session, ids: BackupIdMap): Omit<Session, 'id'> | null => {
+    if (!ids.players.has(session.playerId)) return null;
+    return {
+        ...session,
+        teamId: ids.teamId,
+        drillId: session.drillId ? ids.drills.get(session.drillId) : undefined,
+        planId: session.planId ? ids.plans.get(session.planId) : undefined,
+    };
+};
+
+// Sessions stay in each player's history whatever team they were logged for, so restoring while the original team
+// still exists would list them twice. The original ID or client ID matches directly; otherwise the same timestamp and sets.
+export const isSameSession = (existing: Session, backedUp: Session): boolean => {
+    if (existing.id === backedUp.id) return true;
+    if (existing.clientId && existing.clientId === backedUp.clientId) return true;
+    return existing.playerId === backedUp.playerId && existing.date === backedUp.date
+        && JSON.stringify(existing.sets) === JSON.stringify(backedUp.sets);
+};
+
+export const remapTeamGoal = ({ id, ...goal }: TeamGoal, ids: BackupIdMap): Omit<TeamGoal, 'id'> => ({
+    ...goal,
+    teamId: ids.teamId,
+    groupId: goal.groupId ? ids.groups.get(goal.groupId) : undefined,
+});
+
+// Goals set for the backed-up team move to the restored one; goals for the player's other teams stay put.
+export const remapPersonalGoal = (goal: Omit<PersonalGoal, 'id'>, backupTeamId: string, ids: BackupIdMap): Omit<PersonalGoal, 'id'> => ({
+    ...goal,
+    ...(goal.teamId === backupTeamId && { teamId: ids.teamId }),
+});
+
+// Personal goals aren't always tied to a team, so a player restoring into the same app may already have the goal.
+export const isSameGoal = (a: Omit<PersonalGoal, 'id'>, b: Omit<PersonalGoal, 'id'>): boolean => {
+    return a.playerId === b.playerId && a.metric === b.metric && a.targetValue === b.targetValue
+        && a.startDate === b.startDate && a.targetDate === b.targetDate && a.drillType === b.drillType;
+};
+
+export interface RestoreReport {
+    teamId: string;
+    teamName: string;
+    created: { label: string; count: number }[];
+    conflicts: string[];
+}
@@ -0,0 +1,338 @@
+import { Session, SetResult, RepResult, RepOutcome, PitchType, TargetZone, BattedBallType, DrillType } from '../types';
+import { REP_OUTCOMES, PITCH_TYPES, TARGET_ZONES, BATTED_BALL_TYPES } from '../constants';
+import { toDateKey, parseDateKey, summarizeReps, classifyLaunchAngle } from './helpers';
+
+// Imports session data exported from bat sensors, radar units and pitching machines.
+// A file holds either one row per set (with a reps column) or one row per swing.
+
+export type CsvImportField =
+    | 'date' | 'sessionName' | 'setNumber'
+    | 'repsAttempted' | 'repsExecuted' | 'hardHits' | 'strikeouts' | 'grade'
+    | 'outcome' | 'pitchType' | 'zone' | 'exitVelo' | 'launchAngle' | 'sprayAngle' | 'battedBallType' | 'notes';
+
+export type CsvColumnMapping = Partial<Record<CsvImportField, string>>; // Field -> CSV header
+
+export const CSV_IMPORT_FIELDS: { key: CsvImportField; label: string; aliases: string[] }[] = [
+    { key: 'date', label: 'Date', aliases: ['date', 'timestamp', 'time', 'datetime', 'session date'] },
+    { key: 'sessionName', label: 'Session Name', aliases: ['session', 'session name', 'drill', 'drill name', 'name'] },
+    { key: 'setNumber', label: 'Set #', aliases: ['set', 'set number', 'set #', 'round'] },
+    { key: 'repsAttempted', label: 'Reps Attempted', aliases: ['reps', 'reps attempted', 'attempts', 'swings'] },
+    { key: 'repsExecuted', label: 'Reps Executed', aliases: ['executed', 'reps executed', 'successes'] },
+    { key: 'hardHits', label: 'Hard Hits', aliases: ['hard hits', 'hard hit count', 'hh'] },
+    { key: 'strikeouts', label: 'Strikeouts', aliases: ['strikeouts', 'k', 'ks', 'whiffs', 'misses'] },
+    { key: 'grade', label: 'Grade (1-10)', aliases: ['grade', 'rating'] },
+    { key: 'outcome', label: 'Swing Result', aliases: ['result', 'outcome', 'swing result'] },
+    { key: 'pitchType', label: 'Pitch Type', aliases: ['pitch', 'pitch type'] },
+    { key: 'zone', label: 'Zone', aliases: ['zone', 'location', 'pitch location'] },
+    { key: 'exitVelo', label: 'Exit Velo (mph)', aliases: ['exit velo', 'exit velocity', 'ev', 'exit speed', 'ball speed'] },
+    { key: 'launchAngle', label: 'Launch Angle (°)', aliases: ['launch angle', 'la', 'vertical angle'] },
+    { key: 'sprayAngle', label: 'Spray Angle (°)', aliases: ['spray angle', 'spray', 'direction', 'horizontal angle'] },
+    { key: 'battedBallType', label: 'Batted Ball Type', aliases: ['batted ball type', 'hit type', 'bb type'] },
+    { key: 'notes', label: 'Notes', aliases: ['notes', 'note', 'comment'] },
+];
+
+// Sensor exports rarely say whether a swing was "hard hit", so one at or above this exit velocity counts.
+export const HARD_HIT_EXIT_VELO = 95;
+
+export interface CsvRowError {
+    row: number; // 1-based line number in the file, counting the header
+    message: string;
+}
+
+export interface ImportedSession {
+    key: string;
+    name: string;
+    date: string; // ISO string
+    sets: SetResult[];
+    rowCount: number;
+    duplicateOf?: Session; // An existing session for the player on the same day with the same name
+}
+
+export interface CsvImportPreview {
+    sessions: ImportedSession[];
+    errors: CsvRowError[];
+}
+
+// Splits CSV text into rows, honouring quoted fields, escaped quotes and CRLF line endings.
+export const parseCsv = (text: string): { headers: string[]; rows: string[][] } => {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    const [headerRow = [], ...rows] = records;
+    return {
+        headers: headerRow.map(h => h.trim().replace(/^\uFEFF/, '')),
+        // Keep blank lines so row numbers still match the file; they are skipped when building the preview.
+        rows: rows.map(row => row.map(value => value.trim())),
+    };
+};
+
+// Ignores case, punctuation and units, so "Exit_Velocity (mph)" matches "exit velocity".
+const normalize = (value: string) => value.toLowerCase().replace(/\(.*?\)/g, ' ').replace(/[_\-°]/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const guessColumnMapping = (headers: string[]): CsvColumnMapping => {
+    const mapping: CsvColumnMapping = {};
+    const used = new Set<string>();
+    CSV_IMPORT_FIELDS.forEach(({ key, label, aliases }) => {
+        const candidates = [normalize(label), ...aliases.map(normalize)];
+        const header = headers.find(h => !used.has(h) && candidates.includes(normalize(h)));
+        if (header) {
+            mapping[key] = header;
+            used.add(header);
+        }
+    });
+    return mapping;
+};
+
+// Per-set rows need a reps column; per-swing rows need something to describe each swing.
+export const isSwingMapping = (mapping: CsvColumnMapping): boolean => !mapping.repsAttempted;
+
+export const getMappingError = (mapping: CsvColumnMapping): string | null => {
+    if (!mapping.date) return 'Choose the column that holds each row\'s date.';
+    if (isSwingMapping(mapping) && !mapping.outcome && !mapping.exitVelo) {
+        return 'Map either a reps column (one row per set) or a swing result or exit velo column (one row per swing).';
+    }
+    return null;
+};
+
+const OUTCOME_ALIASES: Record<string, RepOutcome> = {
+    'hard hit': 'Hard Hit', 'hardhit': 'Hard Hit', 'hh': 'Hard Hit', 'barrel': 'Hard Hit',
+    'executed': 'Executed', 'contact': 'Executed', 'in play': 'Executed', 'hit': 'Executed',
+    'whiff': 'Whiff', 'miss': 'Whiff', 'swinging strike': 'Whiff', 'strikeout': 'Whiff', 'k': 'Whiff',
+    'foul': 'Foul', 'foul ball': 'Foul',
+    'take': 'Take', 'ball': 'Take', 'called strike': 'Take', 'no swing': 'Take',
+};
+
+const matchOption = <T extends string>(options: T[], value: string): T | undefined => options.find(o => normalize(o) === normalize(value));
+
+// Accepts YYYY-MM-DD (read as a local day), full ISO timestamps and anything else Date can parse, like 3/14/2025 4:05 PM.
+const parseImportDate = (value: string): Date | null => {
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? parseDateKey(value) : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+};
+
+const parseNumber = (value: string): number | null => {
+    if (value === '') return null;
+    const number = Number(value);
+    return isNaN(number) ? NaN : number;
+};
+
+interface ParsedRow {
+    row: number;
+    date: Date;
+    name: string;
+    setNumber?: number;
+    set?: SetResult;
+    rep?: RepResult;
+}
+
+const parseSetRow = (read: (field: CsvImportField) => string, fail: (message: string) => never): SetResult => {
+    const count = (field: CsvImportField, label: string): number => {
+        const value = parseNumber(read(field));
+        if (value === null) return 0;
+        if (!Number.isInteger(value) || value < 0) fail(`${label} must be a whole number of zero or more.`);
+        return value;
+    };
+    const set: SetResult = {
+        setNumber: 0,
+        repsAttempted: count('repsAttempted', 'Reps attempted'),
+        repsExecuted: count('repsExecuted', 'Reps executed'),
+        hardHits: count('hardHits', 'Hard hits'),
+        strikeouts: count('strikeouts', 'Strikeouts'),
+    };
+    if (set.repsAttempted === 0) fail('Reps attempted is missing or zero.');
+    if (set.repsExecuted > set.repsAttempted || set.hardHits > set.repsAttempted || set.strikeouts > set.repsAttempted) {
+        fail('Executed reps, hard hits and strikeouts can\'t exceed reps attempted.');
+    }
+    const grade = parseNumber(read('grade'));
+    if (grade !== null) {
+        if (isNaN(grade) || grade < 1 || grade > 10) fail('Grade must be between 1 and 10.');
+        set.grade = Math.round(grade);
+    }
+    const pitchType = read('pitchType');
+    if (pitchType) {
+        const match = matchOption<PitchType>(PITCH_TYPES, pitchType);
+        if (!match) fail(`Unknown pitch type "${pitchType}".`);
+        set.pitchTypes = [match!];
+    }
+    const zone = read('zone');
+    if (zone) {
+        const match = matchOption<TargetZone>(TARGET_ZONES, zone);
+        if (!match) fail(`Unknown zone "${zone}".`);
+        set.targetZones = [match!];
+    }
+    if (read('notes')) set.notes = read('notes');
+    return set;
+};
+
+const parseSwingRow = (read: (field: CsvImportField) => string, fail: (message: string) => never): RepResult => {
+    const measurement = (field: CsvImportField, label: string): number | undefined => {
+        const value = parseNumber(read(field));
+        if (value === null) return undefined;
+        if (isNaN(value)) fail(`${label} "${read(field)}" isn't a number.`);
+        return value;
+    };
+    const exitVelo = measurement('exitVelo', 'Exit velo');
+    const launchAngle = measurement('launchAngle', 'Launch angle');
+    const sprayAngle = measurement('sprayAngle', 'Spray angle');
+
+    const outcomeValue = read('outcome');
+    let outcome: RepOutcome;
+    if (outcomeValue) {
+        const match = matchOption<RepOutcome>(REP_OUTCOMES, outcomeValue) || OUTCOME_ALIASES[normalize(outcomeValue)];
+        if (!match) fail(`Unknown swing result "${outcomeValue}".`);
+        outcome = match!;
+    } else if (exitVelo !== undefined) {
+        // A measured ball means the swing made contact.
+        outcome = exitVelo >= HARD_HIT_EXIT_VELO ? 'Hard Hit' : 'Executed';
+    } else {
+        fail('Swing result is missing and there is no exit velo to infer it from.');
+    }
+
+    const rep: RepResult = { outcome: outcome! };
+    const pitchType = read('pitchType');
+    if (pitchType) {
+        rep.pitchType = matchOption<PitchType>(PITCH_TYPES, pitchType);
+        if (!rep.pitchType) fail(`Unknown pitch type "${pitchType}".`);
+    }
+    const zone = read('zone');
+    if (zone) {
+        rep.zone = matchOption<TargetZone>(TARGET_ZONES, zone);
+        if (!rep.zone) fail(`Unknown zone "${zone}".`);
+    }
+    const battedBallType = read('battedBallType');
+    if (battedBallType) {
+        rep.battedBallType = matchOption<BattedBallType>(BATTED_BALL_TYPES, battedBallType);
+        if (!rep.battedBallType) fail(`Unknown batted ball type "${battedBallType}". Use GB, LD, FB or PU.`);
+    } else if (launchAngle !== undefined && outcome! !== 'Whiff' && outcome! !== 'Take') {
+        rep.battedBallType = classifyLaunchAngle(launchAngle);
+    }
+    if (exitVelo !== undefined) rep.exitVelo = exitVelo;
+    if (launchAngle !== undefined) rep.launchAngle = launchAngle;
+    if (sprayAngle !== undefined) rep.sprayAngle = sprayAngle;
+    if (read('notes')) rep.notes = read('notes');
+    return rep;
+};
+
+class RowError extends Error {}
+
+const toSets = (rows: ParsedRow[], swingMode: boolean): SetResult[] => {
+    if (!swingMode) {
+        // Rows are ordered by their Set # (rows without one keep their place in the file), then numbered 1, 2, 3...
+        // so a file that mixes numbered and unnumbered rows can't produce two sets with the same number.
+        return rows
+            .map((r, index) => ({ set: r.set!, order: r.setNumber ?? index + 1 }))
+            .sort((a, b) => a.order - b.order)
+            .map(({ set }, index) => ({ ...set, setNumber: index + 1 }));
+    }
+    // Swings without a set column all land in set 1.
+    const bySet = new Map<number, RepResult[]>();
+    rows.forEach(r => {
+        const setNumber = r.setNumber ?? 1;
+        bySet.set(setNumber, [...(bySet.get(setNumber) || []), r.rep!]);
+    });
+    return Array.from(bySet.keys()).sort((a, b) => a - b).map(setNumber => {
+        const reps = bySet.get(setNumber)!;
+        return { setNumber, ...summarizeReps(reps), reps };
+    });
+};
+
+// Turns mapped CSV rows into sessions for one player, grouped by day and session name.
+export const buildImportPreview = (
+    headers: string[],
+    rows: string[][],
+    mapping: CsvColumnMapping,
+    defaultSessionName: DrillType | string,
+    existingSessions: Session[],
+): CsvImportPreview => {
+    const swingMode = isSwingMapping(mapping);
+    const columnIndex = Object.fromEntries(
+        Object.entries(mapping).map(([field, header]) => [field, headers.indexOf(header!)])
+    ) as Partial<Record<CsvImportField, number>>;
+
+    const errors: CsvRowError[] = [];
+    const parsed: ParsedRow[] = [];
+
+    rows.forEach((values, index) => {
+        const row = index + 2;
+        if (values.every(v => v === '')) return;
+        const read = (field: CsvImportField): string => {
+            const column = columnIndex[field];
+            return column === undefined || column < 0 ? '' : values[column] ?? '';
+        };
+        const fail = (message: string): never => { throw new RowError(message); };
+
+        try {
+            const date = parseImportDate(read('date'));
+            if (!date) fail(read('date') ? `Unrecognized date "${read('date')}".` : 'Date is missing.');
+            const setNumberValue = parseNumber(read('setNumber'));
+            if (setNumberValue !== null && (!Number.isInteger(setNumberValue) || setNumberValue < 1)) fail('Set # must be a whole number of 1 or more.');
+            parsed.push({
+                row,
+                date: date!,
+                name: read('sessionName') || defaultSessionName,
+                setNumber: setNumberValue ?? undefined,
+                ...(swingMode ? { rep: parseSwingRow(read, fail) } : { set: parseSetRow(read, fail) }),
+            });
+        } catch (error) {
+            if (!(error instanceof RowError)) throw error;
+            errors.push({ row, message: error.message });
+        }
+    });
+
+    const groups = new Map<string, ParsedRow[]>();
+    parsed.forEach(r => {
+        const key = `${toDateKey(r.date)}|${r.name.toLowerCase()}`;
+        groups.set(key, [...(groups.get(key) || []), r]);
+    });
+
+    const sessions = Array.from(groups, ([key, groupRows]): ImportedSession => {
+        const first = groupRows.reduce((earliest, r) => r.date < earliest.date ? r : earliest);
+        const dateKey = toDateKey(first.date);
+        return {
+            key,
+            name: first.name,
+            date: first.date.toISOString(),
+            sets: toSets(groupRows, swingMode),
+            rowCount: groupRows.length,
+            duplicateOf: existingSessions.find(s => toDateKey(new Date(s.date)) === dateKey && s.name.toLowerCase() === first.name.toLowerCase()),
+        };
+    });
+
+    return {
+        sessions: sessions.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()),
+        errors,
+    };
+};
@@ -0,0 +1,192 @@
+import { Team, Player, PlayerGroup, Drill, PracticePlan, Session, DrillAssignment, PersonalGoal, TeamGoal } from '../types';
+import { toDateKey, getDrillSuccessRates, summarizePlayerSessions, getCurrentMetricValue, getCurrentTeamMetricValue, calculateGoalProgress, calculateExecutionPercentage, formatGoalName, formatTeamGoalName } from './helpers';
+
+// Builds the CSV and JSON files coaches and players can download. Every number comes from the
+// same helpers the analytics pages use.
+
+export type CsvValue = string | number | boolean | null | undefined;
+export type CsvRow = Record<string, CsvValue>;
+
+// Spreadsheets run cells starting with these as formulas, so player-entered text could run one on a coach's machine.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvValue = (value: CsvValue): string => {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Columns follow the key order of the first row.
+export const toCsv = (rows: CsvRow[]): string => {
+    if (rows.length === 0) return '';
+    const headers = Object.keys(rows[0]);
+    return [headers, ...rows.map(row => headers.map(h => row[h]))]
+        .map(values => values.map(escapeCsvValue).join(','))
+        .join('\r\n');
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Some browsers start the download after click() returns, so the URL has to outlive it.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// e.g. "Varsity Blue" -> "varsity-blue-sessions-2025-03-14.csv"
+export const getExportFileName = (name: string, kind: string, extension: 'csv' | 'json'): string => {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
+    return `${slug}-${kind}-${toDateKey(new Date())}.${extension}`;
+};
+
+const list = (values?: string[]) => values && values.length > 0 ? values.join('; ') : '';
+
+// One row per set with its counts and situation. Pitch-by-pitch detail is in the rep export below.
+export const getSessionExportRows = (sessions: Session[], players: Player[], drills: Drill[]): CsvRow[] => {
+    return [...sessions]
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+        .flatMap(session => {
+            const player = players.find(p => p.id === session.playerId);
+            const drill = drills.find(d => d.id === session.drillId);
+            return session.sets.map(set => ({
+                'Date': toDateKey(new Date(session.date)),
+                'Player': player?.name || session.playerId,
+                'Session': session.name,
+                'Drill Type': drill?.drillType || '',
+                'Set': set.setNumber,
+                'Reps Attempted': set.repsAttempted,
+                'Reps Executed': set.repsExecuted,
+                'Hard Hits': set.hardHits,
+                'Strikeouts': set.strikeouts,
+                'Execution %': calculateExecutionPercentage([set]),
+                'Grade': set.grade,
+                'Pitch Types': list(set.pitchTypes),
+                'Target Zones': list(set.targetZones),
+                'Count': set.countSituation || '',
+                'Outs': set.outs,
+                'Base Runners': list(set.baseRunners),
+                'Notes': set.notes || '',
+                'Session ID': session.id,
+            }));
+        });
+};
+
+// One row per rep, for sets logged pitch by pitch. Sets logged as totals have no rows here.
+export const getRepExportRows = (sessions: Session[], players: Player[]): CsvRow[] => {
+    return [...sessions]
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+        .flatMap(session => {
+            const player = players.find(p => p.id === session.playerId);
+            return session.sets.flatMap(set => (set.reps || []).map((rep, index) => ({
+                'Date': toDateKey(new Date(session.date)),
+                'Player': player?.name || session.playerId,
+                'Session': session.name,
+                'Set': set.setNumber,
+                'Rep': index + 1,
+                'Outcome': rep.outcome,
+                'Pitch Type': rep.pitchType || '',
+                'Zone': rep.zone || '',
+                'Exit Velo (mph)': rep.exitVelo,
+                'Launch Angle': rep.launchAngle,
+                'Spray Angle': rep.sprayAngle,
+                'Batted Ball Type': rep.battedBallType || '',
+                'Notes': rep.notes || '',
+                'Session ID': session.id,
+            })));
+        });
+};
+
+export const getPlayerSummaryRows = (players: Player[], sessions: Session[]): CsvRow[] => {
+    return players.map(player => {
+        const summary = summarizePlayerSessions(sessions.filter(s => s.playerId === player.id));
+        return {
+            'Player': player.name,
+            'Grad Year': player.profile.gradYear,
+            'Position': player.profile.position || '',
+            'Sessions': summary.sessions,
+            'Total Reps': summary.reps,
+            'Execution %': summary.execPct,
+            'Hard Hit %': summary.hardHitPct,
+            'Contact %': summary.contactPct,
+            'Last Session': summary.lastSessionDate ? toDateKey(new Date(summary.lastSessionDate)) : '',
+        };
+    });
+};
+
+export const getDrillSuccessRows = (sessions: Session[], drills: Drill[]): CsvRow[] => {
+    return getDrillSuccessRates(sessions, drills).map(rate => ({
+        'Drill': rate.name,
+        'Sessions': rate.sessions,
+        'Goal Met': rate.successes,
+        'Success Rate %': rate['Success Rate'],
+    }));
+};
+
+const goalRow = (goal: PersonalGoal | TeamGoal, owner: string, name: string, currentValue: number): CsvRow => ({
+    'Goal': name,
+    'For': owner,
+    'Metric': goal.metric,
+    'Current': Math.round(currentValue * 10) / 10,
+    'Target': goal.targetValue,
+    'Progress %': Math.round(Math.min(calculateGoalProgress(goal, currentValue), 100)),
+    'Start Date': goal.startDate,
+    'Target Date': goal.targetDate,
+    'Status': goal.status,
+});
+
+export const getGoalProgressRows = (
+    { players, sessions, drills, personalGoals, teamGoals = [], groups = [] }:
+    { players: Player[]; sessions: Session[]; drills: Drill[]; personalGoals: PersonalGoal[]; teamGoals?: TeamGoal[]; groups?: PlayerGroup[] }
+): CsvRow[] => [
+    ...teamGoals.map(goal => goalRow(
+        goal,
+        groups.find(g => g.id === goal.groupId)?.name || 'Team',
+        `${goal.description} (${formatTeamGoalName(goal)})`,
+        getCurrentTeamMetricValue(goal, sessions, drills, groups),
+    )),
+    ...personalGoals.map(goal => goalRow(
+        goal,
+        players.find(p => p.id === goal.playerId)?.name || goal.playerId,
+        formatGoalName(goal),
+        getCurrentMetricValue(goal, sessions.filter(s => s.playerId === goal.playerId), drills),
+    )),
+];
+
+export interface TeamExportData {
+    team: Team;
+    players: Player[];
+    groups: PlayerGroup[];
+    drills: Drill[];
+    plans: PracticePlan[];
+    assignments: DrillAssignment[];
+    sessions: Session[];
+    personalGoals: PersonalGoal[];
+    teamGoals: TeamGoal[];
+}
+
+// The raw records plus the derived summaries, for spreadsheets or other tools to pick up.
+export const buildTeamJsonExport = (data: TeamExportData) => ({
+    exportedAt: new Date().toISOString(),
+    ...data,
+    summaries: {
+        players: getPlayerSummaryRows(data.players, data.sessions),
+        drillSuccess: getDrillSuccessRows(data.sessions, data.drills),
+        goals: getGoalProgressRows(data),
+    },
+});
+
+export const buildPlayerJsonExport = ({ player, sessions, drills, goals }: { player: Player; sessions: Session[]; drills: Drill[]; goals: PersonalGoal[] }) => ({
+    exportedAt: new Date().toISOString(),
+    player,
+    sessions,
+    goals,
+    summaries: {
+        overall: summarizePlayerSessions(sessions),
+        drillSuccess: getDrillSuccessRows(sessions, drills),
+        goals: getGoalProgressRows({ players: [player], sessions, drills, personalGoals: goals }),
+    },
+});
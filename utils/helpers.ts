@@ -1,10 +1,22 @@
-import { Session, Drill, SetResult, PersonalGoal, GoalType, DrillType, TeamGoal } from '../types';
+import { Team, Session, Drill, DrillVersion, PracticePlan, PracticePlanItem, SetResult, RepResult, BattedBallType, PitchType, TargetZone, PersonalGoal, GoalType, GoalMetric, DrillType, TeamGoal, DrillAssignment, AssignmentTarget, DayOfWeek, Player, PlayerGroup } from '../types';
 import { DRILL_TYPES } from '../constants';
 
 export const generateTeamCode = (): string => {
   return Math.random().toString(36).substring(2, 8).toUpperCase();
 };
 
+// Local calendar day as YYYY-MM-DD, the format date inputs and assignment dates use.
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const parseDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
 export const formatDate = (dateString: string, options?: Intl.DateTimeFormatOptions): string => {
   const defaultOptions: Intl.DateTimeFormatOptions = {
     year: 'numeric',
@@ -35,20 +47,84 @@ export const calculateStrikeoutPercentage = (sets: SetResult[]): number => {
     return Math.round((totalStrikeouts / totalAttempted) * 100);
 };
 
-export const getSessionGoalProgress = (session: Session, drill: Drill): { value: number; isSuccess: boolean } => {
-    switch (drill.goalType) {
+type DrillGoalSettings = Pick<Drill, 'goalType' | 'goalTargetValue' | 'repsPerSet' | 'sets'>;
+
+const DRILL_GOAL_FIELDS: (keyof DrillGoalSettings)[] = ['goalType', 'goalTargetValue', 'repsPerSet', 'sets'];
+
+// The goal a session should be judged by: the drill version it was logged against, not whatever the drill says today.
+export const getDrillGoalForSession = (session: Session, drill: Drill): DrillGoalSettings => {
+    const versions = drill.previousVersions || [];
+    const match = session.drillVersion !== undefined
+        ? versions.find(v => v.version === session.drillVersion)
+        // Sessions logged before versioning existed: the earliest version replaced after the session was still in effect.
+        : versions.filter(v => v.replacedAt > session.date).sort((a, b) => a.version - b.version)[0];
+    return match || drill;
+};
+
+// Applies an edit, archiving the old goal settings as a new version if any of them changed.
+export const reviseDrill = (current: Drill, edited: Drill): Drill => {
+    const version = current.version || 1;
+    const goalChanged = DRILL_GOAL_FIELDS.some(field => current[field] !== edited[field]);
+    if (!goalChanged) {
+        return { ...edited, version, previousVersions: current.previousVersions };
+    }
+    const previous: DrillVersion = {
+        version,
+        goalType: current.goalType,
+        goalTargetValue: current.goalTargetValue,
+        repsPerSet: current.repsPerSet,
+        sets: current.sets,
+        replacedAt: new Date().toISOString(),
+    };
+    return { ...edited, version: version + 1, previousVersions: [...(current.previousVersions || []), previous] };
+};
+
+export const getSessionGoalProgress = (session: Session, drill: Drill): { value: number; isSuccess: boolean; goalType: GoalType } => {
+    const { goalType, goalTargetValue } = getDrillGoalForSession(session, drill);
+    switch (goalType) {
         case 'Execution %':
             const exec = calculateExecutionPercentage(session.sets);
-            return { value: exec, isSuccess: exec >= drill.goalTargetValue };
+            return { value: exec, isSuccess: exec >= goalTargetValue, goalType };
         case 'Hard Hit %':
             const hh = calculateHardHitPercentage(session.sets);
-            return { value: hh, isSuccess: hh >= drill.goalTargetValue };
+            return { value: hh, isSuccess: hh >= goalTargetValue, goalType };
         case 'No Strikeouts':
             const so = session.sets.reduce((sum, set) => sum + set.strikeouts, 0);
-            return { value: so, isSuccess: so <= drill.goalTargetValue };
+            return { value: so, isSuccess: so <= goalTargetValue, goalType };
         default:
-            return { value: 0, isSuccess: false };
+            return { value: 0, isSuccess: false, goalType };
+    }
+};
+
+const SET_FIELD_LABELS: { key: 'repsAttempted' | 'repsExecuted' | 'hardHits' | 'strikeouts'; label: string }[] = [
+    { key: 'repsAttempted', label: 'Reps' },
+    { key: 'repsExecuted', label: 'Executed' },
+    { key: 'hardHits', label: 'Hard Hits' },
+    { key: 'strikeouts', label: 'Strikeouts' },
+];
+
+// Human-readable summary of what an edit changed, e.g. "Set 2 Executed: 5 → 7". Sets are matched by set number.
+export const describeSessionChanges = (before: Session, after: Session): string[] => {
+    const changes: string[] = [];
+    if (before.name !== after.name) {
+        changes.push(`Name: ${before.name} → ${after.name}`);
     }
+    before.sets.forEach(oldSet => {
+        const newSet = after.sets.find(s => s.setNumber === oldSet.setNumber);
+        if (!newSet) {
+            changes.push(`Set ${oldSet.setNumber} removed`);
+            return;
+        }
+        SET_FIELD_LABELS.forEach(({ key, label }) => {
+            if (oldSet[key] !== newSet[key]) {
+                changes.push(`Set ${oldSet.setNumber} ${label}: ${oldSet[key]} → ${newSet[key]}`);
+            }
+        });
+        if ((oldSet.notes || '') !== (newSet.notes || '')) {
+            changes.push(`Set ${oldSet.setNumber} notes updated`);
+        }
+    });
+    return changes;
 };
 
 const getDrillTypeForSession = (session: Session, drills: Drill[]): DrillType | undefined => {
@@ -63,58 +139,60 @@ const getDrillTypeForSession = (session: Session, drills: Drill[]): DrillType |
     return undefined;
 };
 
+const toGoalDayKey = (date: string): string => toDateKey(new Date(toTimestamp(date)));
 
-export const getCurrentMetricValue = (goal: PersonalGoal, sessions: Session[], drills: Drill[]): number => {
-    const filteredSessions = goal.drillType
-        ? sessions.filter(s => getDrillTypeForSession(s, drills) === goal.drillType)
-        : sessions;
+// Only sessions logged from the day a goal starts through its target date count toward it. A goal set for a team
+// only counts sessions logged for that team, so the player's and the coach's devices measure it the same way.
+export const filterSessionsForGoal = (sessions: Session[], goal: Pick<PersonalGoal, 'startDate' | 'targetDate' | 'teamId'>): Session[] => {
+    const startKey = toGoalDayKey(goal.startDate);
+    const targetKey = toGoalDayKey(goal.targetDate);
+    return sessions.filter(s => {
+        if (goal.teamId && s.teamId !== goal.teamId) return false;
+        const dayKey = toGoalDayKey(s.date);
+        return dayKey >= startKey && dayKey <= targetKey;
+    });
+};
 
-    let allSets = filteredSessions.flatMap(s => s.sets);
+// Counting metrics add up over the goal's window; the rest are averages or rates that can move either way.
+export const isCountingMetric = (metric: GoalMetric): boolean => metric === 'Total Reps' || metric === 'No Strikeouts';
 
-    if (goal.targetZones && goal.targetZones.length > 0) {
-        allSets = allSets.filter(set =>
-            set.targetZones?.some(zone => goal.targetZones!.includes(zone))
-        );
-    }
+// Strikeout metrics are ceilings: the goal is to stay at or under the target.
+export const isLowerBetterMetric = (metric: GoalMetric): boolean => metric === 'No Strikeouts' || metric === 'Strikeouts per Session';
 
-    if (allSets.length === 0) return 0;
+type GoalScope = Pick<TeamGoal, 'metric' | 'startDate' | 'targetDate' | 'drillType' | 'targetZones' | 'pitchTypes' | 'minReps'> & { teamId?: string };
 
-    switch (goal.metric) {
-        case 'Execution %':
-            return calculateExecutionPercentage(allSets);
-        case 'Hard Hit %':
-            return calculateHardHitPercentage(allSets);
-        case 'No Strikeouts':
-            return allSets.reduce((sum, set) => sum + set.strikeouts, 0);
-        case 'Total Reps':
-            return allSets.reduce((sum, set) => sum + set.repsAttempted, 0);
-        default:
-            return 0;
-    }
-};
+const getTotalReps = (sets: SetResult[]): number => sets.reduce((sum, set) => sum + set.repsAttempted, 0);
 
-export const getCurrentTeamMetricValue = (goal: TeamGoal, sessions: Session[], drills: Drill[]): number => {
-    let filteredSessions = sessions;
+const roundToTenth = (value: number): number => Math.round(value * 10) / 10;
 
-    if (goal.drillType) {
-        filteredSessions = filteredSessions.filter(s => getDrillTypeForSession(s, drills) === goal.drillType);
-    }
+const getLongestDayStreak = (dayKeys: string[]): number => {
+    const days = [...new Set(dayKeys)].sort();
+    let longest = 0;
+    let current = 0;
+    days.forEach((day, index) => {
+        const isNextDay = index > 0 && Math.round((parseDateKey(day).getTime() - parseDateKey(days[index - 1]).getTime()) / 86400000) === 1;
+        current = isNextDay ? current + 1 : 1;
+        longest = Math.max(longest, current);
+    });
+    return longest;
+};
 
-    let allSets = filteredSessions.flatMap(s => s.sets);
-    
-    if (goal.targetZones && goal.targetZones.length > 0) {
-        allSets = allSets.filter(set =>
-            set.targetZones?.some(zone => goal.targetZones!.includes(zone))
-        );
-    }
+// Shared by player and team goals once the sessions are narrowed to whose work counts. Sessions under the goal's
+// minimum reps don't qualify; zone and pitch filters pick out the sets that count within each session.
+// Null when nothing in the sessions measures the metric, e.g. no graded sets for 'Average Grade'.
+const measureGoal = (goal: GoalScope, sessions: Session[], drills: Drill[], now: Date): number | null => {
+    const setMatches = (set: SetResult) =>
+        (!goal.targetZones?.length || !!set.targetZones?.some(zone => goal.targetZones!.includes(zone))) &&
+        (!goal.pitchTypes?.length || !!set.pitchTypes?.some(pitch => goal.pitchTypes!.includes(pitch)));
 
-    if (goal.pitchTypes && goal.pitchTypes.length > 0) {
-        allSets = allSets.filter(set =>
-            set.pitchTypes?.some(pitch => goal.pitchTypes!.includes(pitch))
-        );
-    }
-    
-    if (allSets.length === 0) return 0;
+    const counted = filterSessionsForGoal(sessions, goal)
+        .filter(s => !goal.drillType || getDrillTypeForSession(s, drills) === goal.drillType)
+        .filter(s => !goal.minReps || getTotalReps(s.sets) >= goal.minReps)
+        .map(s => ({ session: s, sets: s.sets.filter(setMatches) }))
+        .filter(c => c.sets.length > 0);
+    const allSets = counted.flatMap(c => c.sets);
+
+    if (allSets.length === 0) return null;
 
     switch (goal.metric) {
         case 'Execution %':
@@ -122,18 +200,53 @@ export const getCurrentTeamMetricValue = (goal: TeamGoal, sessions: Session[], d
         case 'Hard Hit %':
             return calculateHardHitPercentage(allSets);
         case 'No Strikeouts':
-            // For a team goal, this would likely be an average, but for now we sum it.
-            // A better team goal would be "Avg Strikeouts per Session"
             return allSets.reduce((sum, set) => sum + set.strikeouts, 0);
         case 'Total Reps':
-            return allSets.reduce((sum, set) => sum + set.repsAttempted, 0);
+            return getTotalReps(allSets);
+        case 'Strikeouts per Session':
+            return roundToTenth(allSets.reduce((sum, set) => sum + set.strikeouts, 0) / counted.length);
+        case 'Sessions per Week': {
+            // Weeks elapsed so far, so the rate isn't diluted by the part of the window still to come.
+            const startKey = toGoalDayKey(goal.startDate);
+            const endKey = [toDateKey(now), toGoalDayKey(goal.targetDate)].sort()[0];
+            const days = Math.round((parseDateKey(endKey).getTime() - parseDateKey(startKey).getTime()) / 86400000) + 1;
+            return roundToTenth(counted.length / Math.max(1, days / 7));
+        }
+        case 'Consecutive Days':
+            return getLongestDayStreak(counted.map(c => toGoalDayKey(c.session.date)));
+        case 'Drill Goal Success %': {
+            const results = counted.flatMap(({ session }) => {
+                const drill = session.drillId ? drills.find(d => d.id === session.drillId) : undefined;
+                return drill ? [getSessionGoalProgress(session, drill).isSuccess] : [];
+            });
+            return results.length > 0 ? Math.round(results.filter(Boolean).length / results.length * 100) : null;
+        }
+        case 'Average Grade': {
+            const grades = allSets.map(set => set.grade).filter((grade): grade is number => grade !== undefined);
+            return grades.length > 0 ? roundToTenth(grades.reduce((sum, grade) => sum + grade, 0) / grades.length) : null;
+        }
         default:
-            return 0;
+            return null;
     }
 };
 
+const filterSessionsForTeamGoal = (goal: TeamGoal, sessions: Session[], groups: PlayerGroup[]): Session[] => {
+    if (!goal.groupId) return sessions;
+    const memberIds = groups.find(g => g.id === goal.groupId)?.playerIds || [];
+    return sessions.filter(s => memberIds.includes(s.playerId));
+};
+
+export const getCurrentMetricValue = (goal: PersonalGoal, sessions: Session[], drills: Drill[], now: Date = new Date()): number => {
+    return measureGoal(goal, sessions, drills, now) ?? 0;
+};
+
+// 'No Strikeouts' is summed across everyone in scope; 'Strikeouts per Session' is the team's average.
+export const getCurrentTeamMetricValue = (goal: TeamGoal, sessions: Session[], drills: Drill[], groups: PlayerGroup[] = [], now: Date = new Date()): number => {
+    return measureGoal(goal, filterSessionsForTeamGoal(goal, sessions, groups), drills, now) ?? 0;
+};
+
 export const formatGoalName = (goal: PersonalGoal): string => {
-    let name = goal.metric;
+    let name: string = goal.metric;
     const specifics = [];
     if (goal.drillType) {
         specifics.push(goal.drillType);
@@ -145,6 +258,9 @@ export const formatGoalName = (goal: PersonalGoal): string => {
              specifics.push(goal.targetZones.join(', '));
         }
     }
+    if (goal.minReps) {
+        specifics.push(`${goal.minReps}+ rep sessions`);
+    }
     if (specifics.length > 0) {
         name += ` (${specifics.join(' & ')})`;
     }
@@ -166,12 +282,155 @@ export const formatTeamGoalName = (goal: TeamGoal): string => {
              specifics.push(goal.targetZones.join(', '));
         }
     }
+    if (goal.minReps) {
+        specifics.push(`${goal.minReps}+ rep sessions`);
+    }
     if (specifics.length > 0) {
         return `${goal.metric} (${specifics.join(' & ')})`;
     }
     return goal.metric;
 };
 
+// e.g. "72%", "3.5/wk", "6 days" or "7.2/10".
+export const formatGoalMetricValue = (metric: GoalMetric, value: number): string => {
+    switch (metric) {
+        case 'Sessions per Week':
+            return `${value}/wk`;
+        case 'Consecutive Days':
+            return `${value} day${value === 1 ? '' : 's'}`;
+        case 'Average Grade':
+            return `${value}/10`;
+        default:
+            return `${Math.round(value * 10) / 10}${metric.includes('%') ? '%' : ''}`;
+    }
+};
+
+// Percent of the way to the target. Strikeout goals count down, so fewer strikeouts means more progress.
+export const calculateGoalProgress = (goal: Pick<PersonalGoal, 'metric' | 'targetValue'>, currentValue: number): number => {
+    if (goal.targetValue > 0) {
+        if (isLowerBetterMetric(goal.metric)) {
+            return Math.max(0, 100 - (currentValue / goal.targetValue * 100));
+        }
+        return (currentValue / goal.targetValue) * 100;
+    }
+    if (isLowerBetterMetric(goal.metric) && goal.targetValue === 0) {
+        return currentValue === 0 ? 100 : 0;
+    }
+    return 0;
+};
+
+export type GoalOutcome = 'met' | 'missed' | 'pending';
+
+type GoalSettlement = Pick<PersonalGoal, 'status' | 'completedAt' | 'missedAt' | 'finalValue' | 'outcomeSeenBy'>;
+
+// Strikeout ceilings and weekly rates are only judged once the target date passes, though a "No Strikeouts" total
+// can be missed early since it only grows. Every other metric is met as soon as it reaches the target.
+export const getGoalOutcome = (goal: Pick<PersonalGoal, 'metric' | 'targetValue' | 'targetDate'>, currentValue: number, reps: number, now: Date = new Date()): GoalOutcome => {
+    const isPastTarget = toDateKey(now) > toDateKey(new Date(toTimestamp(goal.targetDate)));
+    if (isLowerBetterMetric(goal.metric)) {
+        if (goal.metric === 'No Strikeouts' && currentValue > goal.targetValue) return 'missed';
+        if (!isPastTarget) return 'pending';
+        return reps > 0 && currentValue <= goal.targetValue ? 'met' : 'missed';
+    }
+    if (goal.metric === 'Sessions per Week' && !isPastTarget) return 'pending';
+    if (reps > 0 && currentValue >= goal.targetValue) return 'met';
+    return isPastTarget ? 'missed' : 'pending';
+};
+
+const getGoalSettlement = (goal: Pick<PersonalGoal, 'status' | 'metric' | 'targetValue' | 'targetDate'>, currentValue: number, reps: number, now: Date): GoalSettlement | null => {
+    if (goal.status !== 'Active') return null;
+    const outcome = getGoalOutcome(goal, currentValue, reps, now);
+    if (outcome === 'pending') return null;
+    const settledAt = now.toISOString();
+    return outcome === 'met'
+        ? { status: 'Completed', completedAt: settledAt, finalValue: currentValue, outcomeSeenBy: [] }
+        : { status: 'Archived', missedAt: settledAt, finalValue: currentValue, outcomeSeenBy: [] };
+};
+
+// The goal with its outcome recorded, or null while it's still in play. Reps use the goal's own filters, so a
+// goal nobody has worked on yet isn't counted as met.
+export const evaluatePersonalGoal = (goal: PersonalGoal, sessions: Session[], drills: Drill[], now: Date = new Date()): PersonalGoal | null => {
+    const reps = getCurrentMetricValue({ ...goal, metric: 'Total Reps' }, sessions, drills, now);
+    const settlement = getGoalSettlement(goal, getCurrentMetricValue(goal, sessions, drills, now), reps, now);
+    return settlement && { ...goal, ...settlement };
+};
+
+export const evaluateTeamGoal = (goal: TeamGoal, sessions: Session[], drills: Drill[], groups: PlayerGroup[] = [], now: Date = new Date()): TeamGoal | null => {
+    const reps = getCurrentTeamMetricValue({ ...goal, metric: 'Total Reps' }, sessions, drills, groups, now);
+    const settlement = getGoalSettlement(goal, getCurrentTeamMetricValue(goal, sessions, drills, groups, now), reps, now);
+    return settlement && { ...goal, ...settlement };
+};
+
+export interface GoalForecast {
+    projectedValue: number; // Where the metric lands on the target date if the current pace holds
+    pace: number; // Change per day so far
+    requiredPace: number; // Change per day needed from today to reach the target
+    daysLeft: number; // Including today
+    onTrack: boolean;
+}
+
+const daysBetween = (fromKey: string, toKey: string): number => Math.round((parseDateKey(toKey).getTime() - parseDateKey(fromKey).getTime()) / 86400000);
+
+// Counting metrics extrapolate their running total. Averages can't be summed, so their pace is the trend line
+// through the per-session values. Habit metrics (weekly rate, day streaks) have no meaningful per-day pace.
+const getGoalForecast = (goal: Pick<PersonalGoal, 'status' | 'metric' | 'targetValue' | 'startDate' | 'targetDate'>, sessions: Session[], measure: (sessions: Session[]) => number | null, now: Date): GoalForecast | null => {
+    const todayKey = toDateKey(now);
+    const startKey = toGoalDayKey(goal.startDate);
+    const targetKey = toGoalDayKey(goal.targetDate);
+    if (goal.status !== 'Active' || todayKey < startKey || todayKey > targetKey) return null;
+    if (goal.metric === 'Sessions per Week' || goal.metric === 'Consecutive Days') return null;
+
+    const windowSessions = filterSessionsForGoal(sessions, goal);
+    const currentValue = measure(windowSessions) ?? 0;
+    const daysLeft = daysBetween(todayKey, targetKey) + 1;
+    const daysAfterToday = daysLeft - 1;
+    let pace: number;
+
+    if (isCountingMetric(goal.metric)) {
+        pace = currentValue / (daysBetween(startKey, todayKey) + 1);
+    } else {
+        const points = windowSessions
+            .map(s => ({ x: daysBetween(startKey, toGoalDayKey(s.date)), y: measure([s]) }))
+            .filter((p): p is { x: number; y: number } => p.y !== null);
+        const n = points.length;
+        const sumX = points.reduce((acc, p) => acc + p.x, 0);
+        const sumY = points.reduce((acc, p) => acc + p.y, 0);
+        const sumXY = points.reduce((acc, p) => acc + p.x * p.y, 0);
+        const sumX2 = points.reduce((acc, p) => acc + p.x * p.x, 0);
+        const denominator = n * sumX2 - sumX * sumX;
+        pace = n >= 2 && denominator !== 0 ? (n * sumXY - sumX * sumY) / denominator : 0;
+    }
+
+    const round = (value: number) => Math.round(value * 10) / 10;
+    let projectedValue = currentValue + pace * daysAfterToday;
+    if (goal.metric.includes('%')) projectedValue = Math.min(100, Math.max(0, projectedValue));
+    if (goal.metric === 'Average Grade') projectedValue = Math.min(10, Math.max(0, projectedValue));
+    if (isLowerBetterMetric(goal.metric)) projectedValue = Math.max(0, projectedValue);
+
+    return {
+        projectedValue: round(projectedValue),
+        pace: round(pace),
+        requiredPace: round((goal.targetValue - currentValue) / daysLeft),
+        daysLeft,
+        onTrack: isLowerBetterMetric(goal.metric) ? projectedValue <= goal.targetValue : projectedValue >= goal.targetValue,
+    };
+};
+
+export const getPersonalGoalForecast = (goal: PersonalGoal, sessions: Session[], drills: Drill[], now: Date = new Date()): GoalForecast | null => {
+    return getGoalForecast(goal, sessions, windowSessions => measureGoal(goal, windowSessions, drills, now), now);
+};
+
+export const getTeamGoalForecast = (goal: TeamGoal, sessions: Session[], drills: Drill[], groups: PlayerGroup[] = [], now: Date = new Date()): GoalForecast | null => {
+    return getGoalForecast(goal, filterSessionsForTeamGoal(goal, sessions, groups), windowSessions => measureGoal(goal, windowSessions, drills, now), now);
+};
+
+// Goals that were met or ran out of time, most recent first. Goals archived by a season rollover aren't included.
+export const getSettledGoals = <T extends Pick<PersonalGoal, 'completedAt' | 'missedAt'>>(goals: T[]): T[] => {
+    return goals
+        .filter(g => g.completedAt || g.missedAt)
+        .sort((a, b) => (b.completedAt || b.missedAt)!.localeCompare((a.completedAt || a.missedAt)!));
+};
+
 export const addTrendLineData = (data: { [key: string]: any }[], dataKey: string): { [key: string]: any }[] => {
   const points = data
     .map((d, index) => ({ x: index, y: d[dataKey] }))
@@ -197,4 +456,449 @@ export const addTrendLineData = (data: { [key: string]: any }[], dataKey: string
     ...d,
     [trendKey]: slope * index + intercept
   }));
-};
\ No newline at end of file
+};
+// --- Pitch-by-Pitch Logging ---
+
+// Hard hits also count as executed reps; whiffs count as strikeouts.
+export const summarizeReps = (reps: RepResult[]): Pick<SetResult, 'repsAttempted' | 'repsExecuted' | 'hardHits' | 'strikeouts' | 'pitchTypes' | 'targetZones'> => ({
+    repsAttempted: reps.length,
+    repsExecuted: reps.filter(r => r.outcome === 'Executed' || r.outcome === 'Hard Hit').length,
+    hardHits: reps.filter(r => r.outcome === 'Hard Hit').length,
+    strikeouts: reps.filter(r => r.outcome === 'Whiff').length,
+    pitchTypes: Array.from(new Set<PitchType>(reps.map(r => r.pitchType).filter((p): p is PitchType => !!p))),
+    targetZones: Array.from(new Set<TargetZone>(reps.map(r => r.zone).filter((z): z is TargetZone => !!z))),
+});
+
+interface RepTags {
+    pitchTypes: PitchType;
+    targetZones: TargetZone;
+}
+
+// Reps per pitch type or zone. Sets logged pitch by pitch are counted exactly; count-only sets spread their totals evenly across their tags.
+export const splitSetReps = <K extends keyof RepTags>(set: SetResult, key: K): { value: RepTags[K]; attempted: number; executed: number }[] => {
+    if (set.reps && set.reps.length > 0) {
+        const totals = new Map<RepTags[K], { attempted: number; executed: number }>();
+        set.reps.forEach(rep => {
+            const value = (key === 'pitchTypes' ? rep.pitchType : rep.zone) as RepTags[K] | undefined;
+            if (!value) return;
+            const entry = totals.get(value) || { attempted: 0, executed: 0 };
+            entry.attempted++;
+            if (rep.outcome === 'Executed' || rep.outcome === 'Hard Hit') entry.executed++;
+            totals.set(value, entry);
+        });
+        return Array.from(totals, ([value, entry]) => ({ value, ...entry }));
+    }
+    const values = (set[key] || []) as RepTags[K][];
+    return values.map(value => ({ value, attempted: set.repsAttempted / values.length, executed: set.repsExecuted / values.length }));
+};
+
+// --- Batted Balls ---
+
+export interface BattedBall extends RepResult {
+    sessionId: string;
+    playerId: string;
+    date: string; // ISO string of the session
+}
+
+const hasBattedBallData = (rep: RepResult): boolean => {
+    return rep.exitVelo !== undefined || rep.launchAngle !== undefined || rep.sprayAngle !== undefined || !!rep.battedBallType;
+};
+
+export const getBattedBalls = (sessions: Session[]): BattedBall[] => {
+    return sessions.flatMap(session => session.sets.flatMap(set => (set.reps || [])
+        .filter(hasBattedBallData)
+        .map(rep => ({ ...rep, sessionId: session.id, playerId: session.playerId, date: session.date }))));
+};
+
+// The usual launch-angle bands for each batted-ball type.
+export const classifyLaunchAngle = (launchAngle: number): BattedBallType => {
+    if (launchAngle < 10) return 'GB';
+    if (launchAngle < 25) return 'LD';
+    if (launchAngle < 50) return 'FB';
+    return 'PU';
+};
+
+const average = (values: number[]): number => values.length > 0 ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10 : 0;
+
+export const summarizeBattedBalls = (balls: BattedBall[]) => {
+    const exitVelos = balls.map(b => b.exitVelo).filter((v): v is number => v !== undefined);
+    const launchAngles = balls.map(b => b.launchAngle).filter((v): v is number => v !== undefined);
+    return {
+        count: balls.length,
+        // null when no ball in the set has the measurement, so 0 mph / 0° stay meaningful
+        avgExitVelo: exitVelos.length > 0 ? average(exitVelos) : null,
+        maxExitVelo: exitVelos.length > 0 ? Math.max(...exitVelos) : null,
+        avgLaunchAngle: launchAngles.length > 0 ? average(launchAngles) : null,
+    };
+};
+
+// Average and max exit velocity per day, oldest first.
+export const getExitVeloTrend = (balls: BattedBall[]): { name: string; 'Avg EV': number; 'Max EV': number }[] => {
+    const byDay = new Map<string, number[]>();
+    [...balls]
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+        .forEach(ball => {
+            if (ball.exitVelo === undefined) return;
+            const day = toDateKey(new Date(ball.date));
+            byDay.set(day, [...(byDay.get(day) || []), ball.exitVelo]);
+        });
+    return Array.from(byDay, ([day, velos]) => ({
+        name: formatDate(day + 'T00:00:00', { month: 'short', day: 'numeric' }),
+        'Avg EV': average(velos),
+        'Max EV': Math.max(...velos),
+    }));
+};
+
+const LAUNCH_ANGLE_BUCKETS: { name: string; min: number; max: number }[] = [
+    { name: '< 0°', min: -Infinity, max: 0 },
+    { name: '0–10°', min: 0, max: 10 },
+    { name: '10–20°', min: 10, max: 20 },
+    { name: '20–30°', min: 20, max: 30 },
+    { name: '30–40°', min: 30, max: 40 },
+    { name: '40–50°', min: 40, max: 50 },
+    { name: '50°+', min: 50, max: Infinity },
+];
+
+export const getLaunchAngleDistribution = (balls: BattedBall[]): { name: string; count: number }[] => {
+    const angles = balls.map(b => b.launchAngle).filter((v): v is number => v !== undefined);
+    return LAUNCH_ANGLE_BUCKETS.map(({ name, min, max }) => ({ name, count: angles.filter(a => a >= min && a < max).length }));
+};
+
+// --- Assignments ---
+
+const DAYS_OF_WEEK: DayOfWeek[] = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const getAssignmentStartDate = (assignment: DrillAssignment): string => assignment.startDate || toDateKey(new Date(assignment.assignedDate));
+
+const getDateKeysBetween = (start: string, end: string): string[] => {
+    const keys: string[] = [];
+    for (const day = parseDateKey(start); toDateKey(day) <= end; day.setDate(day.getDate() + 1)) {
+        keys.push(toDateKey(day));
+    }
+    return keys;
+};
+
+// Whether the assignment asks for work on the given day. One-time assignments stay open from their start until completed.
+export const isAssignmentOpenOn = (assignment: DrillAssignment, dateKey: string): boolean => {
+    if (assignment.cancelledAt || assignment.archivedAt || dateKey < getAssignmentStartDate(assignment)) return false;
+    if (!assignment.isRecurring) return true;
+    if (assignment.endDate && dateKey > assignment.endDate) return false;
+    return !!assignment.recurringDays?.includes(DAYS_OF_WEEK[parseDateKey(dateKey).getDay()]);
+};
+
+// Not cancelled or archived, and for recurring assignments not past their end date. These are what a season rollover archives.
+export const isAssignmentInEffect = (assignment: DrillAssignment, todayKey: string): boolean => {
+    if (assignment.cancelledAt || assignment.archivedAt) return false;
+    return !assignment.isRecurring || !assignment.endDate || assignment.endDate >= todayKey;
+};
+
+export interface AssignmentCompletion {
+    playerId: string;
+    expected: number;
+    completed: number;
+    missedDates: string[]; // Expected days that have passed with nothing logged
+    isOverdue: boolean;
+}
+
+// Sentinel in `DrillAssignment.playerIds` meaning every player on the team.
+export const ALL_PLAYERS = 'all';
+
+const matchesAssignmentTarget = (target: AssignmentTarget, player: Player, groups: PlayerGroup[]): boolean => {
+    switch (target.type) {
+        case 'team':
+            return true;
+        case 'gradYear':
+            return player.profile?.gradYear === target.gradYear;
+        case 'position':
+            return player.profile?.position === target.position;
+        case 'group':
+            return !!groups.find(g => g.id === target.groupId)?.playerIds.includes(player.id);
+        default:
+            return false;
+    }
+};
+
+// Targets are evaluated against the roster at read time, so players who join later are picked up automatically.
+export const isPlayerAssigned = (assignment: Pick<DrillAssignment, 'playerIds' | 'targets'>, player: Player, groups: PlayerGroup[] = []): boolean => {
+    return assignment.playerIds.includes(ALL_PLAYERS)
+        || assignment.playerIds.includes(player.id)
+        || (assignment.targets || []).some(target => matchesAssignmentTarget(target, player, groups));
+};
+
+export const getAssignedPlayers = (assignment: Pick<DrillAssignment, 'playerIds' | 'targets'>, roster: Player[], groups: PlayerGroup[] = []): Player[] => {
+    return roster.filter(p => isPlayerAssigned(assignment, p, groups));
+};
+
+// A plan assignment is satisfied by any session logged while working through that plan.
+export const isSessionForAssignment = (session: Session, assignment: DrillAssignment): boolean => {
+    return assignment.planId ? session.planId === assignment.planId : !!assignment.drillId && session.drillId === assignment.drillId;
+};
+
+// Compares what a player owed against the sessions they logged for the drill. Nothing is owed from before they joined the team.
+export const getPlayerAssignmentCompletion = (assignment: DrillAssignment, player: Player, sessions: Session[], today: Date = new Date()): AssignmentCompletion => {
+    const playerId = player.id;
+    const todayKey = toDateKey(today);
+    const joinedAt = player.teamJoinedAt?.[assignment.teamId];
+    const joinedKey = joinedAt ? toDateKey(new Date(joinedAt)) : '';
+    const assignmentStart = getAssignmentStartDate(assignment);
+    const start = joinedKey > assignmentStart ? joinedKey : assignmentStart;
+
+    const loggedDays = new Set(sessions
+        .filter(s => s.playerId === playerId && isSessionForAssignment(s, assignment))
+        .map(s => toDateKey(new Date(s.date)))
+        .filter(day => day >= start));
+
+    if (!assignment.isRecurring) {
+        if (assignment.dueDate && start > assignment.dueDate) {
+            return { playerId, expected: 0, completed: 0, missedDates: [], isOverdue: false };
+        }
+        const completed = loggedDays.size > 0 ? 1 : 0;
+        const isOverdue = !completed && !assignment.cancelledAt && !assignment.archivedAt && !!assignment.dueDate && todayKey > assignment.dueDate;
+        return { playerId, expected: 1, completed, missedDates: isOverdue ? [assignment.dueDate!] : [], isOverdue };
+    }
+
+    // A recurring assignment stops expecting work at its end date or when it's cancelled or archived, whichever comes first.
+    const bounds = [todayKey, assignment.endDate, assignment.cancelledAt && toDateKey(new Date(assignment.cancelledAt)), assignment.archivedAt && toDateKey(new Date(assignment.archivedAt))].filter((d): d is string => !!d);
+    const last = bounds.sort()[0];
+    const expectedDays = getDateKeysBetween(start, last)
+        .filter(day => assignment.recurringDays?.includes(DAYS_OF_WEEK[parseDateKey(day).getDay()]));
+    const missedDates = expectedDays.filter(day => day < todayKey && !loggedDays.has(day));
+    return {
+        playerId,
+        expected: expectedDays.length,
+        completed: expectedDays.filter(day => loggedDays.has(day)).length,
+        missedDates,
+        isOverdue: missedDates.length > 0,
+    };
+};
+
+export const getAssignmentCompletion = (assignment: DrillAssignment, roster: Player[], sessions: Session[], groups: PlayerGroup[] = [], today: Date = new Date()): AssignmentCompletion[] => {
+    return getAssignedPlayers(assignment, roster, groups).map(player => getPlayerAssignmentCompletion(assignment, player, sessions, today));
+};
+
+export const formatAssignmentTargets = (assignment: DrillAssignment, groups: PlayerGroup[] = []): string => {
+    const targets = assignment.targets || [];
+    if (assignment.playerIds.includes(ALL_PLAYERS) || targets.some(t => t.type === 'team')) {
+        return 'Whole team';
+    }
+    const labels = targets.map(target => {
+        switch (target.type) {
+            case 'gradYear':
+                return `Class of ${target.gradYear}`;
+            case 'position':
+                return target.position;
+            case 'group':
+                return groups.find(g => g.id === target.groupId)?.name || 'Deleted group';
+            default:
+                return '';
+        }
+    }).filter(Boolean);
+    if (assignment.playerIds.length > 0) {
+        labels.push(`${assignment.playerIds.length} player${assignment.playerIds.length === 1 ? '' : 's'}`);
+    }
+    return labels.join(', ');
+};
+
+export const formatAssignmentSchedule = (assignment: DrillAssignment): string => {
+    if (!assignment.isRecurring) {
+        return assignment.dueDate ? `Due ${formatDate(assignment.dueDate + 'T00:00:00', { month: 'short', day: 'numeric' })}` : 'One-time';
+    }
+    const days = (assignment.recurringDays || []).slice().sort((a, b) => DAYS_OF_WEEK.indexOf(a) - DAYS_OF_WEEK.indexOf(b)).join(', ');
+    return assignment.endDate ? `${days} until ${formatDate(assignment.endDate + 'T00:00:00', { month: 'short', day: 'numeric' })}` : days;
+};
+
+// --- Practice Plans ---
+
+// The drill as the plan asks for it, with the step's volume overrides applied.
+export const applyPlanItem = (drill: Drill, item: PracticePlanItem): Drill => ({
+    ...drill,
+    sets: item.sets ?? drill.sets,
+    repsPerSet: item.repsPerSet ?? drill.repsPerSet,
+});
+
+// Steps whose drill has since been deleted are skipped.
+export const getPlanSteps = (plan: PracticePlan, drills: Drill[]): { item: PracticePlanItem; drill: Drill }[] => {
+    return plan.items
+        .map(item => ({ item, drill: drills.find(d => d.id === item.drillId) }))
+        .filter((step): step is { item: PracticePlanItem; drill: Drill } => !!step.drill)
+        .map(({ item, drill }) => ({ item, drill: applyPlanItem(drill, item) }));
+};
+
+export const getPlanTotalReps = (plan: PracticePlan, drills: Drill[]): number => {
+    return getPlanSteps(plan, drills).reduce((sum, { drill }) => sum + drill.sets * drill.repsPerSet, 0);
+};
+
+// --- Reports ---
+// The analytics pages, the skill radar and the data exports all read from these so their numbers agree.
+
+export const getPerformanceOverTime = (sessions: Session[]): { name: string; 'Execution %': number; 'Hard Hit %': number }[] => {
+    return [...sessions]
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+        .map(s => ({
+            name: formatDate(s.date, { month: 'short', day: 'numeric' }),
+            'Execution %': calculateExecutionPercentage(s.sets),
+            'Hard Hit %': calculateHardHitPercentage(s.sets),
+        }));
+};
+
+// Share of sessions per drill that met the drill's goal. Ad-hoc sessions have no goal and are left out.
+export const getDrillSuccessRates = (sessions: Session[], drills: Drill[]): { name: string; sessions: number; successes: number; 'Success Rate': number }[] => {
+    const drillSuccessMap = new Map<string, { success: number, total: number }>();
+    sessions.forEach(session => {
+        const drill = drills.find(d => d.id === session.drillId);
+        if (drill) {
+            const { isSuccess } = getSessionGoalProgress(session, drill);
+            const entry = drillSuccessMap.get(drill.name) || { success: 0, total: 0 };
+            entry.total++;
+            if (isSuccess) entry.success++;
+            drillSuccessMap.set(drill.name, entry);
+        }
+    });
+    return Array.from(drillSuccessMap.entries()).map(([name, data]) => ({
+        name,
+        sessions: data.total,
+        successes: data.success,
+        'Success Rate': data.total > 0 ? Math.round((data.success / data.total) * 100) : 0,
+    }));
+};
+
+export const getSkillRatings = (sessions: Session[]): { subject: string; value: number; fullMark: number }[] => {
+    const allSets = sessions.flatMap(s => s.sets);
+    if (allSets.length === 0) {
+        return ['Execution', 'Power', 'Contact', '2-Strike', 'Clutch'].map(subject => ({ subject, value: 0, fullMark: 100 }));
+    }
+
+    const overallExecution = calculateExecutionPercentage(allSets);
+    const power = calculateHardHitPercentage(allSets);
+    const contact = 100 - calculateStrikeoutPercentage(allSets);
+
+    const twoStrikeSets = allSets.filter(s => s.countSituation === 'Behind');
+    const twoStrikeHitting = twoStrikeSets.length > 0 ? calculateExecutionPercentage(twoStrikeSets) : 0;
+    
+    const clutchSets = allSets.filter(s => s.baseRunners && s.baseRunners.length > 0);
+    const clutchHitting = clutchSets.length > 0 ? calculateExecutionPercentage(clutchSets) : 0;
+    
+    return [
+        { subject: 'Execution', value: overallExecution, fullMark: 100 },
+        { subject: 'Power', value: power, fullMark: 100 },
+        { subject: 'Contact', value: contact, fullMark: 100 },
+        { subject: '2-Strike', value: twoStrikeHitting, fullMark: 100 },
+        { subject: 'Clutch', value: clutchHitting, fullMark: 100 },
+    ];
+};
+
+export interface PlayerSummary {
+    sessions: number;
+    reps: number;
+    execPct: number;
+    hardHitPct: number;
+    contactPct: number;
+    lastSessionDate?: string;
+}
+
+export const summarizePlayerSessions = (sessions: Session[]): PlayerSummary => {
+    const allSets = sessions.flatMap(s => s.sets);
+    return {
+        sessions: sessions.length,
+        reps: allSets.reduce((sum, set) => sum + set.repsAttempted, 0),
+        execPct: calculateExecutionPercentage(allSets),
+        hardHitPct: calculateHardHitPercentage(allSets),
+        contactPct: allSets.length > 0 ? 100 - calculateStrikeoutPercentage(allSets) : 0,
+        lastSessionDate: sessions.reduce<string | undefined>((latest, s) => !latest || s.date > latest ? s.date : latest, undefined),
+    };
+};
+
+export interface SessionBaseline {
+    summary: PlayerSummary;
+    goalValue?: number; // Per-session average of the metric this session's drill goal is judged on
+}
+
+// The player's other sessions of the same drill (or the same kind of ad-hoc session), to set one session against.
+export const getSessionBaseline = (session: Session, sessions: Session[], drill?: Drill): SessionBaseline | null => {
+    const others = sessions.filter(s => s.id !== session.id && s.playerId === session.playerId
+        && (session.drillId ? s.drillId === session.drillId : !s.drillId && s.name === session.name));
+    if (others.length === 0) return null;
+    if (!drill) return { summary: summarizePlayerSessions(others) };
+
+    const { goalType } = getDrillGoalForSession(session, drill);
+    const goalValues = others.map(s => goalType === 'Execution %' ? calculateExecutionPercentage(s.sets)
+        : goalType === 'Hard Hit %' ? calculateHardHitPercentage(s.sets)
+        : goalType === 'No Strikeouts' ? s.sets.reduce((sum, set) => sum + set.strikeouts, 0)
+        : s.sets.reduce((sum, set) => sum + set.repsAttempted, 0));
+    return {
+        summary: summarizePlayerSessions(others),
+        goalValue: Math.round((goalValues.reduce((sum, v) => sum + v, 0) / goalValues.length) * 10) / 10,
+    };
+};
+
+// --- Seasons ---
+// A rollover closes the season in progress, so anything dated up to a past season's end belongs to that season.
+
+export const ALL_SEASONS = 'all';
+export type SeasonFilterValue = number | typeof ALL_SEASONS;
+
+// Newest first, starting with the season in progress.
+export const getTeamSeasons = (team: Team): number[] => [team.seasonYear, ...(team.pastSeasons || []).map(s => s.year).reverse()];
+
+// Accepts both ISO strings and YYYY-MM-DD keys, which are read as local days.
+const toTimestamp = (date: string): number => /^\d{4}-\d{2}-\d{2}$/.test(date) ? parseDateKey(date).getTime() : new Date(date).getTime();
+
+// Records from a team that's no longer loaded fall back to their calendar year.
+export const getSeasonYearForDate = (team: Team | undefined, date: string): number => {
+    if (!team) return new Date(toTimestamp(date)).getFullYear();
+    const time = toTimestamp(date);
+    const closedSeason = (team.pastSeasons || []).find(s => time <= new Date(s.endedAt).getTime());
+    return closedSeason ? closedSeason.year : team.seasonYear;
+};
+
+// When the season was closed, or undefined for the season in progress and "all seasons".
+export const getSeasonEndDate = (team: Team, season: SeasonFilterValue): Date | undefined => {
+    const closedSeason = (team.pastSeasons || []).find(s => s.year === season);
+    return closedSeason ? new Date(closedSeason.endedAt) : undefined;
+};
+
+export const getSessionSeasonYear = (session: Session, teams: Team[]): number => {
+    return getSeasonYearForDate(teams.find(t => t.id === session.teamId), session.date);
+};
+
+export const filterSessionsBySeason = (sessions: Session[], teams: Team[], season: SeasonFilterValue): Session[] => {
+    if (season === ALL_SEASONS) return sessions;
+    return sessions.filter(s => getSessionSeasonYear(s, teams) === season);
+};
+
+// Goals belong to the season they started in.
+export const filterGoalsBySeason = <T extends Pick<PersonalGoal, 'startDate'>>(goals: T[], team: Team | undefined, season: SeasonFilterValue): T[] => {
+    if (season === ALL_SEASONS) return goals;
+    return goals.filter(g => getSeasonYearForDate(team, g.startDate) === season);
+};
+
+export interface SeasonComparison {
+    name: string;
+    sessions: number;
+    reps: number;
+    'Execution %': number;
+    'Hard Hit %': number;
+    'Contact %': number;
+}
+
+// One entry per season with logged sessions, oldest first.
+export const getSeasonComparison = (sessions: Session[], teams: Team[]): SeasonComparison[] => {
+    const bySeason = new Map<number, Session[]>();
+    sessions.forEach(session => {
+        const year = getSessionSeasonYear(session, teams);
+        bySeason.set(year, [...(bySeason.get(year) || []), session]);
+    });
+    return Array.from(bySeason.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([year, seasonSessions]) => {
+            const summary = summarizePlayerSessions(seasonSessions);
+            return {
+                name: year.toString(),
+                sessions: summary.sessions,
+                reps: summary.reps,
+                'Execution %': summary.execPct,
+                'Hard Hit %': summary.hardHitPct,
+                'Contact %': summary.contactPct,
+            };
+        });
+};
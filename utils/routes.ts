@@ -0,0 +1,37 @@
+// Paths look like /team/:teamId/:view/:id. The team prefix is optional, so a link a coach copies
+// (e.g. /team/abc/drills/xyz) still opens for a player, who only ever sees their own team.
+
+export interface AppRoute {
+    view: string;
+    teamId?: string;
+    id?: string; // The player, drill or session the view is focused on
+}
+
+export const DEFAULT_VIEW = 'dashboard';
+
+const decodeSegment = (segment: string): string => {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+};
+
+export const parseRoute = (pathname: string): AppRoute => {
+    const segments = pathname.split('/').filter(Boolean).map(decodeSegment);
+    const teamId = segments[0] === 'team' ? segments[1] : undefined;
+    const [view = DEFAULT_VIEW, id] = segments[0] === 'team' ? segments.slice(2) : segments;
+    return { view, teamId, id };
+};
+
+export const buildPath = ({ view, teamId, id }: AppRoute): string => {
+    const segments = [
+        ...(teamId ? ['team', teamId] : []),
+        ...(view !== DEFAULT_VIEW || id ? [view] : []),
+        ...(id ? [id] : []),
+    ];
+    return `/${segments.map(encodeURIComponent).join('/')}`;
+};
+
+// An absolute link for sharing outside the app, e.g. texting a drill to a player.
+export const buildShareUrl = (route: AppRoute): string => `${window.location.origin}${buildPath(route)}`;